@@ -0,0 +1,58 @@
+import { TokenUsage } from "@/types/ai";
+import { BudgetConfig } from "@/types/config";
+import { AIError } from "@/utils/errors";
+
+/**
+ * Tracks the estimated AI cost of a run, shared by the AI clients of all its
+ * tests to enforce `budget.maxCostPerRun` across workers
+ *
+ * @private
+ */
+export class RunCostTracker {
+  private cost: number = 0;
+
+  get total(): number {
+    return this.cost;
+  }
+
+  add(cost: number) {
+    this.cost += cost;
+  }
+}
+
+/**
+ * Throws if a budget is exhausted, before making another AI request
+ *
+ * @param {BudgetConfig} budget - Budget config
+ * @param {Object} spent - Tokens and requests used by the test, cost of the run
+ * @throws {AIError} With type `budget-exceeded` if a budget is exhausted
+ *
+ * @private
+ */
+export const assertWithinBudget = (
+  budget: BudgetConfig,
+  spent: { usage: TokenUsage; steps: number; runCost: number },
+): void => {
+  const { maxTokensPerTest, maxStepsPerTest, maxCostPerRun } = budget;
+  if (
+    maxTokensPerTest !== undefined &&
+    spent.usage.totalTokens >= maxTokensPerTest
+  ) {
+    throw new AIError(
+      "budget-exceeded",
+      `Token budget exceeded: ${spent.usage.totalTokens.toLocaleString()} tokens used, maxTokensPerTest is ${maxTokensPerTest.toLocaleString()}`,
+    );
+  }
+  if (maxStepsPerTest !== undefined && spent.steps >= maxStepsPerTest) {
+    throw new AIError(
+      "budget-exceeded",
+      `Step budget exceeded: ${spent.steps} AI requests made, maxStepsPerTest is ${maxStepsPerTest}`,
+    );
+  }
+  if (maxCostPerRun !== undefined && spent.runCost >= maxCostPerRun) {
+    throw new AIError(
+      "budget-exceeded",
+      `Cost budget exceeded: $${spent.runCost.toFixed(2)} spent by the run, maxCostPerRun is $${maxCostPerRun.toFixed(2)}`,
+    );
+  }
+};
@@ -1,22 +1,52 @@
 import { LanguageModelV1FinishReason } from "@ai-sdk/provider";
 import {
-  CoreMessage,
   Tool,
   generateText,
   LanguageModelV1,
+  LanguageModelV1Middleware,
   NoSuchToolError,
+  wrapLanguageModel,
 } from "ai";
 
-import { SYSTEM_PROMPT } from "@/ai/prompts";
+import { assertWithinBudget, RunCostTracker } from "@/ai/budget";
+import { ConversationHistory } from "@/ai/history";
+import { calculateCost } from "@/ai/pricing";
+import {
+  getCacheTokenUsage,
+  supportsPromptCaching,
+  withPromptCaching,
+} from "@/ai/prompt-caching";
+import { composeSystemPrompt } from "@/ai/prompts";
 import { createProvider } from "@/ai/provider";
-import { AIJSONResponse, extractJsonPayload } from "@/ai/utils/json";
+import { createRateLimitMiddleware, RateLimiter } from "@/ai/rate-limiter";
+import {
+  getBackoffDelay,
+  getErrorStatusCode,
+  getRetryAfter,
+  isNonRetryableStatus,
+  isOverloadedError,
+} from "@/ai/retry";
+import { moveScreenshotsToUserMessages } from "@/ai/tools/function/computer";
+import { textToolProtocolMiddleware } from "@/ai/tools/text/protocol";
+import {
+  createMockModel,
+  createTranscriptRecorder,
+  getTranscriptPath,
+} from "@/ai/transcript";
+import {
+  AIJSONResponse,
+  createAIJSONResponseSchema,
+  extractJsonPayload,
+} from "@/ai/utils/json";
 import { BrowserTool } from "@/browser/core/browser-tool";
+import { getTestCaseExpectations } from "@/core/runner/test-case";
 import { TestRun } from "@/core/runner/test-run";
 import { getConfig } from "@/index";
 import { getLogger, Log } from "@/log";
 import { createToolRegistry, ToolRegistry } from "@/tools/index";
+import { ToolProtocol } from "@/tools/tool-registry";
 import { TokenUsage, TokenUsageSchema } from "@/types/ai";
-import { AIConfig } from "@/types/config";
+import { AIConfig, BudgetConfig } from "@/types/config";
 import {
   getErrorDetails,
   AIError,
@@ -69,6 +99,12 @@ export type AIClientResponse = {
  * ```
  *
  * @param {BrowserTool} browserTool - Browser automation tool
+ * @param {string} [systemPrompt] - System prompt of the test, defaults to the
+ * built-in prompt with the instructions of the config
+ * @param {RunCostTracker} [runCostTracker] - Cost of the run, shared by the
+ * clients of all its tests
+ * @param {RateLimiter} [rateLimiter] - Limiter of the AI requests of the run,
+ * shared by the clients of all its tests
  *
  * @see {@link BrowserTool} for web automation
  * @see {@link TestCache} for caching implementation
@@ -78,7 +114,7 @@ export type AIClientResponse = {
 export class AIClient {
   private client: LanguageModelV1;
   private browserTool: BrowserTool;
-  private conversationHistory: Array<CoreMessage> = [];
+  private conversationHistory: ConversationHistory;
   private testRun: TestRun;
   private log: Log;
   private usage: TokenUsage;
@@ -86,21 +122,53 @@ export class AIClient {
   private toolRegistry: ToolRegistry;
   private _tools: Record<string, Tool> | null = null;
   private configAi: AIConfig;
+  private configBudget: BudgetConfig;
+  private runCostTracker: RunCostTracker;
+  private rateLimiter: RateLimiter;
+  // Models left to try when the current one is overloaded
+  private fallbackModels: string[];
+  private toolProtocol: ToolProtocol;
+  private systemPrompt: string;
   constructor({
     browserTool,
     testRun,
+    systemPrompt,
+    runCostTracker = new RunCostTracker(),
+    rateLimiter,
   }: {
     browserTool: BrowserTool;
     testRun: TestRun;
+    systemPrompt?: string;
+    runCostTracker?: RunCostTracker;
+    rateLimiter?: RateLimiter;
   }) {
     this.log = getLogger();
     this.log.trace("Initializing AIClient");
-    this.client = createProvider(getConfig().ai);
     this.configAi = getConfig().ai;
+    this.fallbackModels =
+      "fallbackModels" in this.configAi
+        ? [...(this.configAi.fallbackModels ?? [])]
+        : [];
+    this.rateLimiter = rateLimiter ?? new RateLimiter(this.configAi.rateLimit);
+    this.systemPrompt =
+      systemPrompt ??
+      composeSystemPrompt({
+        agentMode: this.configAi.agentMode,
+        systemPromptAppend: this.configAi.systemPromptAppend,
+        instructions: this.configAi.instructions,
+      });
+    this.configBudget = getConfig().budget;
+    this.runCostTracker = runCostTracker;
+    this.conversationHistory = new ConversationHistory(this.configAi.history);
     this.browserTool = browserTool;
     this.testRun = testRun;
     this.usage = TokenUsageSchema.parse({});
     this.toolRegistry = createToolRegistry();
+    this.toolProtocol = this.toolRegistry.getToolProtocol(
+      this.configAi.provider,
+      this.configAi.model,
+    );
+    this.client = this.createModel();
     this.log.trace(
       "Available tools",
       Object.fromEntries(
@@ -130,18 +198,41 @@ export class AIClient {
       this.configAi.provider,
       this.configAi.model,
       this.browserTool,
+      this.configAi.agentMode,
     );
 
     return this._tools;
   }
 
+  /**
+   * Tokens used by the AI requests of the test so far
+   *
+   * @private
+   */
+  get tokenUsage(): TokenUsage {
+    return this.usage;
+  }
+
+  /**
+   * Number of expectations the AI gives a verdict on
+   *
+   * @private
+   */
+  private get expectationsCount(): number {
+    return getTestCaseExpectations(this.testRun.testCase).length;
+  }
+
   /**
    * Executes an AI action with retry logic and error handling.
    * Manages conversation flow and caches results for successful tests.
+   * Failed requests are retried with an exponential backoff, or after the
+   * delay requested by the provider when rate limited. When the model is
+   * overloaded, the next model of `ai.fallbackModels` is used instead.
    *
    * @param {string} prompt - Input prompt for the AI
    * @returns {Promise<AIClientResponse>} Response with results and metadata
-   * @throws {AIError} When max retries reached or non-retryable error occurs
+   * @throws {AIError} When max retries reached, a budget is exceeded or
+   * non-retryable error occurs
    *
    * @example
    * ```typescript
@@ -168,17 +259,71 @@ export class AIClient {
         if (this.isNonRetryableError(error)) {
           throw asShortestError(error);
         }
+        if (isOverloadedError(error) && this.switchToFallbackModel()) {
+          retries = 0;
+          continue;
+        }
         retries++;
-        this.log.trace("Retry attempt", { retries, maxRetries: MAX_RETRIES });
-        await sleep(5000 * retries);
+        const retryAfter = getRetryAfter(error);
+        if (retryAfter !== undefined) {
+          // Hold the requests of the other tests too, they share the rate limit
+          this.rateLimiter.pause(retryAfter);
+        }
+        const delay = retryAfter ?? getBackoffDelay(retries);
+        this.log.trace("Retry attempt", {
+          retries,
+          maxRetries: MAX_RETRIES,
+          statusCode: getErrorStatusCode(error),
+          delay,
+        });
+        await sleep(delay);
       }
     }
     throw new AIError("max-retries-reached", "Max retries reached");
   }
 
+  /**
+   * Creates the language model of the configured provider, replaying the
+   * transcript of the test with the mock provider, or recording it when
+   * transcripts recording is enabled.
+   *
+   * @returns {LanguageModelV1} Language model
+   *
+   * @private
+   */
+  private createModel(): LanguageModelV1 {
+    const { transcripts } = getConfig();
+    const transcriptPath = getTranscriptPath(
+      this.testRun.testCase,
+      transcripts.dir,
+    );
+    if (this.configAi.provider === "mock") {
+      this.log.trace("Replaying transcript", { transcriptPath });
+      return createMockModel(transcriptPath);
+    }
+
+    const middleware: LanguageModelV1Middleware[] = [];
+    if (transcripts.record) {
+      this.log.trace("Recording transcript", { transcriptPath });
+      middleware.push(
+        createTranscriptRecorder(this.testRun.testCase, transcriptPath),
+      );
+    }
+    if (this.toolProtocol === "text") {
+      middleware.push(textToolProtocolMiddleware);
+    }
+    middleware.push(createRateLimitMiddleware(this.rateLimiter));
+    return wrapLanguageModel({
+      model: createProvider(this.configAi),
+      middleware,
+    });
+  }
+
   /**
    * Manages conversation flow with the AI including tool execution and response handling.
    * Processes tool calls, updates conversation history, and validates responses.
+   * Responses failing the verdict validation are sent back to the AI to be
+   * corrected, up to 3 times.
    *
    * @param {string} prompt - Input prompt to start conversation
    * @returns {Promise<AIClientResponse | undefined>} Processed response
@@ -187,8 +332,10 @@ export class AIClient {
    * @private
    */
   private async runConversation(prompt: string): Promise<AIClientResponse> {
+    const MAX_INVALID_RESPONSES = 3;
+    let invalidResponsesCount = 0;
     const initialMessageOptions = { role: "user" as const, content: prompt };
-    this.conversationHistory.push(initialMessageOptions);
+    this.conversationHistory.add(initialMessageOptions);
     this.log.trace("💬", "New conversation message", initialMessageOptions);
     this.log.trace("💬", "Conversation history initialized", {
       totalMessageCount: this.conversationHistory.length,
@@ -196,6 +343,11 @@ export class AIClient {
 
     while (true) {
       try {
+        assertWithinBudget(this.configBudget, {
+          usage: this.usage,
+          steps: this.apiRequestCount,
+          runCost: this.runCostTracker.total,
+        });
         this.apiRequestCount++;
         this.log.setGroup(`${this.apiRequestCount}`);
         let resp;
@@ -206,11 +358,22 @@ export class AIClient {
           });
 
           resp = await generateText({
-            system: SYSTEM_PROMPT,
+            ...(supportsPromptCaching(this.configAi.provider)
+              ? {
+                  messages: withPromptCaching(
+                    this.systemPrompt,
+                    this.conversationHistory.getMessages(),
+                  ),
+                }
+              : {
+                  system: this.systemPrompt,
+                  messages: this.conversationHistory.getMessages(),
+                }),
             model: this.client,
             maxTokens: 1024,
+            // Retried by runAction, with fallback models and rate limits
+            maxRetries: 0,
             tools: this.tools,
-            messages: this.conversationHistory,
             onStepFinish: async (result) => {
               // Useful for additional logging
               // this.log.trace("onStepFinish", {
@@ -235,11 +398,21 @@ export class AIClient {
                       y,
                     );
                 }
+                const fingerprint =
+                  toolResult.result.metadata?.element_fingerprint;
+                if (fingerprint) {
+                  extras.fingerprint = fingerprint;
+                }
+                // Snapshot refs only last until the next snapshot, the
+                // selector of the element is cached instead
+                const elementRef = toolResult.result.metadata?.element_ref;
                 this.testRun.addStep({
                   reasoning: result.text,
                   action: {
                     name: toolResult.args.action,
-                    input: toolResult.args,
+                    input: elementRef
+                      ? { ...toolResult.args, ref: elementRef }
+                      : toolResult.args,
                     type: "tool_use",
                   },
                   result: toolResult.result.output,
@@ -267,18 +440,31 @@ export class AIClient {
           warnings: resp.warnings,
         });
 
-        this.updateUsage(resp.usage);
-        resp.response.messages.forEach((message) => {
+        this.updateUsage({
+          ...resp.usage,
+          ...getCacheTokenUsage(resp.providerMetadata),
+        });
+        const responseMessages =
+          this.toolProtocol === "function"
+            ? moveScreenshotsToUserMessages(resp.response.messages)
+            : resp.response.messages;
+        responseMessages.forEach((message) => {
           this.log.trace("💬", "New conversation message", {
             role: message.role,
             content: message.content,
           });
-          this.conversationHistory.push(message);
         });
+        this.conversationHistory.add(...responseMessages);
         this.log.trace("💬", "Conversation history updated", {
-          newMessageCount: resp.response.messages.length,
+          newMessageCount: responseMessages.length,
           totalMessageCount: this.conversationHistory.length,
         });
+        if (this.conversationHistory.compact(resp.usage.promptTokens)) {
+          this.log.trace("💬", "Conversation history compacted", {
+            promptTokens: resp.usage.promptTokens,
+            totalMessageCount: this.conversationHistory.length,
+          });
+        }
 
         this.throwOnErrorFinishReason(resp.finishReason);
 
@@ -289,15 +475,35 @@ export class AIClient {
 
         // At this point, response reason is not a tool call, and it's not errored
         try {
-          const json = extractJsonPayload(resp.text);
+          const json = extractJsonPayload(
+            resp.text,
+            createAIJSONResponseSchema(this.expectationsCount),
+          );
           this.log.trace("Response", { ...json });
 
           return { response: json, metadata: { usage: this.usage } };
-        } catch {
-          throw new AIError(
-            "invalid-response",
-            "AI didn't return the expected JSON payload",
-          );
+        } catch (error) {
+          invalidResponsesCount++;
+          const message =
+            error instanceof Error ? error.message : String(error);
+          if (invalidResponsesCount >= MAX_INVALID_RESPONSES) {
+            throw new AIError(
+              "invalid-response",
+              `AI didn't return the expected JSON payload: ${message}`,
+            );
+          }
+          // Let the AI correct its verdict instead of running the test again
+          this.log.trace("Invalid response, asking for a corrected one", {
+            message,
+            invalidResponsesCount,
+          });
+          this.conversationHistory.add({
+            role: "user",
+            content: [
+              `Your response is not a valid test result: ${message}`,
+              "Respond again with only the JSON test result, in the required format.",
+            ].join("\n"),
+          });
         }
       } finally {
         this.log.resetGroup();
@@ -349,9 +555,35 @@ export class AIClient {
     }
   }
 
+  /**
+   * Uses the next model of `ai.fallbackModels` for the following requests
+   *
+   * @returns {boolean} False if there is no fallback model left
+   *
+   * @private
+   */
+  private switchToFallbackModel(): boolean {
+    const model = this.fallbackModels.shift();
+    if (!model) return false;
+
+    this.log.info("Model overloaded, switching to a fallback model", {
+      from: this.configAi.model,
+      to: model,
+    });
+    this.configAi = { ...this.configAi, model } as AIConfig;
+    this.toolProtocol = this.toolRegistry.getToolProtocol(
+      this.configAi.provider,
+      model,
+    );
+    this._tools = null;
+    this.client = this.createModel();
+    return true;
+  }
+
   /**
    * Determines if an error should not be retried based on its status code.
-   * Non-retryable errors include authentication, authorization, and server errors.
+   * Non-retryable errors include invalid requests, authentication and
+   * authorization errors.
    *
    * @param {any} error - Error to evaluate
    * @returns {boolean} True if error should not be retried
@@ -359,12 +591,18 @@ export class AIClient {
    * @private
    */
   private isNonRetryableError(error: any) {
-    return [401, 403, 500].includes(error.status);
+    // Replaying a transcript again yields the same error, and retrying an
+    // exhausted budget would exceed it further
+    if (["budget-exceeded", "invalid-transcript"].includes(error.type)) {
+      return true;
+    }
+    return isNonRetryableStatus(error);
   }
 
   /**
    * Updates token usage statistics with new usage data.
-   * Tracks completion, prompt, and total token counts.
+   * Tracks completion, prompt, total and prompt cache token counts, and the
+   * cost of the run.
    *
    * @param {TokenUsage} usage - New usage data to add
    *
@@ -374,5 +612,14 @@ export class AIClient {
     this.usage.completionTokens += usage.completionTokens;
     this.usage.promptTokens += usage.promptTokens;
     this.usage.totalTokens += usage.totalTokens;
+    if (usage.cacheReadTokens !== undefined) {
+      this.usage.cacheReadTokens =
+        (this.usage.cacheReadTokens ?? 0) + usage.cacheReadTokens;
+    }
+    if (usage.cacheWriteTokens !== undefined) {
+      this.usage.cacheWriteTokens =
+        (this.usage.cacheWriteTokens ?? 0) + usage.cacheWriteTokens;
+    }
+    this.runCostTracker.add(calculateCost(usage, this.configAi));
   }
 }
@@ -0,0 +1,257 @@
+import { CoreMessage, ToolContent, UserContent } from "ai";
+import { ToolResult } from "@/types/browser";
+import { HistoryConfig, historySchema } from "@/types/config";
+
+const SCREENSHOT_PLACEHOLDER =
+  "[Screenshot removed from the conversation history]";
+
+// Assistant turns, with the tool results following them, kept as is on compaction
+const RECENT_TURNS_KEPT = 4;
+
+const MAX_SUMMARIZED_OUTPUT_LENGTH = 200;
+
+/**
+ * Conversation history of a multi-turn AI conversation, keeping its size in
+ * check:
+ * - only the latest `maxScreenshots` screenshots are kept, older ones are
+ *   replaced by a text placeholder
+ * - once a request uses more than `compactionThreshold` prompt tokens, the
+ *   earliest turns are replaced by a summary of the tools they called
+ *
+ * The messages preceding the first assistant message, i.e. the test prompt,
+ * are always kept.
+ *
+ * @example
+ * ```typescript
+ * const history = new ConversationHistory({
+ *   maxScreenshots: 3,
+ *   compactionThreshold: 100_000,
+ * });
+ * history.add({ role: "user", content: prompt });
+ * const resp = await generateText({ model, messages: history.getMessages() });
+ * history.add(...resp.response.messages);
+ * history.compact(resp.usage.promptTokens);
+ * ```
+ *
+ * @private
+ */
+export class ConversationHistory {
+  private messages: CoreMessage[] = [];
+  private summarizedSteps: string[] = [];
+  private config: HistoryConfig;
+
+  constructor(config: HistoryConfig = historySchema.parse({})) {
+    this.config = config;
+  }
+
+  get length(): number {
+    return this.getMessages().length;
+  }
+
+  /**
+   * Adds messages to the history, pruning the screenshots exceeding
+   * `maxScreenshots`
+   *
+   * @param {CoreMessage[]} messages - Messages to add
+   */
+  add(...messages: CoreMessage[]) {
+    this.messages.push(...messages);
+    this.pruneScreenshots();
+  }
+
+  /**
+   * Gets the messages to send to the model, with the summary of the compacted
+   * turns following the test prompt
+   *
+   * @returns {CoreMessage[]} Messages
+   */
+  getMessages(): CoreMessage[] {
+    if (!this.summarizedSteps.length) return this.messages;
+
+    const preambleLength = this.getPreambleLength();
+    return [
+      ...this.messages.slice(0, preambleLength),
+      {
+        role: "user",
+        content: [
+          "Summary of the earlier steps of the test, removed from the conversation history to save context:",
+          ...this.summarizedSteps.map((step, i) => `${i + 1}. ${step}`),
+        ].join("\n"),
+      },
+      ...this.messages.slice(preambleLength),
+    ];
+  }
+
+  /**
+   * Summarizes the earliest turns if the last request exceeded the
+   * `compactionThreshold`
+   *
+   * @param {number} promptTokens - Prompt tokens of the last request
+   * @returns {boolean} Whether turns were compacted
+   */
+  compact(promptTokens: number): boolean {
+    if (promptTokens < this.config.compactionThreshold) return false;
+
+    const preambleLength = this.getPreambleLength();
+    const turnStarts = this.messages
+      .map((message, index) => (message.role === "assistant" ? index : -1))
+      .filter((index) => index >= preambleLength);
+    if (turnStarts.length <= RECENT_TURNS_KEPT) return false;
+
+    const keptFrom = turnStarts[turnStarts.length - RECENT_TURNS_KEPT];
+    const compacted = this.messages.splice(
+      preambleLength,
+      keptFrom - preambleLength,
+    );
+    this.summarizedSteps.push(...summarizeSteps(compacted));
+    return true;
+  }
+
+  private getPreambleLength(): number {
+    const index = this.messages.findIndex(
+      (message) => message.role === "assistant",
+    );
+    return index === -1 ? this.messages.length : index;
+  }
+
+  private pruneScreenshots() {
+    let screenshotsCount = 0;
+    const isKept = () => ++screenshotsCount <= this.config.maxScreenshots;
+
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      const message = this.messages[i];
+      if (message.role === "user" && Array.isArray(message.content)) {
+        this.messages[i] = {
+          ...message,
+          content: pruneUserContent(message.content, isKept),
+        };
+      } else if (message.role === "tool") {
+        this.messages[i] = {
+          ...message,
+          content: pruneToolContent(message.content, isKept),
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Whether a message carries a screenshot, either as an image of a user
+ * message or in a tool result
+ *
+ * @param {CoreMessage} message - Message
+ * @returns {boolean} Whether the message has a screenshot
+ *
+ * @private
+ */
+export const hasScreenshot = (message: CoreMessage): boolean => {
+  switch (message.role) {
+    case "user":
+      return (
+        Array.isArray(message.content) &&
+        message.content.some((part) => part.type === "image")
+      );
+    case "tool":
+      return message.content.some(
+        (part) =>
+          part.experimental_content?.some((item) => item.type === "image") ||
+          !!(part.result as ToolResult | undefined)?.base64_image,
+      );
+    default:
+      return false;
+  }
+};
+
+const pruneUserContent = (
+  content: Exclude<UserContent, string>,
+  isKept: () => boolean,
+): Exclude<UserContent, string> =>
+  // Screenshots are counted from the latest one
+  [...content]
+    .reverse()
+    .map((part) =>
+      part.type !== "image" || isKept()
+        ? part
+        : { type: "text" as const, text: SCREENSHOT_PLACEHOLDER },
+    )
+    .reverse();
+
+const pruneToolContent = (
+  content: ToolContent,
+  isKept: () => boolean,
+): ToolContent =>
+  [...content]
+    .reverse()
+    .map((part) => {
+      // Result of a tool converting its screenshot to an image content
+      if (Array.isArray(part.experimental_content)) {
+        const images = part.experimental_content.filter(
+          (item) => item.type === "image",
+        );
+        if (!images.length || images.every(isKept)) return part;
+        const prunedContent = part.experimental_content.map((item) =>
+          item.type === "image"
+            ? { type: "text" as const, text: SCREENSHOT_PLACEHOLDER }
+            : item,
+        );
+        return {
+          ...part,
+          result: prunedContent,
+          experimental_content: prunedContent,
+        };
+      }
+
+      const result = part.result as ToolResult | undefined;
+      if (!result?.base64_image || isKept()) return part;
+      return {
+        ...part,
+        result: {
+          ...result,
+          base64_image: undefined,
+          output: [result.output, SCREENSHOT_PLACEHOLDER]
+            .filter(Boolean)
+            .join("\n"),
+        },
+      };
+    })
+    .reverse();
+
+/**
+ * Describes the tools called in compacted turns, one step per tool call
+ */
+const summarizeSteps = (messages: CoreMessage[]): string[] => {
+  const outputs = new Map<string, string>();
+  for (const message of messages) {
+    if (message.role !== "tool") continue;
+    for (const part of message.content) {
+      outputs.set(part.toolCallId, getToolResultOutput(part.result));
+    }
+  }
+
+  return messages.flatMap((message) => {
+    if (message.role !== "assistant" || typeof message.content === "string") {
+      return [];
+    }
+    return message.content.flatMap((part) => {
+      if (part.type !== "tool-call") return [];
+      const output = outputs.get(part.toolCallId);
+      const step = `${part.toolName} ${JSON.stringify(part.args)}`;
+      return [output ? `${step}: ${output}` : step];
+    });
+  });
+};
+
+const getToolResultOutput = (result: unknown): string => {
+  const output = Array.isArray(result)
+    ? result
+        .filter((item) => item.type === "text")
+        .map((item) => item.text)
+        .join(" ")
+    : ((result as ToolResult | undefined)?.error ??
+      (result as ToolResult | undefined)?.output ??
+      "");
+  return output
+    .replaceAll(SCREENSHOT_PLACEHOLDER, "")
+    .trim()
+    .slice(0, MAX_SUMMARIZED_OUTPUT_LENGTH);
+};
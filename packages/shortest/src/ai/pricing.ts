@@ -0,0 +1,115 @@
+import { TokenUsage } from "@/types/ai";
+import { AIConfig, ModelPricing } from "@/types/config";
+
+/**
+ * Prices of the supported models, keyed by model name prefix so that dated
+ * model versions share the price of their family
+ *
+ * @see https://www.anthropic.com/pricing#anthropic-api
+ * @see https://openai.com/api/pricing
+ *
+ * @private
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-3-5-haiku": {
+    prompt: 0.0008,
+    completion: 0.004,
+    cacheRead: 0.00008,
+    cacheWrite: 0.001,
+  },
+  "claude-3-5-sonnet": {
+    prompt: 0.003,
+    completion: 0.015,
+    cacheRead: 0.0003,
+    cacheWrite: 0.00375,
+  },
+  "claude-3-7-sonnet": {
+    prompt: 0.003,
+    completion: 0.015,
+    cacheRead: 0.0003,
+    cacheWrite: 0.00375,
+  },
+  "gpt-4.1": { prompt: 0.002, completion: 0.008 },
+  "gpt-4.1-mini": { prompt: 0.0004, completion: 0.0016 },
+  "gpt-4.1-nano": { prompt: 0.0001, completion: 0.0004 },
+  "gpt-4o": { prompt: 0.0025, completion: 0.01 },
+  "gpt-4o-mini": { prompt: 0.00015, completion: 0.0006 },
+};
+
+const FREE_PRICING: ModelPricing = { prompt: 0, completion: 0 };
+
+// eslint-disable-next-line zod/require-zod-schema-types
+type PricedAIConfig = Pick<AIConfig, "provider" | "model" | "pricing">;
+
+/**
+ * Finds the price of a model, matching the longest model name prefix of the
+ * pricing table, its prices being overridden by the ones of `ai.pricing`
+ */
+const findModelPricing = (
+  { pricing }: PricedAIConfig,
+  model: string,
+): ModelPricing | undefined => {
+  const table = { ...MODEL_PRICING, ...pricing };
+  const prefix = Object.keys(table)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+};
+
+/**
+ * Gets the price of the configured model. Local models and transcript
+ * replays are free, and models without a price are counted as free.
+ *
+ * @param {PricedAIConfig} aiConfig - AI config
+ * @returns {ModelPricing} Model price per 1K tokens
+ *
+ * @private
+ */
+export const getModelPricing = (aiConfig: PricedAIConfig): ModelPricing => {
+  if (aiConfig.provider === "ollama" || aiConfig.provider === "mock") {
+    return FREE_PRICING;
+  }
+  return findModelPricing(aiConfig, aiConfig.model) ?? FREE_PRICING;
+};
+
+/**
+ * Lists the configured model and fallback models billed by their provider
+ * without a price, their costs being left out of the run cost
+ *
+ * @param {AIConfig} aiConfig - AI config
+ * @returns {string[]} Names of the models without a price
+ *
+ * @private
+ */
+export const getUnpricedModels = (aiConfig: AIConfig): string[] => {
+  if (aiConfig.provider === "ollama" || aiConfig.provider === "mock") {
+    return [];
+  }
+  return [aiConfig.model, ...(aiConfig.fallbackModels ?? [])].filter(
+    (model) => !findModelPricing(aiConfig, model),
+  );
+};
+
+/**
+ * Calculates the cost of the tokens used with the configured model
+ *
+ * @param {TokenUsage} usage - Tokens used
+ * @param {PricedAIConfig} aiConfig - AI config
+ * @returns {number} Cost in USD
+ *
+ * @private
+ */
+export const calculateCost = (
+  usage: Omit<TokenUsage, "totalTokens">,
+  aiConfig: PricedAIConfig,
+): number => {
+  const pricing = getModelPricing(aiConfig);
+  return (
+    (usage.promptTokens / 1000) * pricing.prompt +
+    (usage.completionTokens / 1000) * pricing.completion +
+    ((usage.cacheReadTokens ?? 0) / 1000) *
+      (pricing.cacheRead ?? pricing.prompt) +
+    ((usage.cacheWriteTokens ?? 0) / 1000) *
+      (pricing.cacheWrite ?? pricing.prompt)
+  );
+};
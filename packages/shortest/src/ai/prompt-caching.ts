@@ -0,0 +1,86 @@
+import { CoreMessage, CoreSystemMessage, ProviderMetadata } from "ai";
+import { hasScreenshot } from "@/ai/history";
+import { TokenUsage } from "@/types/ai";
+import { AIConfig } from "@/types/config";
+
+const CACHE_CONTROL = {
+  anthropic: { cacheControl: { type: "ephemeral" } },
+};
+
+/**
+ * Whether requests to the provider get prompt caching breakpoints
+ *
+ * @param {AIConfig["provider"]} provider - AI provider
+ * @returns {boolean} Whether prompt caching is supported
+ *
+ * @private
+ */
+export const supportsPromptCaching = (provider: AIConfig["provider"]) =>
+  provider === "anthropic";
+
+/**
+ * Adds the system prompt to the messages of a request, with Anthropic
+ * cache-control breakpoints on:
+ * - the system prompt, caching the tool definitions preceding it as well
+ * - the message preceding the oldest screenshot of the history, the latest
+ *   prefix left unchanged when that screenshot gets pruned
+ * - the last message, the prefix reused by the next request of the
+ *   conversation
+ *
+ * Earlier breakpoints of previous requests are matched by Anthropic, so each
+ * request reads the prefix cached by the previous one.
+ *
+ * @param {string} system - System prompt
+ * @param {CoreMessage[]} messages - Conversation history
+ * @returns {CoreMessage[]} Messages of the request
+ *
+ * @see https://docs.anthropic.com/en/docs/build-with-claude/prompt-caching
+ *
+ * @private
+ */
+export const withPromptCaching = (
+  system: string,
+  messages: CoreMessage[],
+): CoreMessage[] => {
+  const systemMessage: CoreSystemMessage = {
+    role: "system",
+    content: system,
+    providerOptions: CACHE_CONTROL,
+  };
+  const breakpoints = new Set([
+    messages.findIndex(hasScreenshot) - 1,
+    messages.length - 1,
+  ]);
+
+  return [
+    systemMessage,
+    ...messages.map((message, index) =>
+      breakpoints.has(index)
+        ? { ...message, providerOptions: CACHE_CONTROL }
+        : message,
+    ),
+  ];
+};
+
+/**
+ * Gets the prompt cache tokens of a response from its provider metadata
+ *
+ * @param {ProviderMetadata} [providerMetadata] - Provider metadata of the response
+ * @returns Tokens read from and written to the cache, if reported
+ *
+ * @private
+ */
+export const getCacheTokenUsage = (
+  providerMetadata: ProviderMetadata | undefined,
+): Pick<TokenUsage, "cacheReadTokens" | "cacheWriteTokens"> => {
+  const { cacheReadInputTokens, cacheCreationInputTokens } =
+    providerMetadata?.anthropic ?? {};
+  return {
+    ...(typeof cacheReadInputTokens === "number" && {
+      cacheReadTokens: cacheReadInputTokens,
+    }),
+    ...(typeof cacheCreationInputTokens === "number" && {
+      cacheWriteTokens: cacheCreationInputTokens,
+    }),
+  };
+};
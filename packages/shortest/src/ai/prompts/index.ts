@@ -1,4 +1,5 @@
 import os from "os";
+import { AgentMode } from "@/types/config";
 
 export const SYSTEM_PROMPT = `You are a test automation expert working with a Chrome browser.
 You will be given test instructions, and your task is to execute specified browser actions to validate the provided test cases.
@@ -60,10 +61,63 @@ IMPORTANT GLOBAL RULES:
 Your task is to:
 1. Execute browser actions to validate test cases
 2. Use provided browser tools to interact with the page
-3. Return test execution results in strict JSON format: { status: "passed" | "failed", reason: string }.
-   For failures, provide a maximum 1-sentence reason.
+3. Return test execution results in strict JSON format:
+   { "status": "passed" | "failed", "reason": string, "expectations": [{ "index": number, "status": "passed" | "failed", "evidence": string, "steps": number[] }] }
+   - "expectations" must contain exactly one result for each numbered expectation of the test, "index" being its number.
+   - "evidence" describes in 1 sentence what you observed to decide whether the expectation is met.
+   - "steps" lists the numbers of the actions, counted from 1 in the order they were performed, that show the evidence.
+   - The test passes only if all expectations passed. For failures, provide a maximum 1-sentence reason.
    IMPORTANT:
-   - DO NOT include anything else in your response, only the result and reason.
+   - DO NOT include anything else in your response, only the result, reason and expectations.
    - DO NOT include any other JSON-like object in your response except the required structure.
    - If there's need to do that, remove braces {} to ensure it's not interpreted as JSON.
 4. For click actions, provide x,y coordinates of the element to click.`;
+
+const AGENT_MODE_PROMPTS: Record<AgentMode, string | undefined> = {
+  screenshot: undefined,
+  dom: `PAGE SNAPSHOT MODE:
+- You don't have screenshots. Use the "snapshot" tool to read the page as an accessibility tree.
+- Act on elements with the "click_element" and "fill" tools, using the ref of the element in the latest snapshot (e.g. "e3") instead of coordinates.
+- Refs are only valid until the next snapshot. Take a new snapshot after any action that changes the page.`,
+  hybrid: `PAGE SNAPSHOT MODE:
+- Use the "snapshot" tool to read the page as an accessibility tree, and the "click_element" and "fill" tools to act on elements by their ref in the latest snapshot (e.g. "e3").
+- Prefer these tools over coordinates. Use the computer tool and screenshots for visual checks, or for elements missing from the snapshot.
+- Refs are only valid until the next snapshot. Take a new snapshot after any action that changes the page.`,
+};
+
+/**
+ * Composes the system prompt of a test: the built-in prompt, followed by the
+ * rules of the agent mode, the `ai.systemPromptAppend` text and the
+ * instructions of the config, test file, describe blocks and test, in that
+ * order
+ *
+ * @param {Object} options - Prompt additions
+ * @param {AgentMode} [options.agentMode] - How the AI sees and acts on the page
+ * @param {string} [options.systemPromptAppend] - Text appended to the built-in prompt
+ * @param {string[]} [options.instructions] - Rules, from the most general one
+ * @returns {string} System prompt
+ *
+ * @private
+ */
+export const composeSystemPrompt = ({
+  agentMode = "screenshot",
+  systemPromptAppend,
+  instructions = [],
+}: {
+  agentMode?: AgentMode;
+  systemPromptAppend?: string;
+  instructions?: string[];
+}): string =>
+  [
+    SYSTEM_PROMPT,
+    AGENT_MODE_PROMPTS[agentMode],
+    systemPromptAppend,
+    instructions.length
+      ? [
+          "PROJECT INSTRUCTIONS (follow them for every test, they take precedence over the global rules):",
+          ...instructions.map((instruction, i) => `${i + 1}. ${instruction}`),
+        ].join("\n")
+      : undefined,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
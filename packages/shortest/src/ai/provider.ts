@@ -1,8 +1,29 @@
+import { createRequire } from "module";
 import { createAnthropic } from "@ai-sdk/anthropic";
+import type { OpenAIProvider, OpenAIProviderSettings } from "@ai-sdk/openai";
 import { LanguageModelV1 } from "ai";
 import { AIConfig } from "@/types";
 import { AIError } from "@/utils/errors";
 
+const require = createRequire(import.meta.url);
+
+/**
+ * Creates an OpenAI provider from `@ai-sdk/openai`, an optional peer
+ * dependency only installed by projects using an OpenAI model
+ */
+const createOpenAI = (settings: OpenAIProviderSettings): OpenAIProvider => {
+  let openai: typeof import("@ai-sdk/openai");
+  try {
+    openai = require("@ai-sdk/openai");
+  } catch {
+    throw new AIError(
+      "unsupported-provider",
+      "The OpenAI providers require the @ai-sdk/openai package, install it with `npm install @ai-sdk/openai`.",
+    );
+  }
+  return openai.createOpenAI(settings);
+};
+
 /**
  * Creates a custom AI provider based on the provided configuration.
  *
@@ -12,11 +33,38 @@ export const createProvider = (aiConfig: AIConfig): LanguageModelV1 => {
   switch (aiConfig.provider) {
     case "anthropic":
       const anthropic = createAnthropic({ apiKey: aiConfig.apiKey });
-      return anthropic(aiConfig.model) as LanguageModelV1;
+      return anthropic(aiConfig.model);
+    case "openai":
+      const openai = createOpenAI({
+        apiKey: aiConfig.apiKey,
+        compatibility: "strict",
+      });
+      return openai(aiConfig.model);
+    case "openai-compatible":
+      const openaiCompatible = createOpenAI({
+        // The OpenAI client requires a key, even when the server doesn't
+        apiKey: aiConfig.apiKey ?? "",
+        baseURL: aiConfig.baseURL,
+        compatibility: "compatible",
+      });
+      return openaiCompatible(aiConfig.model);
+    case "ollama":
+      // Ollama serves an OpenAI-compatible API, ignoring the API key
+      const ollama = createOpenAI({
+        apiKey: "ollama",
+        baseURL: `${aiConfig.baseURL.replace(/\/+$/, "")}/v1`,
+        compatibility: "compatible",
+      });
+      return ollama(aiConfig.model);
+    case "mock":
+      throw new AIError(
+        "unsupported-provider",
+        "The mock provider only replays transcripts of test runs.",
+      );
     default:
       throw new AIError(
         "unsupported-provider",
-        `${aiConfig.provider} is not supported.`,
+        `${(aiConfig as AIConfig).provider} is not supported.`,
       );
   }
 };
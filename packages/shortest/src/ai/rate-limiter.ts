@@ -0,0 +1,111 @@
+import { LanguageModelV1Middleware } from "ai";
+import { RateLimitConfig } from "@/types/config";
+import { sleep } from "@/utils/sleep";
+
+// Interval at which requests waiting for a free slot check again
+const POLL_INTERVAL = 100;
+const WINDOW = 60_000;
+
+/**
+ * Limits the AI requests of a run, shared by the AI clients of all its tests
+ * to apply `ai.rateLimit` across workers. Requests also wait while the
+ * limiter is paused, after the provider rate limited one of them.
+ *
+ * @example
+ * ```typescript
+ * const rateLimiter = new RateLimiter({ maxConcurrentRequests: 2 });
+ * const model = wrapLanguageModel({
+ *   model,
+ *   middleware: createRateLimitMiddleware(rateLimiter),
+ * });
+ * ```
+ *
+ * @private
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private activeRequests: number = 0;
+  // Start times of the requests of the last minute
+  private requestTimes: number[] = [];
+  private pausedUntil: number = 0;
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Runs a request once the limits allow it
+   *
+   * @param {Function} request - Request to run
+   * @returns {Promise<T>} Result of the request
+   */
+  async schedule<T>(request: () => PromiseLike<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await request();
+    } finally {
+      this.activeRequests--;
+    }
+  }
+
+  /**
+   * Holds all requests for a while, e.g. for the `retry-after` delay of a
+   * rate limited request
+   *
+   * @param {number} ms - Delay in milliseconds
+   */
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async acquire() {
+    let waitTime = this.getWaitTime();
+    while (waitTime > 0) {
+      await sleep(waitTime);
+      waitTime = this.getWaitTime();
+    }
+    this.activeRequests++;
+    this.requestTimes.push(Date.now());
+  }
+
+  /**
+   * Time until a request may start, 0 if it may start now
+   */
+  private getWaitTime(): number {
+    const now = Date.now();
+    if (this.pausedUntil > now) return this.pausedUntil - now;
+
+    const { maxConcurrentRequests, requestsPerMinute } = this.config;
+    if (
+      maxConcurrentRequests !== undefined &&
+      this.activeRequests >= maxConcurrentRequests
+    ) {
+      return POLL_INTERVAL;
+    }
+
+    this.requestTimes = this.requestTimes.filter((time) => time > now - WINDOW);
+    if (
+      requestsPerMinute !== undefined &&
+      this.requestTimes.length >= requestsPerMinute
+    ) {
+      return this.requestTimes[0] + WINDOW - now;
+    }
+    return 0;
+  }
+}
+
+/**
+ * Middleware scheduling each request to the model with the rate limiter, so
+ * that the tools run between the requests of a conversation don't hold a slot
+ *
+ * @param {RateLimiter} rateLimiter - Rate limiter of the run
+ * @returns {LanguageModelV1Middleware} Middleware
+ *
+ * @private
+ */
+export const createRateLimitMiddleware = (
+  rateLimiter: RateLimiter,
+): LanguageModelV1Middleware => ({
+  wrapGenerate: ({ doGenerate }) => rateLimiter.schedule(doGenerate),
+  wrapStream: ({ doStream }) => rateLimiter.schedule(doStream),
+});
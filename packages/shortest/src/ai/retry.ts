@@ -0,0 +1,94 @@
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 60_000;
+
+// Requests failing with these statuses fail again when retried
+const NON_RETRYABLE_STATUS_CODES = [400, 401, 403, 404];
+
+/**
+ * Gets the HTTP status of a failed AI request, set as `statusCode` by the AI
+ * SDK provider errors
+ *
+ * @param {any} error - Error of the request
+ * @returns {number | undefined} HTTP status
+ *
+ * @private
+ */
+export const getErrorStatusCode = (error: any): number | undefined =>
+  error?.statusCode ?? error?.status;
+
+/**
+ * Whether a failed AI request fails again when retried, e.g. with an invalid
+ * API key. Rate limits, overloads and server errors are retryable.
+ *
+ * @param {any} error - Error of the request
+ * @returns {boolean} True if the request should not be retried
+ *
+ * @private
+ */
+export const isNonRetryableStatus = (error: any): boolean => {
+  const statusCode = getErrorStatusCode(error);
+  return (
+    statusCode !== undefined && NON_RETRYABLE_STATUS_CODES.includes(statusCode)
+  );
+};
+
+/**
+ * Whether a failed AI request was rejected because the model is overloaded,
+ * with Anthropic's 529 status or an unavailable service
+ *
+ * @param {any} error - Error of the request
+ * @returns {boolean} True if the model is overloaded
+ *
+ * @private
+ */
+export const isOverloadedError = (error: any): boolean =>
+  [503, 529].includes(getErrorStatusCode(error) ?? 0) ||
+  error?.data?.error?.type === "overloaded_error";
+
+/**
+ * Gets the delay requested by the provider before retrying a rate limited
+ * request, from the `retry-after-ms` or `retry-after` response headers
+ *
+ * @param {any} error - Error of the request
+ * @returns {number | undefined} Delay in milliseconds, undefined without
+ * rate limit headers
+ *
+ * @private
+ */
+export const getRetryAfter = (error: any): number | undefined => {
+  const headers: Record<string, string> | undefined = error?.responseHeaders;
+  if (!headers) return undefined;
+
+  const retryAfterMs = Number.parseFloat(headers["retry-after-ms"]);
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY);
+  }
+
+  const retryAfter = headers["retry-after"];
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  // Either a number of seconds or an HTTP date
+  const delay = Number.isFinite(seconds)
+    ? seconds * 1000
+    : Date.parse(retryAfter) - Date.now();
+  return Number.isFinite(delay)
+    ? Math.min(Math.max(delay, 0), MAX_RETRY_DELAY)
+    : undefined;
+};
+
+/**
+ * Gets the delay before retrying a failed request, doubling on each retry.
+ * Half of the delay is random so that concurrent tests don't retry at once.
+ *
+ * @param {number} retries - Retries made so far, including this one
+ * @returns {number} Delay in milliseconds
+ *
+ * @private
+ */
+export const getBackoffDelay = (retries: number): number => {
+  const delay = Math.min(
+    BASE_RETRY_DELAY * 2 ** Math.max(retries - 1, 0),
+    MAX_RETRY_DELAY,
+  );
+  return delay / 2 + (Math.random() * delay) / 2;
+};
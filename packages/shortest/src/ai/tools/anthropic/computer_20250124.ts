@@ -9,10 +9,12 @@ import { InternalActionEnum } from "@/types/browser";
  */
 export const createAnthropicComputer20250124 = (
   browserTool: BrowserTool,
-): Tool =>
-  anthropic.tools.computer_20250124({
-    displayWidthPx: 1920,
-    displayHeightPx: 1080,
+): Tool => {
+  const { display_width_px, display_height_px } =
+    browserTool.toToolParameters();
+  return anthropic.tools.computer_20250124({
+    displayWidthPx: display_width_px,
+    displayHeightPx: display_height_px,
     displayNumber: 0,
     execute: async (input) => {
       const { action, ...restOfInput } = input;
@@ -29,6 +31,7 @@ export const createAnthropicComputer20250124 = (
     },
     experimental_toToolResultContent: browserTool.resultToToolResultContent,
   });
+};
 
 /**
  * Map of Anthropic computer_20250124 actions to internal actions
@@ -0,0 +1,14 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { BrowserTool } from "@/browser/core/browser-tool";
+
+export const createClickElementTool = (browserTool: BrowserTool) =>
+  tool({
+    description: "Click an element of the latest page snapshot",
+    parameters: z.object({
+      action: z.literal("click_element"),
+      ref: z.string().describe("Ref of the element in the snapshot, e.g. e3"),
+    }),
+    execute: browserTool.execute.bind(browserTool),
+    experimental_toToolResultContent: browserTool.resultToToolResultContent,
+  });
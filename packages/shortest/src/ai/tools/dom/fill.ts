@@ -0,0 +1,20 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { BrowserTool } from "@/browser/core/browser-tool";
+
+export const createFillTool = (browserTool: BrowserTool) =>
+  tool({
+    description:
+      "Replace the value of a text field of the latest page snapshot, optionally pressing Enter afterwards",
+    parameters: z.object({
+      action: z.literal("fill"),
+      ref: z.string().describe("Ref of the element in the snapshot, e.g. e3"),
+      text: z.string().describe("Value of the field, empty to clear it"),
+      submit: z
+        .boolean()
+        .optional()
+        .describe("Press Enter once the field is filled"),
+    }),
+    execute: browserTool.execute.bind(browserTool),
+    experimental_toToolResultContent: browserTool.resultToToolResultContent,
+  });
@@ -0,0 +1,14 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { BrowserTool } from "@/browser/core/browser-tool";
+
+export const createSnapshotTool = (browserTool: BrowserTool) =>
+  tool({
+    description:
+      "Read the current page as an accessibility tree of its landmarks, headings, texts and interactive elements. Interactive elements have a ref, e.g. [ref=e3], to use with the click_element and fill tools. Refs are only valid until the next snapshot.",
+    parameters: z.object({
+      action: z.literal("snapshot"),
+    }),
+    execute: browserTool.execute.bind(browserTool),
+    experimental_toToolResultContent: browserTool.resultToToolResultContent,
+  });
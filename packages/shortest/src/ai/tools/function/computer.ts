@@ -0,0 +1,148 @@
+import { CoreMessage, ImagePart, tool, Tool } from "ai";
+import { z } from "zod";
+import { BrowserTool } from "@/browser/core/browser-tool";
+import { InternalActionEnum, ToolResult } from "@/types/browser";
+
+/**
+ * Actions of the computer function, named after their Anthropic computer use
+ * counterparts so cached runs replay the same way for all providers
+ */
+const FUNCTION_COMPUTER_ACTIONS = [
+  "screenshot",
+  "mouse_move",
+  "left_click",
+  "right_click",
+  "double_click",
+  "type",
+  "key",
+  "scroll",
+  "wait",
+] as const;
+
+const actionMap: Record<
+  (typeof FUNCTION_COMPUTER_ACTIONS)[number],
+  InternalActionEnum
+> = {
+  screenshot: InternalActionEnum.SCREENSHOT,
+  mouse_move: InternalActionEnum.MOUSE_MOVE,
+  left_click: InternalActionEnum.LEFT_CLICK,
+  right_click: InternalActionEnum.RIGHT_CLICK,
+  double_click: InternalActionEnum.DOUBLE_CLICK,
+  type: InternalActionEnum.TYPE,
+  key: InternalActionEnum.KEY,
+  scroll: InternalActionEnum.SCROLL,
+  wait: InternalActionEnum.WAIT,
+};
+
+/**
+ * Computer tool for models without native computer use, exposing the browser
+ * actions as a regular function-calling tool
+ */
+export const createFunctionComputer = (browserTool: BrowserTool): Tool => {
+  const { display_width_px, display_height_px } =
+    browserTool.toToolParameters();
+  return tool({
+    description: [
+      "Use a mouse and keyboard to interact with the browser, and take screenshots.",
+      `The screen is ${display_width_px}x${display_height_px} pixels. Coordinates are [x, y] pixels of the latest screenshot, from its top left corner.`,
+      "Take a screenshot before interacting with the page, and whenever you need to check its state.",
+    ].join("\n"),
+    parameters: z.object({
+      action: z
+        .enum(FUNCTION_COMPUTER_ACTIONS)
+        .describe("The action to perform"),
+      coordinate: z
+        .array(z.number().int().nonnegative())
+        .length(2)
+        .optional()
+        .describe(
+          "[x, y] position, required by mouse_move and scroll. Clicks happen at the current mouse position when omitted",
+        ),
+      text: z
+        .string()
+        .optional()
+        .describe(
+          "Text to type, or key combination to press such as 'Enter' or 'ctrl+a'",
+        ),
+      scroll_direction: z.enum(["up", "down", "left", "right"]).optional(),
+      scroll_amount: z.number().int().positive().optional(),
+      duration: z
+        .number()
+        .positive()
+        .optional()
+        .describe("Number of seconds to wait for"),
+    }),
+    execute: async ({ action, coordinate, ...input }) =>
+      browserTool.execute({
+        action: actionMap[action],
+        ...input,
+        ...(coordinate && {
+          coordinate:
+            action === "scroll"
+              ? coordinate
+              : toComputerCoordinate(browserTool, coordinate),
+        }),
+      }),
+  });
+};
+
+/**
+ * Mouse actions take coordinates on the screenshot downscaled for the
+ * Anthropic computer tool, while the computer function sends the screenshot
+ * at full size. Its coordinates are converted so that actions, and the cached
+ * runs recording them, use the same coordinates for all providers.
+ *
+ * @param {BrowserTool} browserTool - Browser tool
+ * @param {number[]} coordinate - [x, y] pixels of the full-size screenshot
+ * @returns {number[]} [x, y] pixels of the downscaled screenshot
+ */
+const toComputerCoordinate = (
+  browserTool: BrowserTool,
+  [x, y]: number[],
+): number[] => {
+  const scaleRatio = browserTool.getScaleRatio();
+  return [Math.round(x / scaleRatio.x), Math.round(y / scaleRatio.y)];
+};
+
+/**
+ * Function-calling APIs only accept text in tool results, so the screenshots
+ * returned by the computer function are removed from the tool results and
+ * sent in a user message following them instead
+ *
+ * @param {CoreMessage[]} messages - Messages of a model response
+ * @returns {CoreMessage[]} Messages to add to the conversation history
+ *
+ * @private
+ */
+export const moveScreenshotsToUserMessages = (
+  messages: CoreMessage[],
+): CoreMessage[] =>
+  messages.flatMap((message): CoreMessage[] => {
+    if (message.role !== "tool") return [message];
+
+    const screenshots: ImagePart[] = [];
+    const content = message.content.map((part) => {
+      const result = part.result as ToolResult | undefined;
+      if (!result?.base64_image) return part;
+
+      const { base64_image, ...resultWithoutImage } = result;
+      screenshots.push({
+        type: "image",
+        image: base64_image,
+        mimeType: "image/jpeg",
+      });
+      return { ...part, result: resultWithoutImage };
+    });
+
+    if (!screenshots.length) return [message];
+    return [
+      { ...message, content },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Screenshot of the browser:" },
+          ...screenshots,
+        ],
+      },
+    ];
+  });
@@ -0,0 +1,170 @@
+import {
+  LanguageModelV1FunctionTool,
+  LanguageModelV1Message,
+  LanguageModelV1Prompt,
+  LanguageModelV1ToolResultPart,
+} from "@ai-sdk/provider";
+import { generateId, LanguageModelV1Middleware } from "ai";
+import { ToolResult } from "@/types/browser";
+
+/**
+ * Middleware implementing tool use for models without function calling. Tools
+ * are described in the system prompt, and the model uses one by replying with
+ * a JSON object naming it, e.g. `{"tool": "computer", "action": "screenshot"}`.
+ * Tool results are sent back as user messages, with their screenshot attached.
+ *
+ * Final replies are left untouched, so the result JSON is extracted the same
+ * way as for any other model.
+ *
+ * @private
+ */
+export const textToolProtocolMiddleware: LanguageModelV1Middleware = {
+  transformParams: async ({ params }) => {
+    if (params.mode.type !== "regular" || !params.mode.tools?.length) {
+      return params;
+    }
+    const tools = params.mode.tools.filter(
+      (tool): tool is LanguageModelV1FunctionTool => tool.type === "function",
+    );
+    return {
+      ...params,
+      mode: { type: "regular" },
+      prompt: toTextPrompt(params.prompt, describeTools(tools)),
+    };
+  },
+  wrapGenerate: async ({ doGenerate }) => {
+    const result = await doGenerate();
+    const toolCall = parseTextToolCall(result.text ?? "");
+    if (!toolCall) return result;
+
+    return {
+      ...result,
+      text: toolCall.reasoning || undefined,
+      toolCalls: [
+        {
+          toolCallType: "function",
+          toolCallId: generateId(),
+          toolName: toolCall.toolName,
+          args: JSON.stringify(toolCall.args),
+        },
+      ],
+      finishReason: "tool-calls",
+    };
+  },
+};
+
+/**
+ * Extracts the tool call from a model reply, if any
+ *
+ * @param {string} text - Model reply
+ * @returns Tool name, arguments and the text preceding the call, or null if
+ * the reply isn't a tool call
+ *
+ * @private
+ */
+export const parseTextToolCall = (
+  text: string,
+): {
+  toolName: string;
+  args: Record<string, unknown>;
+  reasoning: string;
+} | null => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (
+    typeof payload !== "object" ||
+    payload === null ||
+    !("tool" in payload) ||
+    typeof payload.tool !== "string"
+  ) {
+    return null;
+  }
+
+  const { tool, ...args } = payload;
+  return { toolName: tool, args, reasoning: text.slice(0, start).trim() };
+};
+
+const describeTools = (tools: LanguageModelV1FunctionTool[]): string =>
+  [
+    "# Tools",
+    'To use a tool, reply with a single JSON object with a "tool" key set to the tool name, and the tool arguments as its other keys, e.g. {"tool": "computer", "action": "screenshot"}.',
+    "Use one tool per reply. Its result, including a screenshot when available, is sent back to you in the next message.",
+    'When the test is complete, reply with the test result JSON instead, without a "tool" key.',
+    ...tools.map((tool) =>
+      [
+        `## ${tool.name}`,
+        tool.description ?? "",
+        `Arguments (JSON schema): ${JSON.stringify(tool.parameters)}`,
+      ].join("\n"),
+    ),
+  ].join("\n\n");
+
+const toTextPrompt = (
+  prompt: LanguageModelV1Prompt,
+  toolsDescription: string,
+): LanguageModelV1Prompt => {
+  const messages = prompt.map((message): LanguageModelV1Message => {
+    switch (message.role) {
+      case "assistant":
+        return {
+          ...message,
+          content: message.content.map((part) =>
+            part.type === "tool-call"
+              ? {
+                  type: "text",
+                  text: JSON.stringify({
+                    tool: part.toolName,
+                    ...(part.args as object),
+                  }),
+                }
+              : part,
+          ),
+        };
+      case "tool":
+        return {
+          role: "user",
+          content: message.content.flatMap(toolResultToUserContent),
+        };
+      default:
+        return message;
+    }
+  });
+
+  const [first, ...rest] = messages;
+  if (first?.role === "system") {
+    return [
+      { ...first, content: `${first.content}\n\n${toolsDescription}` },
+      ...rest,
+    ];
+  }
+  return [{ role: "system", content: toolsDescription }, ...messages];
+};
+
+const toolResultToUserContent = (
+  part: LanguageModelV1ToolResultPart,
+): Extract<LanguageModelV1Message, { role: "user" }>["content"] => {
+  const result = part.result as ToolResult | undefined;
+  const output =
+    result?.error ?? result?.output ?? JSON.stringify(part.result ?? null);
+
+  return [
+    { type: "text", text: `Result of ${part.toolName}: ${output}` },
+    ...(result?.base64_image
+      ? [
+          {
+            type: "image" as const,
+            image: Buffer.from(result.base64_image, "base64"),
+            mimeType: "image/jpeg",
+          },
+        ]
+      : []),
+  ];
+};
@@ -0,0 +1,207 @@
+import { existsSync, readFileSync } from "fs";
+import * as fs from "fs/promises";
+import path from "path";
+import { LanguageModelV1 } from "@ai-sdk/provider";
+import { LanguageModelV1Middleware } from "ai";
+import { z } from "zod";
+import { getTestCaseTitle, TestCase } from "@/core/runner/test-case";
+import { getLogger } from "@/log";
+import { AIError, formatZodError } from "@/utils/errors";
+
+/**
+ * Schema for a model response of a transcript
+ *
+ * @property {string} [text] - Text of the response, e.g. the JSON verdict
+ * @property {Array} toolCalls - Tools called by the model, with their arguments
+ * @property {Object} usage - Tokens used by the request
+ */
+export const transcriptResponseSchema = z
+  .object({
+    text: z.string().optional(),
+    toolCalls: z
+      .array(
+        z.object({
+          toolName: z.string(),
+          args: z.record(z.string(), z.unknown()),
+        }),
+      )
+      .default([]),
+    usage: z
+      .object({
+        promptTokens: z.number().default(0),
+        completionTokens: z.number().default(0),
+      })
+      .default({}),
+  })
+  .strict();
+export type TranscriptResponse = z.infer<typeof transcriptResponseSchema>;
+
+/**
+ * Schema for the transcript of the AI conversation of a test, replayed by the
+ * `mock` provider
+ */
+export const transcriptSchema = z
+  .object({
+    version: z.literal(1),
+    test: z.object({
+      name: z.string(),
+      filePath: z.string(),
+    }),
+    responses: z.array(transcriptResponseSchema),
+  })
+  .strict();
+export type Transcript = z.infer<typeof transcriptSchema>;
+
+/**
+ * Gets the path of the transcript of a test, named after the test title in a
+ * directory named after its file
+ *
+ * @param {TestCase} testCase - Test case
+ * @param {string} dir - Transcripts directory
+ * @returns {string} Absolute path of the transcript file
+ *
+ * @example
+ * ```typescript
+ * // shortest-transcripts/app/login.test.ts/log-in-with-email.json
+ * getTranscriptPath(testCase, "shortest-transcripts");
+ * ```
+ *
+ * @private
+ */
+export const getTranscriptPath = (testCase: TestCase, dir: string): string =>
+  path.join(
+    path.resolve(dir),
+    path.relative(process.cwd(), path.resolve(testCase.filePath)),
+    `${slugify(getTestCaseTitle(testCase))}.json`,
+  );
+
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 100) || "test";
+
+/**
+ * Creates a model replaying the responses of a transcript, in order, whatever
+ * the prompt. The transcript is read on the first request.
+ *
+ * @param {string} transcriptPath - Path of the transcript file
+ * @returns {LanguageModelV1} Mock model
+ * @throws {AIError} On requests, if the transcript is missing, invalid or has
+ * no response left
+ *
+ * @private
+ */
+export const createMockModel = (transcriptPath: string): LanguageModelV1 => {
+  let responses: TranscriptResponse[] | null = null;
+  let requestCount = 0;
+
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId: "mock",
+    defaultObjectGenerationMode: undefined,
+    doGenerate: async () => {
+      responses ??= readTranscript(transcriptPath).responses;
+      const response = responses[requestCount];
+      requestCount++;
+      if (!response) {
+        throw new AIError(
+          "invalid-transcript",
+          `Transcript has no response left for request ${requestCount}: ${transcriptPath}`,
+        );
+      }
+
+      return {
+        text: response.text,
+        toolCalls: response.toolCalls.map((toolCall, index) => ({
+          toolCallType: "function" as const,
+          toolCallId: `mock-${requestCount}-${index}`,
+          toolName: toolCall.toolName,
+          args: JSON.stringify(toolCall.args),
+        })),
+        finishReason: response.toolCalls.length ? "tool-calls" : "stop",
+        usage: response.usage,
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      };
+    },
+    doStream: async () => {
+      throw new AIError(
+        "unsupported-provider",
+        "The mock provider doesn't support streaming.",
+      );
+    },
+  };
+};
+
+const readTranscript = (transcriptPath: string): Transcript => {
+  if (!existsSync(transcriptPath)) {
+    throw new AIError(
+      "invalid-transcript",
+      `Transcript not found: ${transcriptPath}`,
+    );
+  }
+  try {
+    return transcriptSchema.parse(
+      JSON.parse(readFileSync(transcriptPath, "utf-8")),
+    );
+  } catch (error) {
+    throw new AIError(
+      "invalid-transcript",
+      error instanceof z.ZodError
+        ? formatZodError(error, `Invalid transcript: ${transcriptPath}`)
+        : `Invalid transcript: ${transcriptPath}`,
+    );
+  }
+};
+
+/**
+ * Creates a middleware recording the responses of a model into the transcript
+ * of a test. The transcript is written after each response, replacing the one
+ * of a previous run.
+ *
+ * @param {TestCase} testCase - Test case the conversation belongs to
+ * @param {string} transcriptPath - Path of the transcript file
+ * @returns {LanguageModelV1Middleware} Recording middleware
+ *
+ * @private
+ */
+export const createTranscriptRecorder = (
+  testCase: TestCase,
+  transcriptPath: string,
+): LanguageModelV1Middleware => {
+  const transcript: Transcript = {
+    version: 1,
+    test: { name: getTestCaseTitle(testCase), filePath: testCase.filePath },
+    responses: [],
+  };
+
+  return {
+    wrapGenerate: async ({ doGenerate }) => {
+      const result = await doGenerate();
+      transcript.responses.push({
+        text: result.text,
+        toolCalls: (result.toolCalls ?? []).map((toolCall) => ({
+          toolName: toolCall.toolName,
+          args: JSON.parse(toolCall.args),
+        })),
+        usage: {
+          promptTokens: result.usage.promptTokens,
+          completionTokens: result.usage.completionTokens,
+        },
+      });
+
+      try {
+        await fs.mkdir(path.dirname(transcriptPath), { recursive: true });
+        await fs.writeFile(transcriptPath, JSON.stringify(transcript, null, 2));
+      } catch (error) {
+        getLogger().error("Failed to write transcript", {
+          transcriptPath,
+          error: error as Error,
+        });
+      }
+      return result;
+    },
+  };
+};
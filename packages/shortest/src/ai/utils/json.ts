@@ -1,15 +1,56 @@
 import { z } from "zod";
+import { ExpectationResultSchema } from "@/types/ai";
 import { formatZodError, AIError } from "@/utils/errors";
 
-const JSON_REGEX = /{[\s\S]*?}/g;
-
 const aiJSONResponseSchema = z.object({
   status: z.enum(["passed", "failed"]),
   reason: z.string(),
+  expectations: z.array(ExpectationResultSchema),
 });
 
 export type AIJSONResponse = z.infer<typeof aiJSONResponseSchema>;
 
+/**
+ * Creates the schema of the verdict of a test with the given number of
+ * expectations. Each expectation must have exactly one result, and the test
+ * may only pass when all of its expectations passed.
+ *
+ * @param {number} expectationsCount - Number of expectations listed in the test prompt
+ * @returns Schema of the AI verdict
+ *
+ * @private
+ */
+export const createAIJSONResponseSchema = (expectationsCount: number) =>
+  aiJSONResponseSchema.superRefine((response, ctx) => {
+    const indexes = response.expectations
+      .map((result) => result.index)
+      .sort((a, b) => a - b);
+    const expectedIndexes = Array.from(
+      { length: expectationsCount },
+      (_, i) => i + 1,
+    );
+    if (indexes.join() !== expectedIndexes.join()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["expectations"],
+        message: `Expected exactly one result for each expectation from 1 to ${expectationsCount}, received indexes: ${indexes.join(", ") || "none"}`,
+      });
+    }
+
+    const allPassed = response.expectations.every(
+      (result) => result.status === "passed",
+    );
+    if ((response.status === "passed") !== allPassed) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["status"],
+        message: allPassed
+          ? 'Status must be "passed" when all expectations passed'
+          : 'Status must be "failed" when an expectation failed',
+      });
+    }
+  });
+
 /**
  * Extracts and validates the JSON payload from an AI response string.
  *
@@ -20,13 +61,15 @@ export type AIJSONResponse = z.infer<typeof aiJSONResponseSchema>;
  *
  * @private
  */
-export const extractJsonPayload = (
+export const extractJsonPayload = <
+  T extends z.ZodTypeAny = typeof aiJSONResponseSchema,
+>(
   response: string,
-  schema: typeof aiJSONResponseSchema = aiJSONResponseSchema,
-) => {
-  const jsonMatches = response.match(JSON_REGEX);
+  schema: T = aiJSONResponseSchema as unknown as T,
+): z.infer<T> => {
+  const jsonMatches = findJsonObjects(response);
 
-  if (!jsonMatches || jsonMatches.length === 0) {
+  if (jsonMatches.length === 0) {
     throw new AIError(
       "invalid-response",
       "AI didn't return the expected JSON payload.",
@@ -55,3 +98,32 @@ export const extractJsonPayload = (
     throw error;
   }
 };
+
+/**
+ * Finds the top-level `{...}` blocks of a text, including the objects and
+ * arrays nested in them. Braces in JSON strings are ignored.
+ */
+const findJsonObjects = (text: string): string[] => {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === "\\") i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0) objects.push(text.slice(start, i + 1));
+    }
+  }
+
+  return objects;
+};
@@ -0,0 +1,176 @@
+import { Page } from "playwright";
+
+/**
+ * Gets the ARIA role of an element, from its role attribute or its tag.
+ * Runs in the browser, see `evaluateWithAccessibility`.
+ *
+ * @param {Element} element - DOM element
+ * @returns {string | null} Role, or null for elements without role
+ *
+ * @private
+ */
+export const getAccessibleRole = (element: Element): string | null => {
+  const explicitRole = element.getAttribute("role");
+  if (explicitRole) return explicitRole.split(" ")[0];
+
+  switch (element.tagName) {
+    case "INPUT": {
+      const inputRoles: Record<string, string | null> = {
+        button: "button",
+        checkbox: "checkbox",
+        hidden: null,
+        image: "button",
+        radio: "radio",
+        range: "slider",
+        reset: "button",
+        search: "searchbox",
+        submit: "button",
+        number: "spinbutton",
+      };
+      const type = (element as HTMLInputElement).type;
+      return type in inputRoles ? inputRoles[type] : "textbox";
+    }
+    case "SELECT":
+      return (element as HTMLSelectElement).multiple ? "listbox" : "combobox";
+    case "A":
+      return element.hasAttribute("href") ? "link" : null;
+    case "IMG":
+      return element.getAttribute("alt") ? "img" : null;
+  }
+  if ((element as HTMLElement).isContentEditable) return "textbox";
+
+  const implicitRoles: Record<string, string> = {
+    BUTTON: "button",
+    DIALOG: "dialog",
+    FOOTER: "contentinfo",
+    FORM: "form",
+    H1: "heading",
+    H2: "heading",
+    H3: "heading",
+    H4: "heading",
+    H5: "heading",
+    H6: "heading",
+    HEADER: "banner",
+    LI: "listitem",
+    MAIN: "main",
+    NAV: "navigation",
+    OL: "list",
+    OPTION: "option",
+    SUMMARY: "button",
+    TABLE: "table",
+    TD: "cell",
+    TEXTAREA: "textbox",
+    TH: "columnheader",
+    TR: "row",
+    UL: "list",
+  };
+  return implicitRoles[element.tagName] ?? null;
+};
+
+/**
+ * Gets the accessible name of an element with the given role. Controls,
+ * headings and images are named from their content, as are elements without
+ * role so that they can still be told apart. Runs in the browser, see
+ * `evaluateWithAccessibility`.
+ *
+ * @param {Element} element - DOM element
+ * @param {string | null} role - Role of the element
+ * @returns {string} Name, empty if the element has none
+ *
+ * @private
+ */
+export const getAccessibleName = (
+  element: Element,
+  role: string | null,
+): string => {
+  const NAMED_FROM_CONTENT_ROLES = [
+    "button",
+    "checkbox",
+    "combobox",
+    "heading",
+    "link",
+    "listbox",
+    "menuitem",
+    "option",
+    "radio",
+    "searchbox",
+    "slider",
+    "spinbutton",
+    "switch",
+    "tab",
+    "textbox",
+  ];
+  const normalize = (text: string | null | undefined) =>
+    text?.replace(/\s+/g, " ").trim() || "";
+
+  const labelledBy = element.getAttribute("aria-labelledby");
+  if (labelledBy) {
+    const label = normalize(
+      labelledBy
+        .split(" ")
+        .map((id) => document.getElementById(id)?.textContent)
+        .join(" "),
+    );
+    if (label) return label;
+  }
+
+  const ariaLabel = normalize(element.getAttribute("aria-label"));
+  if (ariaLabel) return ariaLabel;
+
+  if (["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName)) {
+    const control = element as HTMLInputElement;
+    const label = normalize(
+      Array.from(control.labels ?? [])
+        .map((labelElement) => labelElement.textContent)
+        .join(" "),
+    );
+    if (label) return label;
+    if (
+      element.tagName === "INPUT" &&
+      ["button", "submit", "reset"].includes(control.type)
+    ) {
+      return normalize(control.value);
+    }
+    return (
+      normalize(element.getAttribute("placeholder")) ||
+      normalize(element.getAttribute("title"))
+    );
+  }
+
+  if (role === "img") return normalize(element.getAttribute("alt"));
+  return !role || NAMED_FROM_CONTENT_ROLES.includes(role)
+    ? normalize(element.textContent) || normalize(element.getAttribute("title"))
+    : "";
+};
+
+/**
+ * Accessibility helpers passed to the functions run by
+ * `evaluateWithAccessibility`
+ *
+ * @private
+ */
+export interface AccessibilityHelpers {
+  getRole: typeof getAccessibleRole;
+  getName: typeof getAccessibleName;
+}
+
+/**
+ * Runs a function in the page with the accessibility helpers. Functions run
+ * in the browser can't import modules, so the helpers are sent along with the
+ * function.
+ *
+ * @param {Page} page - Browser page
+ * @param {Function} fn - Function to run in the browser
+ * @param {Object} arg - Serializable argument of the function
+ * @returns {Promise} Result of the function
+ *
+ * @private
+ */
+export const evaluateWithAccessibility = <Arg, Result>(
+  page: Page,
+  fn: (helpers: AccessibilityHelpers, arg: Arg) => Result,
+  arg: Arg,
+): Promise<Result> =>
+  page.evaluate(
+    `(${fn})({ getRole: ${getAccessibleRole}, getName: ${getAccessibleName} }, ${JSON.stringify(arg)})`,
+  );
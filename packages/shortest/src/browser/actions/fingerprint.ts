@@ -0,0 +1,224 @@
+import { Locator, Page } from "playwright";
+import { getScaleRatio } from "@/browser/actions";
+import {
+  AccessibilityHelpers,
+  evaluateWithAccessibility,
+} from "@/browser/actions/accessibility";
+import { ElementFingerprint } from "@/types/browser";
+
+/**
+ * Computes the fingerprint of the element at the given viewport position, or
+ * of the focused element when no position is given. Runs in the browser, with
+ * the accessibility helpers.
+ */
+const fingerprintElement = (
+  { getRole, getName }: AccessibilityHelpers,
+  point: { x: number; y: number } | null,
+): ElementFingerprint | null => {
+  const target = point
+    ? document.elementFromPoint(point.x, point.y)
+    : document.activeElement;
+  if (
+    !target ||
+    target === document.body ||
+    target === document.documentElement
+  )
+    return null;
+
+  // Prefer the interactive element the action is aimed at over inner nodes
+  const element =
+    target.closest(
+      "a[href], button, input, select, textarea, summary, label, [role], [data-testid], [contenteditable='true']",
+    ) ?? target;
+
+  const normalize = (text: string | null | undefined) =>
+    text?.replace(/\s+/g, " ").trim() || null;
+
+  const getCssPath = (): string => {
+    const parts: string[] = [];
+    let current: Element | null = element;
+    while (current && current !== document.body) {
+      if (
+        current.id &&
+        document.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1
+      ) {
+        parts.unshift(`#${CSS.escape(current.id)}`);
+        return parts.join(" > ");
+      }
+      const tagName = current.tagName.toLowerCase();
+      const sameTagSiblings: Element[] = current.parentElement
+        ? Array.from(current.parentElement.children).filter(
+            (sibling) => sibling.tagName === current!.tagName,
+          )
+        : [];
+      parts.unshift(
+        sameTagSiblings.length > 1
+          ? `${tagName}:nth-of-type(${sameTagSiblings.indexOf(current) + 1})`
+          : tagName,
+      );
+      current = current.parentElement;
+    }
+    return ["body", ...parts].join(" > ");
+  };
+
+  const text = normalize((element as HTMLElement).innerText);
+  const rect = element.getBoundingClientRect();
+
+  const role = getRole(element);
+  return {
+    role,
+    name: getName(element, role).slice(0, 200) || null,
+    testId: element.getAttribute("data-testid"),
+    // Long texts are unlikely to be stable between runs
+    text: text && text.length <= 80 ? text : null,
+    cssPath: getCssPath(),
+    boundingBox: {
+      x: rect.x,
+      y: rect.y,
+      width: rect.width,
+      height: rect.height,
+    },
+  };
+};
+
+/**
+ * Fingerprints the element at the given screen coordinates
+ *
+ * @param {Page} page - Browser page
+ * @param {number} x - X coordinate, as sent by the AI
+ * @param {number} y - Y coordinate, as sent by the AI
+ * @returns {Promise<ElementFingerprint | null>} Fingerprint, or null if there
+ * is no element at the position
+ *
+ * @private
+ */
+export const getElementFingerprint = async (
+  page: Page,
+  x: number,
+  y: number,
+): Promise<ElementFingerprint | null> => {
+  const scaleRatio = getScaleRatio(page);
+  return evaluateWithAccessibility(page, fingerprintElement, {
+    x: Math.round(x * scaleRatio.x),
+    y: Math.round(y * scaleRatio.y),
+  }).catch(() => null);
+};
+
+/**
+ * Fingerprints the focused element, which receives typed text
+ *
+ * @private
+ */
+export const getFocusedElementFingerprint = async (
+  page: Page,
+): Promise<ElementFingerprint | null> =>
+  evaluateWithAccessibility(page, fingerprintElement, null).catch(() => null);
+
+/**
+ * Finds the element matching a fingerprint recorded in a previous run and
+ * recomputes the screen coordinates of the recorded action, keeping its
+ * relative position inside the element.
+ *
+ * Locators are tried from the most to the least stable one: test id, role and
+ * accessible name, text, then CSS path. A locator is only used when it matches
+ * a single visible element, and the CSS path only when that element is still
+ * the recorded one, as another element may have taken its place.
+ *
+ * @param {Page} page - Browser page
+ * @param {ElementFingerprint} fingerprint - Recorded fingerprint
+ * @param {number[]} coordinate - Recorded coordinates, as sent by the AI
+ * @returns {Promise<[number, number] | null>} Coordinates, as sent by the AI,
+ * or null if the element could not be found
+ *
+ * @private
+ */
+export const locateElementByFingerprint = async (
+  page: Page,
+  fingerprint: ElementFingerprint,
+  coordinate: number[],
+): Promise<[number, number] | null> => {
+  const locators: Locator[] = [];
+  if (fingerprint.testId) locators.push(page.getByTestId(fingerprint.testId));
+  if (fingerprint.role && fingerprint.name) {
+    locators.push(
+      page.getByRole(fingerprint.role as Parameters<Page["getByRole"]>[0], {
+        name: fingerprint.name,
+        exact: true,
+      }),
+    );
+  }
+  if (fingerprint.text) {
+    locators.push(page.getByText(fingerprint.text, { exact: true }));
+  }
+  const cssPathLocator = page.locator(fingerprint.cssPath);
+  locators.push(cssPathLocator);
+  const scaleRatio = getScaleRatio(page);
+
+  for (const locator of locators) {
+    try {
+      if ((await locator.count()) !== 1) continue;
+      await locator.scrollIntoViewIfNeeded({ timeout: 1000 });
+      const box = await locator.boundingBox();
+      if (!box || box.width === 0 || box.height === 0) continue;
+      if (locator === cssPathLocator) {
+        const actual = await evaluateWithAccessibility(
+          page,
+          fingerprintElement,
+          { x: box.x + box.width / 2, y: box.y + box.height / 2 },
+        ).catch(() => null);
+        if (!isSameElement(fingerprint, actual)) continue;
+      }
+
+      const recorded = fingerprint.boundingBox;
+      const offsetX =
+        recorded.width > 0
+          ? (coordinate[0] * scaleRatio.x - recorded.x) / recorded.width
+          : 0.5;
+      const offsetY =
+        recorded.height > 0
+          ? (coordinate[1] * scaleRatio.y - recorded.y) / recorded.height
+          : 0.5;
+      const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+      return [
+        Math.round((box.x + clamp(offsetX) * box.width) / scaleRatio.x),
+        Math.round((box.y + clamp(offsetY) * box.height) / scaleRatio.y),
+      ];
+    } catch {
+      // Try the next locator
+    }
+  }
+  return null;
+};
+
+/**
+ * Tells whether two fingerprints describe the same element by role and
+ * accessible name
+ *
+ * @private
+ */
+export const isSameElement = (
+  expected: ElementFingerprint,
+  actual: ElementFingerprint | null,
+): boolean =>
+  !!actual &&
+  (expected.testId
+    ? expected.testId === actual.testId
+    : expected.role === actual.role && expected.name === actual.name);
+
+/**
+ * Describes a fingerprint for error messages, e.g. `button "Sign in"`
+ *
+ * @private
+ */
+export const describeFingerprint = (
+  fingerprint: ElementFingerprint | null,
+): string => {
+  if (!fingerprint) return "no element";
+  const description = [
+    fingerprint.role ?? fingerprint.cssPath,
+    fingerprint.name && `"${fingerprint.name}"`,
+    fingerprint.testId && `[data-testid="${fingerprint.testId}"]`,
+  ];
+  return description.filter(Boolean).join(" ");
+};
@@ -1,4 +1,5 @@
 import { Page } from "playwright";
+import { DEFAULT_VIEWPORT, ViewportSize } from "@/types/browser";
 import { ToolError } from "@/utils/errors";
 
 export const keyboardShortcuts: Record<string, string | string[]> = {
@@ -22,10 +23,39 @@ export const keyboardShortcuts: Record<string, string | string[]> = {
   page_up: ["PageUp"],
 };
 
-export const scaleRatio = {
+// Ratio measured for the default viewport, kept so that the coordinates of
+// existing cached runs replay unchanged
+const DEFAULT_SCALE_RATIO = {
   x: 1543 / 1170,
   y: 32 / 24,
 };
+// Largest screenshots the AI sees without them being downscaled
+const MAX_SCREENSHOT_PIXELS = 1092 * 1092;
+const MAX_SCREENSHOT_EDGE = 1568;
+
+/**
+ * Gets the ratio from the coordinates sent by the AI, on a screenshot
+ * downscaled to fit the limits of the AI, to the coordinates of the page
+ *
+ * @param {Page} page - Browser page
+ * @returns Ratio on each axis
+ *
+ * @private
+ */
+export const getScaleRatio = (page: Page): { x: number; y: number } => {
+  const { width, height }: ViewportSize =
+    page.viewportSize() ?? DEFAULT_VIEWPORT;
+  if (width === DEFAULT_VIEWPORT.width && height === DEFAULT_VIEWPORT.height) {
+    return DEFAULT_SCALE_RATIO;
+  }
+
+  const ratio = Math.max(
+    1,
+    Math.sqrt((width * height) / MAX_SCREENSHOT_PIXELS),
+    Math.max(width, height) / MAX_SCREENSHOT_EDGE,
+  );
+  return { x: ratio, y: ratio };
+};
 
 export const mouseMove = async (
   page: Page,
@@ -36,6 +66,7 @@ export const mouseMove = async (
     throw new ToolError("Coordinates must be non-negative integers");
   }
 
+  const scaleRatio = getScaleRatio(page);
   const scaledX = Math.round(x * scaleRatio.x);
   const scaledY = Math.round(y * scaleRatio.y);
 
@@ -72,6 +103,7 @@ export const click = async (
     clickCount: 1,
   },
 ): Promise<void> => {
+  const scaleRatio = getScaleRatio(page);
   const scaledX = Math.round(x * scaleRatio.x);
   const scaledY = Math.round(y * scaleRatio.y);
 
@@ -89,6 +121,7 @@ export const dragMouse = async (
   x: number,
   y: number,
 ): Promise<void> => {
+  const scaleRatio = getScaleRatio(page);
   const scaledX = Math.round(x * scaleRatio.x);
   const scaledY = Math.round(y * scaleRatio.y);
 
@@ -0,0 +1,245 @@
+import { Page } from "playwright";
+import {
+  AccessibilityHelpers,
+  evaluateWithAccessibility,
+} from "@/browser/actions/accessibility";
+
+const REF_ATTRIBUTE = "data-shortest-ref";
+
+/**
+ * Element of a page snapshot the AI can act on
+ *
+ * @private
+ */
+export interface SnapshotElement {
+  role: string;
+  name: string;
+  testId: string | null;
+}
+
+/**
+ * Accessibility snapshot of a page, listing its landmarks, headings, texts and
+ * interactive elements as an indented tree, e.g.
+ * `- button "Sign in" [ref=e3]`. Runs in the browser, with the accessibility
+ * helpers.
+ */
+const snapshotPage = (
+  { getRole, getName }: AccessibilityHelpers,
+  {
+    refAttribute,
+    maxLines,
+  }: {
+    refAttribute: string;
+    maxLines: number;
+  },
+): { lines: string[]; elements: Record<string, SnapshotElement> } => {
+  const INTERACTIVE_ROLES = [
+    "button",
+    "checkbox",
+    "combobox",
+    "link",
+    "listbox",
+    "menuitem",
+    "option",
+    "radio",
+    "searchbox",
+    "slider",
+    "spinbutton",
+    "switch",
+    "tab",
+    "textbox",
+  ];
+  // Roles named from their content, listed without their children
+  const LEAF_ROLES = [...INTERACTIVE_ROLES, "heading", "img"];
+  const SKIPPED_TAGS = ["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "SVG"];
+  const MAX_TEXT_LENGTH = 100;
+
+  const normalize = (text: string | null | undefined) =>
+    text?.replace(/\s+/g, " ").trim() || "";
+  const truncate = (text: string) =>
+    text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+  const isHidden = (element: Element): boolean => {
+    if (element.getAttribute("aria-hidden") === "true") return true;
+    if ((element as HTMLElement).hidden) return true;
+    const style = window.getComputedStyle(element);
+    return style.display === "none" || style.visibility === "hidden";
+  };
+
+  const getState = (element: Element, role: string): string => {
+    const states: string[] = [];
+    if (
+      (element instanceof HTMLInputElement &&
+        ["checkbox", "radio"].includes(element.type) &&
+        element.checked) ||
+      element.getAttribute("aria-checked") === "true"
+    ) {
+      states.push("[checked]");
+    }
+    if (
+      (element as HTMLButtonElement).disabled ||
+      element.getAttribute("aria-disabled") === "true"
+    ) {
+      states.push("[disabled]");
+    }
+    if (role === "heading") {
+      const level = element.getAttribute("aria-level") ?? element.tagName[1];
+      if (level) states.push(`[level=${level}]`);
+    }
+    return states.join(" ");
+  };
+
+  const getValue = (element: Element): string => {
+    if (element instanceof HTMLSelectElement) {
+      return normalize(element.selectedOptions[0]?.textContent);
+    }
+    if (
+      (element instanceof HTMLInputElement &&
+        !["checkbox", "radio", "button", "submit", "reset"].includes(
+          element.type,
+        )) ||
+      element instanceof HTMLTextAreaElement
+    ) {
+      return element instanceof HTMLInputElement && element.type === "password"
+        ? "•".repeat(element.value.length)
+        : element.value;
+    }
+    if ((element as HTMLElement).isContentEditable) {
+      return normalize(element.textContent);
+    }
+    return "";
+  };
+
+  document
+    .querySelectorAll(`[${refAttribute}]`)
+    .forEach((element) => element.removeAttribute(refAttribute));
+
+  const lines: string[] = [];
+  const elements: Record<string, SnapshotElement> = {};
+  let refCount = 0;
+
+  const visit = (node: Node, depth: number) => {
+    if (lines.length >= maxLines) return;
+    const indent = "  ".repeat(depth);
+
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = normalize(node.textContent);
+      if (text) lines.push(`${indent}- text: "${truncate(text)}"`);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (SKIPPED_TAGS.includes(element.tagName.toUpperCase())) return;
+    if (isHidden(element)) return;
+
+    const role = getRole(element);
+    if (!role || ["none", "presentation", "generic"].includes(role)) {
+      element.childNodes.forEach((child) => visit(child, depth));
+      return;
+    }
+
+    const name = getName(element, role);
+    const line = [
+      `${indent}- ${role}`,
+      name && `"${truncate(name)}"`,
+      getState(element, role),
+    ];
+    if (INTERACTIVE_ROLES.includes(role)) {
+      const ref = `e${++refCount}`;
+      element.setAttribute(refAttribute, ref);
+      elements[ref] = {
+        role,
+        name,
+        testId: element.getAttribute("data-testid"),
+      };
+      line.push(`[ref=${ref}]`);
+    }
+    const value = getValue(element);
+    lines.push(
+      line.filter(Boolean).join(" ") + (value ? `: ${truncate(value)}` : ""),
+    );
+
+    if (!LEAF_ROLES.includes(role)) {
+      element.childNodes.forEach((child) => visit(child, depth + 1));
+    }
+  };
+
+  visit(document.body, 0);
+  if (lines.length >= maxLines) {
+    lines.push(`- text: "[Snapshot truncated after ${maxLines} lines]"`);
+  }
+  return { lines, elements };
+};
+
+/**
+ * Takes an accessibility snapshot of the page, marking its interactive
+ * elements with refs valid until the next snapshot
+ *
+ * @param {Page} page - Browser page
+ * @param {number} [maxLines] - Lines of the snapshot, longer pages are truncated
+ * @returns Snapshot text, and the elements of the snapshot by ref
+ *
+ * @private
+ */
+export const takeSnapshot = async (
+  page: Page,
+  maxLines: number = 500,
+): Promise<{ snapshot: string; elements: Record<string, SnapshotElement> }> => {
+  const { lines, elements } = await evaluateWithAccessibility(
+    page,
+    snapshotPage,
+    { refAttribute: REF_ATTRIBUTE, maxLines },
+  );
+  return { snapshot: lines.join("\n"), elements };
+};
+
+/**
+ * Gets the selector of an element of the latest snapshot, pointing to that
+ * exact element
+ *
+ * @param {string} ref - Ref of the element in the snapshot, e.g. `e3`
+ * @returns {string} CSS selector
+ *
+ * @private
+ */
+export const getSnapshotRefSelector = (ref: string): string =>
+  `[${REF_ATTRIBUTE}="${ref}"]`;
+
+/**
+ * Gets a selector finding an element of a snapshot again in later runs, by
+ * its test id, or by its role and accessible name. Elements sharing a role
+ * and name are told apart by their position in the snapshot.
+ *
+ * @param {string} ref - Ref of the element in the snapshot
+ * @param {Record<string, SnapshotElement>} elements - Elements of the snapshot by ref
+ * @returns {string} Playwright selector
+ *
+ * @private
+ */
+export const getStableSelector = (
+  ref: string,
+  elements: Record<string, SnapshotElement>,
+): string => {
+  const element = elements[ref];
+  const others = Object.entries(elements);
+
+  if (
+    element.testId &&
+    others.filter(([, other]) => other.testId === element.testId).length === 1
+  ) {
+    return `[data-testid=${JSON.stringify(element.testId)}]`;
+  }
+
+  // Without name, the role selector matches all elements of the role
+  const matches = others.filter(
+    ([, other]) =>
+      other.role === element.role &&
+      (!element.name || other.name === element.name),
+  );
+  const selector = element.name
+    ? `role=${element.role}[name=${JSON.stringify(element.name)}s]`
+    : `role=${element.role}`;
+  const index = matches.findIndex(([otherRef]) => otherRef === ref);
+  return matches.length > 1 ? `${selector} >> nth=${index}` : selector;
+};
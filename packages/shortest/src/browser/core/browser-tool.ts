@@ -9,8 +9,19 @@ declare global {
 
 import * as fs from "fs/promises";
 import { join } from "path";
-import { Page } from "playwright";
+import { Locator, Page } from "playwright";
 import * as actions from "@/browser/actions";
+import {
+  getElementFingerprint,
+  getFocusedElementFingerprint,
+  locateElementByFingerprint,
+} from "@/browser/actions/fingerprint";
+import {
+  getSnapshotRefSelector,
+  getStableSelector,
+  SnapshotElement,
+  takeSnapshot,
+} from "@/browser/actions/snapshot";
 import { BaseBrowserTool } from "@/browser/core";
 import { GitHubTool } from "@/browser/integrations/github";
 import { MailosaurTool } from "@/browser/integrations/mailosaur";
@@ -21,12 +32,16 @@ import { getLogger, Log } from "@/log/index";
 import { TestContext, BrowserToolConfig, ShortestConfig } from "@/types";
 import {
   ActionInput,
+  ElementFingerprint,
   ToolResult,
   BetaToolType,
   InternalActionEnum,
 } from "@/types/browser";
 import { getErrorDetails, ToolError, TestError } from "@/utils/errors";
 
+// Time to wait for the element of a ref to be actionable
+const ELEMENT_ACTION_TIMEOUT = 5000;
+
 export class BrowserTool extends BaseBrowserTool {
   protected readonly toolType: BetaToolType = "computer_20241022";
   protected readonly toolName: string = "computer";
@@ -40,6 +55,8 @@ export class BrowserTool extends BaseBrowserTool {
   private readonly MAX_SCREENSHOTS = 10;
   private readonly MAX_AGE_HOURS = 5;
   private mailosaurTool?: MailosaurTool;
+  // Elements of the latest page snapshot, by ref
+  private snapshotElements: Record<string, SnapshotElement> = {};
   private config!: ShortestConfig;
   private log: Log;
   constructor(
@@ -72,6 +89,10 @@ export class BrowserTool extends BaseBrowserTool {
       this.log.setGroup(`🛠️ ${input.action}`);
       let output = "";
       let metadata = {};
+      // Element targeted by the action, recorded to relocate it on replay
+      let elementFingerprint: ElementFingerprint | null = null;
+      // Selector of the element targeted by a ref, recorded instead of the ref
+      let elementRef: string | null = null;
 
       switch (input.action) {
         case InternalActionEnum.LEFT_CLICK:
@@ -83,6 +104,7 @@ export class BrowserTool extends BaseBrowserTool {
             input.coordinate || input.coordinates || this.lastMousePosition;
           const x = clickCoords[0];
           const y = clickCoords[1];
+          elementFingerprint = await getElementFingerprint(this.page, x, y);
           const button = () => {
             switch (input.action) {
               case InternalActionEnum.LEFT_CLICK:
@@ -150,6 +172,11 @@ export class BrowserTool extends BaseBrowserTool {
           if (!coords) {
             throw new ToolError("Coordinates required for mouse_move");
           }
+          elementFingerprint = await getElementFingerprint(
+            this.page,
+            coords[0],
+            coords[1],
+          );
           await actions.mouseMove(this.page, coords[0], coords[1]);
           this.lastMousePosition = [coords[0], coords[1]];
           output = `Mouse moved to (${coords[0]}, ${coords[1]})`;
@@ -190,6 +217,7 @@ export class BrowserTool extends BaseBrowserTool {
             throw new ToolError("Text required for type action");
           }
           await this.page.waitForTimeout(100);
+          elementFingerprint = await getFocusedElementFingerprint(this.page);
           await this.page.keyboard.type(input.text);
           await this.page.waitForTimeout(100);
           output = `Typed: ${input.text}`;
@@ -368,6 +396,55 @@ export class BrowserTool extends BaseBrowserTool {
           }
         }
 
+        case InternalActionEnum.SNAPSHOT: {
+          const { snapshot, elements } = await takeSnapshot(this.page);
+          this.snapshotElements = elements;
+          const snapshotMetadata = await this.getMetadata();
+          return {
+            output: [
+              `URL: ${snapshotMetadata.window_info.url}`,
+              `Title: ${snapshotMetadata.window_info.title}`,
+              snapshot,
+            ].join("\n"),
+            metadata: snapshotMetadata,
+          };
+        }
+
+        case InternalActionEnum.CLICK_ELEMENT: {
+          if (!input.ref) {
+            throw new ToolError("Ref required for click_element action");
+          }
+          const { locator, selector } = this.getElementLocator(input.ref);
+          await locator.click({ timeout: ELEMENT_ACTION_TIMEOUT });
+          elementRef = selector;
+          output = `Clicked element ${input.ref}`;
+
+          // Let a navigation started by the click load
+          await this.page
+            .waitForLoadState("domcontentloaded", { timeout: 5000 })
+            .catch(() => {});
+          break;
+        }
+
+        case InternalActionEnum.FILL: {
+          if (!input.ref) {
+            throw new ToolError("Ref required for fill action");
+          }
+          if (input.text === undefined) {
+            throw new ToolError("Text required for fill action");
+          }
+          const { locator, selector } = this.getElementLocator(input.ref);
+          await locator.fill(input.text, { timeout: ELEMENT_ACTION_TIMEOUT });
+          if (input.submit) {
+            await locator.press("Enter", { timeout: ELEMENT_ACTION_TIMEOUT });
+          }
+          elementRef = selector;
+          output = `Filled element ${input.ref} with: ${input.text}${
+            input.submit ? ", then pressed Enter" : ""
+          }`;
+          break;
+        }
+
         case InternalActionEnum.WAIT:
           if (!input.duration) {
             throw new ToolError("Duration required for wait action");
@@ -540,7 +617,13 @@ export class BrowserTool extends BaseBrowserTool {
 
       return {
         output,
-        metadata,
+        metadata: {
+          ...metadata,
+          ...(elementFingerprint && {
+            element_fingerprint: elementFingerprint,
+          }),
+          ...(elementRef && { element_ref: elementRef }),
+        },
       };
     } catch (error) {
       this.log.error("Browser action failed", getErrorDetails(error));
@@ -751,6 +834,61 @@ export class BrowserTool extends BaseBrowserTool {
     );
   }
 
+  /**
+   * Gets the ratio from the coordinates of the Anthropic computer tool, on a
+   * downscaled screenshot, to the coordinates of the page
+   *
+   * @returns Ratio on each axis
+   */
+  getScaleRatio(): { x: number; y: number } {
+    return actions.getScaleRatio(this.page);
+  }
+
+  /**
+   * Recomputes the coordinates of a cached action from the fingerprint of its
+   * element, so the action still hits the element after a layout change
+   *
+   * @param {ElementFingerprint} fingerprint - Fingerprint recorded with the action
+   * @param {number[]} coordinate - Recorded coordinates
+   * @returns {Promise<[number, number] | null>} Coordinates, or null if the element is not found
+   */
+  async locateElementByFingerprint(
+    fingerprint: ElementFingerprint,
+    coordinate: number[],
+  ): Promise<[number, number] | null> {
+    return await locateElementByFingerprint(this.page, fingerprint, coordinate);
+  }
+
+  async getFocusedElementFingerprint(): Promise<ElementFingerprint | null> {
+    return await getFocusedElementFingerprint(this.page);
+  }
+
+  /**
+   * Finds the element of a ref of the latest snapshot, or of the selector
+   * recorded in its place when a cached step is replayed
+   *
+   * @param {string} ref - Snapshot ref, e.g. `e3`, or Playwright selector
+   * @returns Locator of the element, and a selector finding it in later runs
+   * @throws {ToolError} If the ref isn't part of the latest snapshot
+   */
+  private getElementLocator(ref: string): {
+    locator: Locator;
+    selector: string;
+  } {
+    if (this.snapshotElements[ref]) {
+      return {
+        locator: this.page.locator(getSnapshotRefSelector(ref)),
+        selector: getStableSelector(ref, this.snapshotElements),
+      };
+    }
+    if (/^e\d+$/.test(ref)) {
+      throw new ToolError(
+        `Unknown element ref ${ref}, take a new snapshot of the page`,
+      );
+    }
+    return { locator: this.page.locator(ref).first(), selector: ref };
+  }
+
   private async initialize(): Promise<void> {
     await initializeConfig({});
     this.config = getConfig();
@@ -957,7 +1095,8 @@ export class BrowserTool extends BaseBrowserTool {
     const buffer = await this.page.screenshot({
       type: "jpeg",
       quality: 50,
-      scale: "device",
+      // One pixel per CSS pixel, whatever the pixel density of the device
+      scale: "css",
       fullPage: false,
     });
 
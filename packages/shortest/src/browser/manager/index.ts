@@ -1,15 +1,48 @@
 import { execSync } from "child_process";
+import * as fs from "fs/promises";
+import path from "path";
 import { URL } from "url";
 import pc from "picocolors";
-import { Browser, BrowserContext, chromium } from "playwright";
+import {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+  BrowserType,
+  chromium,
+  devices,
+  firefox,
+  webkit,
+} from "playwright";
 import { getLogger, Log } from "@/log/index";
-import { ShortestConfig } from "@/types/config";
-import { ShortestError } from "@/utils/errors";
+import {
+  DEFAULT_VIEWPORT,
+  RecordingArtifacts,
+  StorageState,
+} from "@/types/browser";
+import {
+  BrowserConnectConfig,
+  BrowserName,
+  RecordingMode,
+  ShortestConfig,
+} from "@/types/config";
+import { ConfigError, ShortestError } from "@/utils/errors";
 import { getInstallationCommand } from "@/utils/platform";
 
+const BROWSER_TYPES: Record<BrowserName, BrowserType> = {
+  chromium,
+  firefox,
+  webkit,
+};
+
 export class BrowserManager {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
+  // Storage state loaded into the context
+  private storageStatePath: string | undefined;
+  // Artifacts of the test run being recorded
+  private recordingArtifacts: RecordingArtifacts | null = null;
+  // Discarded videos and HAR files, removed once their context is closed
+  private discardedRecordingPaths: string[] = [];
   private config: ShortestConfig;
   private log: Log;
 
@@ -18,25 +51,44 @@ export class BrowserManager {
     this.log = getLogger();
   }
 
+  /**
+   * Browser engine of `browser.name`, else the engine of the emulated device,
+   * Chromium by default
+   */
+  get browserName(): BrowserName {
+    return (
+      this.config.browser?.name ??
+      this.getDevice()?.defaultBrowserType ??
+      "chromium"
+    );
+  }
+
   async launch(): Promise<BrowserContext> {
+    const browserType = BROWSER_TYPES[this.browserName];
+    const connect = this.config.browser?.connect;
     try {
-      this.browser = await chromium.launch({
-        headless: this.config.headless ?? false,
-      });
+      this.browser = connect
+        ? await this.connect(connect)
+        : await browserType.launch({
+            headless: this.config.headless ?? false,
+          });
     } catch (error) {
       // Check if error is about missing browser
       if (
+        !connect &&
         error instanceof Error &&
         error.message.includes("Executable doesn't exist")
       ) {
-        this.log.info("Installing Playwright browser...");
+        this.log.info(`Installing Playwright ${this.browserName} browser...`);
 
-        const installationCommand = await getInstallationCommand();
+        const installationCommand = await getInstallationCommand(
+          this.browserName,
+        );
 
         execSync(installationCommand, { stdio: "inherit" });
         this.log.info(pc.green("✓"), "Playwright browser installed");
 
-        this.browser = await chromium.launch({
+        this.browser = await browserType.launch({
           headless: this.config.headless ?? false,
         });
       } else {
@@ -45,18 +97,7 @@ export class BrowserManager {
       }
     }
 
-    const contextOptions = {
-      viewport: { width: 1920, height: 1080 },
-      baseURL: this.config.baseUrl,
-      ...this.config.browser?.contextOptions,
-    };
-    this.log.trace("Initializing browser context", { options: contextOptions });
-    this.context = await this.browser.newContext(contextOptions);
-
-    const page = await this.context.newPage();
-    await page.goto(this.normalizeUrl(this.config.baseUrl));
-    await page.waitForLoadState("networkidle");
-
+    this.context = await this.newContext();
     return this.context;
   }
 
@@ -96,19 +137,129 @@ export class BrowserManager {
     await pages[0].goto(baseUrl);
     await pages[0].waitForLoadState("networkidle");
 
+    this.storageStatePath = undefined;
     return this.context;
   }
 
+  /**
+   * Loads a storage state saved by a setup into the context, clearing the
+   * state left by previous tests when another storage state is used
+   *
+   * @param {string} [filePath] - Path of the storage state, none to use a cleared context
+   */
+  async useStorageState(filePath?: string): Promise<void> {
+    if (filePath === this.storageStatePath) return;
+
+    const context = await this.clearContext();
+    if (filePath) {
+      this.log.trace("Loading storage state", { filePath });
+      const state = JSON.parse(
+        await fs.readFile(filePath, "utf-8"),
+      ) as StorageState;
+      await context.addCookies(state.cookies);
+
+      // Local storage can only be set from a page of its origin
+      const page = context.pages()[0];
+      for (const { origin, localStorage } of state.origins) {
+        await page.goto(origin);
+        await page.evaluate((items) => {
+          for (const { name, value } of items) {
+            window.localStorage.setItem(name, value);
+          }
+        }, localStorage);
+      }
+      await page.goto(this.config.baseUrl);
+      await page.waitForLoadState("networkidle");
+    }
+    this.storageStatePath = filePath;
+  }
+
+  /**
+   * Starts recording a test run as set by the `recording` of the config.
+   * Videos and HAR files are recorded by the context, so a new context is
+   * created for the test run when they are enabled.
+   *
+   * @param {string} dirPath - Directory of the recorded artifacts
+   */
+  async startRecording(dirPath: string): Promise<void> {
+    const { trace, video, har } = this.getRecordingModes();
+    const artifacts: RecordingArtifacts = {};
+
+    if (video !== "off" || har !== "off") {
+      if (har !== "off") artifacts.har = path.join(dirPath, "network.har");
+      await this.replaceContext({
+        ...(video !== "off" && {
+          recordVideo: {
+            dir: dirPath,
+            size: this.getContextOptions().viewport ?? undefined,
+          },
+        }),
+        ...(artifacts.har && { recordHar: { path: artifacts.har } }),
+      });
+      artifacts.video = await this.context!.pages()[0].video()?.path();
+    }
+    if (trace !== "off") {
+      artifacts.trace = path.join(dirPath, "trace.zip");
+      await this.context!.tracing.start({ screenshots: true, snapshots: true });
+    }
+    this.recordingArtifacts = artifacts;
+  }
+
+  /**
+   * Stops recording the current test run, discarding the artifacts recorded
+   * in `retain-on-failure` mode when the test run did not fail
+   *
+   * @param {boolean} failed - Whether the test run failed
+   * @returns {Promise<RecordingArtifacts>} Kept artifacts, relative to the current working directory
+   */
+  async stopRecording(failed: boolean): Promise<RecordingArtifacts> {
+    const artifacts = this.recordingArtifacts;
+    if (!artifacts) return {};
+    this.recordingArtifacts = null;
+
+    const modes = this.getRecordingModes();
+    const keptArtifacts: RecordingArtifacts = {};
+    for (const name of ["trace", "video", "har"] as const) {
+      const artifactPath = artifacts[name];
+      if (!artifactPath) continue;
+      const keep =
+        modes[name] === "on" || (modes[name] === "retain-on-failure" && failed);
+
+      if (name === "trace") {
+        await this.context!.tracing.stop(
+          keep ? { path: artifactPath } : undefined,
+        );
+      } else if (!keep) {
+        // Written until the context is closed
+        this.discardedRecordingPaths.push(artifactPath);
+      }
+      if (keep) {
+        keptArtifacts[name] = path.relative(process.cwd(), artifactPath);
+      }
+    }
+    return keptArtifacts;
+  }
+
+  /**
+   * Closes the context and opens a new one, so that no state such as
+   * permissions or service workers carries over to the next test run. Called
+   * once the recording of the previous test run has stopped.
+   */
   async recreateContext(): Promise<BrowserContext> {
-    return this.clearContext();
+    await this.replaceContext({});
+    return this.context!;
   }
 
   async close(): Promise<void> {
     if (this.context) {
       await this.context.close();
       this.context = null;
+      this.storageStatePath = undefined;
+      this.recordingArtifacts = null;
+      await this.removeDiscardedRecordings();
     }
     if (this.browser) {
+      // Only disconnects from browsers of `browser.connect`, leaving them running
       await this.browser.close();
       this.browser = null;
     }
@@ -122,6 +273,84 @@ export class BrowserManager {
     return this.browser;
   }
 
+  private getContextOptions(): BrowserContextOptions {
+    return {
+      viewport: DEFAULT_VIEWPORT,
+      ...this.getDeviceContextOptions(),
+      baseURL: this.config.baseUrl,
+      ...this.config.browser?.contextOptions,
+    };
+  }
+
+  /**
+   * Creates a context with a page open at the base URL
+   *
+   * @param {BrowserContextOptions} [options] - Options added to the configured ones
+   */
+  private async newContext(
+    options: BrowserContextOptions = {},
+  ): Promise<BrowserContext> {
+    const contextOptions = { ...this.getContextOptions(), ...options };
+    this.log.trace("Initializing browser context", { options: contextOptions });
+    const context = await this.browser!.newContext(contextOptions);
+
+    const page = await context.newPage();
+    await page.goto(this.normalizeUrl(this.config.baseUrl));
+    await page.waitForLoadState("networkidle");
+
+    return context;
+  }
+
+  private async replaceContext(options: BrowserContextOptions): Promise<void> {
+    if (this.context) {
+      await this.context.close();
+      await this.removeDiscardedRecordings();
+    }
+    this.context = await this.newContext(options);
+    this.storageStatePath = undefined;
+  }
+
+  private async removeDiscardedRecordings(): Promise<void> {
+    for (const recordingPath of this.discardedRecordingPaths) {
+      await fs.rm(recordingPath, { force: true });
+      // Left empty when all artifacts of the test run were discarded
+      await fs.rmdir(path.dirname(recordingPath)).catch(() => {});
+    }
+    this.discardedRecordingPaths = [];
+  }
+
+  private getRecordingModes(): Record<keyof RecordingArtifacts, RecordingMode> {
+    const {
+      trace = "off",
+      video = "off",
+      har = "off",
+    } = this.config.recording ?? {};
+    return { trace, video, har };
+  }
+
+  /**
+   * Connects to the browser of `browser.connect`. Tests run in a context of
+   * their own, leaving the pages and cookies of the browser untouched.
+   */
+  private async connect(connect: BrowserConnectConfig): Promise<Browser> {
+    if ("cdpUrl" in connect) {
+      if (this.browserName !== "chromium") {
+        throw new ConfigError(
+          "invalid-config",
+          `browser.connect.cdpUrl only supports Chromium, not ${this.browserName}`,
+        );
+      }
+      this.log.trace("Connecting to browser over CDP", {
+        cdpUrl: connect.cdpUrl,
+      });
+      return chromium.connectOverCDP(connect.cdpUrl);
+    }
+    this.log.trace("Connecting to browser server", {
+      wsEndpoint: connect.wsEndpoint,
+    });
+    return BROWSER_TYPES[this.browserName].connect(connect.wsEndpoint);
+  }
+
   private normalizeUrl(url: string): string {
     try {
       const parsedUrl = new URL(url);
@@ -130,4 +359,28 @@ export class BrowserManager {
       return url;
     }
   }
+
+  private getDevice() {
+    const deviceName = this.config.browser?.device;
+    return deviceName ? devices[deviceName] : undefined;
+  }
+
+  /**
+   * Context options emulating `browser.device`, its engine being picked by
+   * `browserName`
+   */
+  private getDeviceContextOptions(): BrowserContextOptions {
+    const device = this.getDevice();
+    if (!device) return {};
+    const { viewport, userAgent, deviceScaleFactor, isMobile, hasTouch } =
+      device;
+    return {
+      viewport,
+      userAgent,
+      deviceScaleFactor,
+      hasTouch,
+      // Not supported by Firefox
+      ...(this.browserName !== "firefox" && { isMobile }),
+    };
+  }
 }
@@ -13,36 +13,45 @@ export const DOT_SHORTEST_DIR_PATH = path.join(
   DOT_SHORTEST_DIR_NAME,
 );
 export const CACHE_DIR_PATH = path.join(DOT_SHORTEST_DIR_PATH, "cache");
+// Artifacts recorded for each test run, by run ID
+export const RUNS_DIR_PATH = path.join(DOT_SHORTEST_DIR_PATH, "runs");
+// Storage states saved by the `setup` of the config
+export const AUTH_DIR_PATH = path.join(DOT_SHORTEST_DIR_PATH, "auth");
 export const CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 /**
- * Removes expired cache entries and optionally purges all cache
+ * Removes expired cache entries and recordings, and optionally purges all cache
  *
- * @param {{ forcePurge?: boolean, dirPath?: string }} options - Cleanup options where forcePurge forces removal of all entries regardless of age
+ * @param {{ forcePurge?: boolean, dirPath?: string, runsDirPath?: string }} options - Cleanup options where forcePurge forces removal of all entries regardless of age, and runsDirPath is the directory of the artifacts recorded for each test run
  * @private
  */
 export const cleanUpCache = async ({
   forcePurge = false,
   dirPath = CACHE_DIR_PATH,
+  runsDirPath = RUNS_DIR_PATH,
 }: {
   forcePurge?: boolean;
   dirPath?: string;
+  runsDirPath?: string;
 } = {}) => {
   const log = getLogger();
   log.setGroup("🧹");
   log.trace("Cleaning up cache", { forcePurge });
 
-  if (!existsSync(dirPath)) {
-    log.trace("Cache directory does not exist", { dirPath });
-    return;
-  }
-
   if (forcePurge) {
     await fs.rm(dirPath, { recursive: true, force: true });
+    await fs.rm(runsDirPath, { recursive: true, force: true });
     log.debug("Cache directory purged", { dirPath });
     return;
   }
 
+  await removeExpiredRecordings(runsDirPath);
+
+  if (!existsSync(dirPath)) {
+    log.trace("Cache directory does not exist", { dirPath });
+    return;
+  }
+
   const cacheFiles = await fs.readdir(dirPath);
   log.trace("Found cache files", {
     count: cacheFiles.length,
@@ -90,6 +99,35 @@ export const cleanUpCache = async ({
   log.resetGroup();
 };
 
+/**
+ * Removes the artifacts recorded for test runs older than the cache max age.
+ * They are kept apart from the cached test runs, so that the artifacts of a
+ * failed run outlive the retention of its test run.
+ *
+ * @param {string} runsDirPath - Directory of the artifacts recorded for each test run
+ * @private
+ */
+const removeExpiredRecordings = async (runsDirPath: string) => {
+  const log = getLogger();
+  if (!(await directoryExists(runsDirPath))) return;
+
+  for (const runId of await fs.readdir(runsDirPath)) {
+    const runDirPath = path.join(runsDirPath, runId);
+    try {
+      const { mtimeMs } = await fs.stat(runDirPath);
+      if (Date.now() - mtimeMs > CACHE_MAX_AGE_MS) {
+        await fs.rm(runDirPath, { recursive: true, force: true });
+        log.trace("Recording removed", { runId });
+      }
+    } catch (error) {
+      log.error("Failed to remove recording", {
+        dir: runDirPath,
+        ...getErrorDetails(error),
+      });
+    }
+  }
+};
+
 /**
  * Removes legacy cache file from older versions
  *
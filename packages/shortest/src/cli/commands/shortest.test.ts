@@ -71,6 +71,38 @@ describe("shortest command", () => {
     expect(
       shortestCommand.options.find((opt) => opt.long === "--no-cache"),
     ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--workers"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--retries"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--reporter"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--replay-only"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--forbid-only"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find(
+        (opt) => opt.long === "--record-transcripts",
+      ),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--grep"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--grep-invert"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--tag"),
+    ).toBeDefined();
+    expect(
+      shortestCommand.options.find((opt) => opt.long === "--exclude-tag"),
+    ).toBeDefined();
   });
 
   test("shortestCommand calls executeCommand with correct parameters", async () => {
@@ -101,7 +133,32 @@ describe("shortest command", () => {
 
   test("executeTestRunnerCommand executes test runner with correct options", async () => {
     await shortestCommand.parseAsync(
-      ["test-file.ts:123", "--headless", "--no-cache"],
+      [
+        "test-file.ts:123",
+        "--headless",
+        "--no-cache",
+        "--workers",
+        "4",
+        "--retries",
+        "2",
+        "--reporter",
+        "junit,json",
+        "--reporter",
+        "html",
+        "--replay-only",
+        "--forbid-only",
+        "--record-transcripts",
+        "--grep",
+        "log(in|out)",
+        "--grep-invert",
+        "admin",
+        "--tag",
+        "smoke,@auth",
+        "--tag",
+        "smoke",
+        "--exclude-tag",
+        "slow",
+      ],
       { from: "user" },
     );
 
@@ -114,6 +171,12 @@ describe("shortest command", () => {
         headless: true,
         testPattern: "test-file.ts",
         noCache: true,
+        workers: 4,
+        retries: 2,
+        reporters: ["junit", "json", "html"],
+        replayOnly: true,
+        forbidOnly: true,
+        recordTranscripts: true,
       }),
     });
 
@@ -122,7 +185,12 @@ describe("shortest command", () => {
 
     expect(TestRunner).toHaveBeenCalled();
     expect(mockInitialize).toHaveBeenCalled();
-    expect(mockExecute).toHaveBeenCalledWith("test-pattern", 123);
+    expect(mockExecute).toHaveBeenCalledWith("test-pattern", 123, {
+      grep: /log(in|out)/,
+      grepInvert: /admin/,
+      tags: ["smoke", "auth"],
+      excludeTags: ["slow"],
+    });
 
     expect(cleanUpCache).toHaveBeenCalled();
   });
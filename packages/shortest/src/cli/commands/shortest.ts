@@ -1,4 +1,4 @@
-import { Command, Option } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 import pc from "picocolors";
 import { cleanUpCache } from "@/cache";
 import { purgeLegacyScreenshots } from "@/cache";
@@ -6,17 +6,70 @@ import { purgeLegacyCache } from "@/cache";
 import { executeCommand } from "@/cli/utils/command-builder";
 import { ENV_LOCAL_FILENAME } from "@/constants";
 import { TestRunner } from "@/core/runner";
+import { normalizeTag } from "@/core/runner/test-filter";
 import { getConfig } from "@/index";
 import { initializeConfig } from "@/index";
 import { getLogger } from "@/log";
 import { LOG_LEVELS } from "@/log/config";
-import { CLIOptions, cliOptionsSchema } from "@/types/config";
+import {
+  CLIOptions,
+  cliOptionsSchema,
+  REPORTER_NAMES,
+  ReporterName,
+  reporterNameSchema,
+} from "@/types/config";
 import { getErrorDetails } from "@/utils/errors";
 import { ShortestError } from "@/utils/errors";
 
 export const SHORTEST_NAME = "shortest";
 const { version: currentVersion } = require("../../../package.json");
 
+const parseIntegerOption =
+  ({ min }: { min: number }) =>
+  (value: string) => {
+    const parsedValue = Number(value);
+    if (!Number.isInteger(parsedValue) || parsedValue < min) {
+      throw new InvalidArgumentError(`Must be an integer of at least ${min}.`);
+    }
+    return parsedValue;
+  };
+
+const parseReporterOption = (
+  value: string,
+  previous: ReporterName[] = [],
+): ReporterName[] => {
+  const reporters = value.split(",").map((name) => {
+    const result = reporterNameSchema.safeParse(name.trim());
+    if (!result.success) {
+      throw new InvalidArgumentError(
+        `Allowed choices are ${REPORTER_NAMES.join(", ")}.`,
+      );
+    }
+    return result.data;
+  });
+  return [...new Set([...previous, ...reporters])];
+};
+
+const parseRegExpOption = (value: string): RegExp => {
+  try {
+    return new RegExp(value);
+  } catch (error) {
+    throw new InvalidArgumentError(
+      `Invalid regular expression: ${(error as Error).message}`,
+    );
+  }
+};
+
+const parseTagOption = (value: string, previous: string[] = []): string[] => {
+  const tags = value.split(",").map((tag) => normalizeTag(tag));
+  if (tags.some((tag) => !tag || /\s/.test(tag))) {
+    throw new InvalidArgumentError(
+      "Tags must be non-empty and without spaces.",
+    );
+  }
+  return [...new Set([...previous, ...tags])];
+};
+
 export const shortestCommand = new Command(SHORTEST_NAME)
   .description(`${pc.cyan("AI-powered end-to-end testing framework")}`)
   .version(currentVersion)
@@ -52,6 +105,53 @@ shortestCommand
     cliOptionsSchema.shape.baseUrl._def.defaultValue(),
   )
   .option("--no-cache", "Disable test action caching")
+  .option(
+    "--replay-only",
+    "Replay tests from cache only, failing them instead of falling back to AI",
+  )
+  .option(
+    "--workers <n>",
+    "Number of test files to run in parallel",
+    parseIntegerOption({ min: 1 }),
+  )
+  .option(
+    "--retries <n>",
+    "Number of times to retry failed tests",
+    parseIntegerOption({ min: 0 }),
+  )
+  .option(
+    "--reporter <name>",
+    `Write a test report (${REPORTER_NAMES.join(", ")}), can be repeated or comma-separated`,
+    parseReporterOption,
+  )
+  .option(
+    "--forbid-only",
+    "Fail test files using shortest.only(), e.g. to keep focused tests out of CI",
+  )
+  .option(
+    "--record-transcripts",
+    "Record the AI conversations of tests, to replay them with the mock provider",
+  )
+  .option(
+    "--grep <regex>",
+    "Only run tests whose name or tags match the regular expression",
+    parseRegExpOption,
+  )
+  .option(
+    "--grep-invert <regex>",
+    "Skip tests whose name or tags match the regular expression",
+    parseRegExpOption,
+  )
+  .option(
+    "--tag <tag>",
+    "Only run tests with the tag, can be repeated or comma-separated",
+    parseTagOption,
+  )
+  .option(
+    "--exclude-tag <tag>",
+    "Skip tests with the tag, can be repeated or comma-separated",
+    parseTagOption,
+  )
   .argument(
     "[test-pattern]",
     "Test pattern to run",
@@ -85,6 +185,12 @@ const executeTestRunnerCommand = async (testPattern: string, options: any) => {
     baseUrl: options.target,
     testPattern,
     noCache: !options.cache,
+    workers: options.workers,
+    retries: options.retries,
+    reporters: options.reporter,
+    replayOnly: options.replayOnly,
+    forbidOnly: options.forbidOnly,
+    recordTranscripts: options.recordTranscripts,
   };
 
   log.trace("Initializing config with CLI options", { cliOptions });
@@ -98,7 +204,12 @@ const executeTestRunnerCommand = async (testPattern: string, options: any) => {
     log.trace("Initializing TestRunner");
     const runner = new TestRunner(process.cwd(), config);
     await runner.initialize();
-    const success = await runner.execute(config.testPattern, lineNumber);
+    const success = await runner.execute(config.testPattern, lineNumber, {
+      grep: options.grep,
+      grepInvert: options.grepInvert,
+      tags: options.tag,
+      excludeTags: options.excludeTag,
+    });
     process.exitCode = success ? 0 : 1;
   } catch (error: any) {
     log.trace("Handling error for TestRunner");
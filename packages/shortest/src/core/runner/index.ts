@@ -1,19 +1,40 @@
+import * as fs from "fs/promises";
+import path from "path";
 import { pathToFileURL } from "url";
 import { glob } from "glob";
-import { APIRequest, BrowserContext } from "playwright";
+import { APIRequest } from "playwright";
 import * as playwright from "playwright";
 import { request, APIRequestContext } from "playwright";
 import { z } from "zod";
+import { RunCostTracker } from "@/ai/budget";
 import { AIClient, AIClientResponse } from "@/ai/client";
+import { composeSystemPrompt } from "@/ai/prompts";
+import { RateLimiter } from "@/ai/rate-limiter";
+import {
+  describeFingerprint,
+  isSameElement,
+} from "@/browser/actions/fingerprint";
 import { BrowserTool } from "@/browser/core/browser-tool";
 import { BrowserManager } from "@/browser/manager";
 import { TestCompiler } from "@/core/compiler";
-import { TestCase } from "@/core/runner/test-case";
+import { getProjects, Project } from "@/core/runner/project";
+import { loadReporters, RunReporter } from "@/core/runner/run-reporter";
+import {
+  getStorageStatePath,
+  isStorageStateExpired,
+} from "@/core/runner/storage-state";
+import { getTestCaseTitle, TestCase, TestSkip } from "@/core/runner/test-case";
 import {
   EXPRESSION_PLACEHOLDER,
+  parseShortestDescribeBlocks,
   parseShortestTestFile,
+  TestLocation,
 } from "@/core/runner/test-file-parser";
-import { TestReporter } from "@/core/runner/test-reporter";
+import {
+  filterTests,
+  hasTestFilter,
+  TestFilter,
+} from "@/core/runner/test-filter";
 import { TestRun } from "@/core/runner/test-run";
 import { TestRunRepository } from "@/core/runner/test-run-repository";
 import { getLogger, Log } from "@/log";
@@ -22,50 +43,112 @@ import {
   InternalActionEnum,
   ShortestStrictConfig,
   TestFileContext,
+  TestFileHook,
+  TestGroup,
 } from "@/types";
-import { assertDefined } from "@/utils/assert";
+import { DEFAULT_VIEWPORT } from "@/types/browser";
+import { CacheStep } from "@/types/cache";
+import { createHash } from "@/utils/create-hash";
 import {
+  AIError,
   CacheError,
   getErrorDetails,
   ShortestError,
   asShortestError,
 } from "@/utils/errors";
-const testStatusSchema = z.enum(["pending", "running", "passed", "failed"]);
+const testStatusSchema = z.enum([
+  "pending",
+  "running",
+  "passed",
+  "failed",
+  "skipped",
+]);
 export type TestStatus = z.infer<typeof testStatusSchema>;
 
 export const FileResultSchema = z.object({
   filePath: z.string(),
+  project: z.string().optional(),
   status: testStatusSchema,
   reason: z.string(),
 });
 export type FileResult = z.infer<typeof FileResultSchema>;
 
+/**
+ * Tests and hooks registered by a test file when it is imported
+ */
+interface TestFileRegistration {
+  tests: TestCase[];
+  beforeAllFns: TestFileHook[];
+  afterAllFns: TestFileHook[];
+  beforeEachFns: TestFileHook[];
+  afterEachFns: TestFileHook[];
+  // AI instructions of the tests of the file
+  instructions: string[];
+  // Describe block of each test declared in one
+  testGroups: Map<TestCase, TestGroup>;
+  // Set when all tests of the file are skipped
+  skip?: TestSkip;
+}
+
+/**
+ * Returns a describe block and its enclosing blocks, from the outermost one
+ */
+const getGroupPath = (group?: TestGroup): TestGroup[] =>
+  group ? [...getGroupPath(group.parent), group] : [];
+
+const getForbiddenOnlyMessage = (focusedTests: TestCase[]): string =>
+  `shortest.only() is not allowed when 'forbidOnly' is enabled, found: ${focusedTests
+    .map((test) => `${getTestCaseTitle(test)} (${test.filePath})`)
+    .join(", ")}`;
+
 export class TestRunner {
   private config: ShortestStrictConfig;
   private cwd: string;
   private compiler: TestCompiler;
-  private browserManager!: BrowserManager;
-  private reporter: TestReporter;
-  private testContext: TestContext | null = null;
-  private testFileContext: TestFileContext | null = null;
+  private reporter!: RunReporter;
+  private runCostTracker = new RunCostTracker();
+  private rateLimiter: RateLimiter;
+  private testFileImportQueue: Promise<unknown> = Promise.resolve();
+  // Registrations of the imported test files, by path
+  private testFiles = new Map<string, Promise<TestFileRegistration>>();
+  // Set when a test file of the run has focused tests
+  private hasFocusedTests = false;
+  private filteredTestsCount: number = 0;
+  // Storage states of the setups, by name
+  private storageStatePaths = new Map<string, Promise<string>>();
   private log: Log;
 
   constructor(cwd: string, config: ShortestStrictConfig) {
     this.config = config;
     this.cwd = cwd;
+    this.rateLimiter = new RateLimiter(config.ai.rateLimit);
     this.compiler = new TestCompiler();
-    this.reporter = new TestReporter();
     this.log = getLogger();
   }
 
   async initialize() {
-    this.browserManager = new BrowserManager(this.config);
+    this.reporter = new RunReporter(
+      await loadReporters(this.config, this.cwd),
+      this.config.ai,
+    );
   }
 
-  async execute(testPattern: string, lineNumber?: number): Promise<boolean> {
+  /**
+   * Runs the tests of the files matching a pattern
+   *
+   * @param {string} testPattern - Glob pattern of the test files
+   * @param {number} [lineNumber] - Only run the test at this line
+   * @param {TestFilter} [testFilter] - Only run the tests matching these filters
+   * @returns {Promise<boolean>} Whether all tests passed
+   */
+  async execute(
+    testPattern: string,
+    lineNumber?: number,
+    testFilter: TestFilter = {},
+  ): Promise<boolean> {
     this.log.trace("Finding test files", { testPattern });
 
-    const files = await glob(testPattern, {
+    let files = await glob(testPattern, {
       cwd: this.cwd,
       absolute: true,
     });
@@ -82,18 +165,85 @@ export class TestRunner {
       return false;
     }
 
-    this.reporter.onRunStart(files.length);
-    for (const file of files) {
-      await this.executeTestFile(file, lineNumber);
+    // Focused tests of any file leave out the other tests of the run
+    const focusedTests = await this.findFocusedTests(files);
+    if (focusedTests.length > 0) {
+      if (this.config.forbidOnly) {
+        this.reporter.error(
+          "Test Discovery",
+          getForbiddenOnlyMessage(focusedTests),
+        );
+        return false;
+      }
+      // A line number selects the test to run regardless of focused tests
+      if (!lineNumber) {
+        this.hasFocusedTests = true;
+        files = files.filter((file) =>
+          focusedTests.some(
+            (test) => test.filePath === file.replace(this.cwd + "/", ""),
+          ),
+        );
+      }
+    }
+
+    const projects = getProjects(this.config);
+    // Each file runs once per project
+    await this.reporter.onRunStart(files.length * projects.length);
+    // Error of a failed worker, thrown once the run is summarized
+    let workerError: { reason: unknown } | undefined;
+    // Projects run one after another, so a file never runs concurrently
+    for (const project of projects) {
+      const pendingFiles = [...files];
+      const workersCount = Math.min(this.config.workers, files.length);
+      this.log.trace("Starting workers", {
+        project: project.name,
+        workersCount,
+      });
+      const results = await Promise.allSettled(
+        Array.from({ length: workersCount }, () =>
+          Log.runInGroupScope(async () => {
+            // Each worker owns an isolated browser
+            const browserManager = new BrowserManager(project.config);
+            let file: string | undefined;
+            while ((file = pendingFiles.shift())) {
+              try {
+                await this.executeTestFile(
+                  file,
+                  browserManager,
+                  project,
+                  lineNumber,
+                  testFilter,
+                );
+              } catch (error) {
+                // Stop the other workers from picking up further files
+                pendingFiles.length = 0;
+                throw error;
+              }
+            }
+          }),
+        ),
+      );
+      workerError = results.find((result) => result.status === "rejected");
+      if (workerError) break;
     }
-    this.reporter.onRunEnd();
+    await this.reporter.onRunEnd();
+    if (workerError) throw workerError.reason;
 
+    if (hasTestFilter(testFilter) && this.filteredTestsCount === 0) {
+      this.reporter.error(
+        "Test Discovery",
+        "No tests found matching the grep and tag filters",
+      );
+      return false;
+    }
     return this.reporter.allTestsPassed();
   }
 
   private async executeTest(
     testRun: TestRun,
-    context: BrowserContext,
+    browserManager: BrowserManager,
+    testFileContext: TestFileContext,
+    systemPrompt: string,
     skipCache: boolean = false,
   ): Promise<TestRun> {
     const testCase = testRun.testCase;
@@ -106,7 +256,7 @@ export class TestRunner {
     // If it's direct execution, skip AI
     if (testCase.directExecution) {
       try {
-        const testContext = await this.createTestContext(testRun);
+        const testContext = this.createTestContext(testRun, testFileContext);
         await testCase.fn?.(testContext);
         testRun.markPassed({ reason: "Direct execution successful" });
         return testRun;
@@ -119,10 +269,10 @@ export class TestRunner {
       }
     }
 
-    const testContext = await this.createTestContext(testRun);
-    const browserTool = new BrowserTool(testContext.page, this.browserManager, {
-      width: 1920,
-      height: 1080,
+    const testContext = this.createTestContext(testRun, testFileContext);
+    const browserTool = new BrowserTool(testContext.page, browserManager, {
+      width: testRun.viewport.width,
+      height: testRun.viewport.height,
       testContext: {
         ...testContext,
         testRun: testRun,
@@ -133,6 +283,10 @@ export class TestRunner {
     const initialState = await browserTool.execute({
       action: "screenshot",
     });
+    let pageState = initialState;
+    // Steps replayed from cache before the cached run diverged
+    let replayedSteps: CacheStep[] = [];
+    let cacheDivergence: string | undefined;
 
     if (this.config.caching.enabled && !skipCache) {
       try {
@@ -156,13 +310,37 @@ export class TestRunner {
         return testRun;
       } catch (error) {
         if (!(error instanceof CacheError)) throw error;
-        this.log.error(
-          "Cache execution interrupted, falling back to normal execution",
-          getErrorDetails(error),
-        );
-        const page = browserTool.getPage();
-        await page.goto(initialState.metadata?.window_info?.url!);
-        return await this.executeTest(testRun, context, true);
+        if (this.config.caching.replayOnly) {
+          this.log.error("Cache replay failed", getErrorDetails(error));
+          testRun.markFailed({ reason: `Replay failed: ${error.message}` });
+          return testRun;
+        }
+        replayedSteps = testRun.getSteps();
+        if (replayedSteps.length) {
+          this.log.info(
+            "Cache execution diverged, resuming with AI from the divergent step",
+            {
+              replayedStepCount: replayedSteps.length,
+              ...getErrorDetails(error),
+            },
+          );
+          cacheDivergence = error.message;
+          pageState = await browserTool.execute({ action: "screenshot" });
+        } else {
+          this.log.error(
+            "Cache execution interrupted, falling back to normal execution",
+            getErrorDetails(error),
+          );
+          const page = browserTool.getPage();
+          await page.goto(initialState.metadata?.window_info?.url!);
+          return await this.executeTest(
+            testRun,
+            browserManager,
+            testFileContext,
+            systemPrompt,
+            true,
+          );
+        }
       }
     } else {
       this.log.trace("Skipping cache", {
@@ -171,7 +349,8 @@ export class TestRunner {
       });
     }
 
-    if (testCase.beforeFn) {
+    // Resumed tests are already past their setup
+    if (testCase.beforeFn && !replayedSteps.length) {
       try {
         await testCase.beforeFn(testContext);
       } catch (error) {
@@ -204,14 +383,43 @@ export class TestRunner {
             ]
           : ["\nExpect:", `1. "${testCase.name}" expected to be successful`]),
 
+        // Resume from the step where the cached run diverged
+        ...(replayedSteps.length
+          ? [
+              "\nCompleted steps (replayed from a previous run, do not repeat them):",
+              ...replayedSteps.map(
+                (step, i) => `${i + 1}. ${JSON.stringify(step.action?.input)}`,
+              ),
+              `The previous run could not be replayed further: ${cacheDivergence}`,
+              "Continue the test from the current page state.",
+            ]
+          : []),
+
         "\nCurrent Page State:",
-        `URL: ${initialState.metadata?.window_info?.url || "unknown"}`,
-        `Title: ${initialState.metadata?.window_info?.title || "unknown"}`,
+        `URL: ${pageState.metadata?.window_info?.url || "unknown"}`,
+        `Title: ${pageState.metadata?.window_info?.title || "unknown"}`,
       ]
         .filter(Boolean)
         .join("\n");
-      const aiClient = new AIClient({ browserTool, testRun });
-      aiResponse = await aiClient.runAction(prompt);
+      const aiClient = new AIClient({
+        browserTool,
+        testRun,
+        systemPrompt,
+        runCostTracker: this.runCostTracker,
+        rateLimiter: this.rateLimiter,
+      });
+      try {
+        aiResponse = await aiClient.runAction(prompt);
+      } catch (error) {
+        if (!(error instanceof AIError && error.type === "budget-exceeded")) {
+          throw error;
+        }
+        testRun.markFailed({
+          reason: error.message,
+          tokenUsage: aiClient.tokenUsage,
+        });
+        return testRun;
+      }
     } finally {
       this.log.resetGroup();
     }
@@ -230,6 +438,7 @@ export class TestRunner {
                 ? error.message
                 : String(error),
           tokenUsage: aiResponse.metadata.usage,
+          expectations: aiResponse.response.expectations,
         });
         return testRun;
       }
@@ -239,12 +448,14 @@ export class TestRunner {
         testRun.markPassed({
           reason: aiResponse.response.reason,
           tokenUsage: aiResponse.metadata.usage,
+          expectations: aiResponse.response.expectations,
         });
         break;
       case "failed":
         testRun.markFailed({
           reason: aiResponse.response.reason,
           tokenUsage: aiResponse.metadata.usage,
+          expectations: aiResponse.response.expectations,
         });
         break;
       default:
@@ -267,7 +478,12 @@ export class TestRunner {
 
       const latestRun = await TestRunRepository.getRepositoryForTestCase(
         testRun.testCase,
-      ).getLatestPassedRun();
+      ).getLatestPassedRun({
+        promptHash: testRun.promptHash,
+        browserName: testRun.browserName,
+        viewport: testRun.viewport,
+        project: testRun.project ?? null,
+      });
       if (!latestRun) {
         throw new CacheError(
           "not-found",
@@ -292,34 +508,104 @@ export class TestRunner {
         throw new CacheError("invalid", "No eligible steps in cache");
       }
 
-      for (const step of filteredSteps) {
+      for (const [index, step] of filteredSteps.entries()) {
+        const stepLabel = `step ${index + 1}/${filteredSteps.length} (${step.action?.input.action})`;
         await new Promise((resolve) => setTimeout(resolve, 1000));
+        let input = step.action?.input;
+        const fingerprint = step.extras?.fingerprint;
+        let relocated = false;
+
+        // Re-locate the recorded element, as its position may have changed
+        if (input?.coordinate && fingerprint) {
+          const coordinate = await browserTool.locateElementByFingerprint(
+            fingerprint,
+            input.coordinate,
+          );
+          if (coordinate) {
+            this.log.trace("Relocated cached UI element", {
+              stepIndex: index,
+              recordedCoordinate: input.coordinate,
+              coordinate,
+            });
+            input = { ...input, coordinate };
+            relocated = true;
+          }
+        }
+
         if (
-          step.action?.input.action === InternalActionEnum.MOUSE_MOVE &&
-          step.action.input.coordinate
+          !relocated &&
+          input?.action === InternalActionEnum.MOUSE_MOVE &&
+          input.coordinate
         ) {
-          const [x, y] = step.action.input.coordinate;
+          const [x, y] = input.coordinate;
           const componentStr =
             await browserTool.getNormalizedComponentStringByCoords(x, y);
 
-          if (componentStr !== step.extras.componentStr) {
+          if (componentStr !== step.extras?.componentStr) {
             this.log.trace("UI element mismatch with cached UI element", {
+              stepIndex: index,
               componentStr,
-              stepComponentStr: step.extras.componentStr,
+              stepComponentStr: step.extras?.componentStr,
             });
-            throw new CacheError("invalid", "UI element mismatch");
+            throw new CacheError(
+              "mismatch",
+              [
+                `UI element mismatch at ${stepLabel}`,
+                `  Expected: ${step.extras?.componentStr}`,
+                `  Actual:   ${componentStr}`,
+              ].join("\n"),
+            );
+          }
+        } else if (!relocated && input?.coordinate && fingerprint) {
+          throw new CacheError(
+            "mismatch",
+            [
+              `UI element not found at ${stepLabel}`,
+              `  Expected: ${describeFingerprint(fingerprint)}`,
+              `  Actual:   no matching element`,
+            ].join("\n"),
+          );
+        }
+
+        if (input?.action === InternalActionEnum.TYPE && fingerprint) {
+          const focused = await browserTool.getFocusedElementFingerprint();
+          if (!isSameElement(fingerprint, focused)) {
+            throw new CacheError(
+              "mismatch",
+              [
+                `Focused element mismatch at ${stepLabel}`,
+                `  Expected: ${describeFingerprint(fingerprint)}`,
+                `  Actual:   ${describeFingerprint(focused)}`,
+              ].join("\n"),
+            );
           }
         }
 
-        if (step.action?.input) {
+        if (step.action && input) {
           try {
-            await browserTool.execute(step.action.input);
+            const result = await browserTool.execute(input);
+            // Kept as the common prefix when the AI resumes a diverged run
+            testRun.addStep({
+              ...step,
+              action: { ...step.action, input },
+              extras: result.metadata?.element_fingerprint
+                ? {
+                    ...step.extras,
+                    fingerprint: result.metadata.element_fingerprint,
+                  }
+                : step.extras,
+            });
           } catch (error) {
+            const errorDetails = getErrorDetails(error);
             this.log.error("Failed to execute cached step", {
-              input: step.action.input,
-              ...getErrorDetails(error),
+              stepIndex: index,
+              input,
+              ...errorDetails,
             });
-            throw new CacheError("invalid", "Error executing cached step");
+            throw new CacheError(
+              "invalid",
+              `Error executing cached ${stepLabel}: ${errorDetails.message}`,
+            );
           }
         }
       }
@@ -334,23 +620,40 @@ export class TestRunner {
     }
   }
 
-  private async executeTestFile(filePath: string, lineNumber?: number) {
-    const registry = (global as any).__shortest__.registry;
+  /**
+   * Runs the tests of a file in a browser of its own
+   *
+   * @returns {Promise<boolean>} Whether the file ran without failed tests
+   */
+  private async executeTestFile(
+    filePath: string,
+    browserManager: BrowserManager,
+    project: Project,
+    lineNumber?: number,
+    testFilter: TestFilter = {},
+  ): Promise<boolean> {
+    const filePathWithoutCwd = filePath.replace(this.cwd + "/", "");
     try {
       this.log.trace("Executing test file", { filePath, lineNumber });
-      registry.tests.clear();
-      registry.currentFileTests = [];
-      const filePathWithoutCwd = filePath.replace(this.cwd + "/", "");
-      registry.currentFilePath = filePathWithoutCwd;
-      const compiledPath = await this.compiler.compileFile(filePath);
+      const testFile = await this.importTestFile(filePath, filePathWithoutCwd);
+      let testsToRun = testFile.tests;
 
-      this.log.trace("Importing compiled file", { compiledPath });
-      await import(pathToFileURL(compiledPath).href);
-      let testsToRun = registry.currentFileTests;
+      const focusedTests = testFile.tests.filter((test) => test.only);
+      // Setup files are not part of the run, and only focus on their own tests
+      const isSetup = project.storageStatePath !== undefined;
+      if (isSetup && focusedTests.length > 0 && this.config.forbidOnly) {
+        throw new ShortestError(getForbiddenOnlyMessage(focusedTests));
+      }
+      if (
+        !lineNumber &&
+        (isSetup ? focusedTests.length > 0 : this.hasFocusedTests)
+      ) {
+        testsToRun = focusedTests;
+      }
 
       if (lineNumber) {
         testsToRun = await this.filterTestsByLineNumber(
-          registry.currentFileTests,
+          testFile.tests,
           filePath,
           lineNumber,
         );
@@ -364,59 +667,204 @@ export class TestRunner {
           );
         }
       }
+
+      if (hasTestFilter(testFilter)) {
+        testsToRun = filterTests(testsToRun, testFilter);
+        this.filteredTestsCount += testsToRun.length;
+        // Skipped before launching a browser, as no test of the file is run
+        if (testsToRun.length === 0) {
+          this.log.debug("No tests match the filters, skipping file", {
+            filePath: filePathWithoutCwd,
+          });
+          return true;
+        }
+      }
+
+      // Setups run before the file starts, so their output is not interleaved
+      const storageStatePaths = new Map<string, string>();
+      for (const testCase of testsToRun) {
+        const name = testCase.storageState;
+        if (!name || testCase.skip || testFile.skip) continue;
+        if (!storageStatePaths.has(name)) {
+          storageStatePaths.set(name, await this.getStorageState(name));
+        }
+      }
+
       let context;
       try {
         this.log.trace("Launching browser");
-        context = await this.browserManager.launch();
+        context = await browserManager.launch();
       } catch (error) {
         this.log.error("Browser launching failed", getErrorDetails(error));
         throw asShortestError(error);
       }
+      const viewport = context.pages()[0]?.viewportSize() ?? DEFAULT_VIEWPORT;
       this.log.trace("Creating test context");
-      const testContext = await this.createFileTestContext(context);
+      const testFileContext = this.createFileTestContext(browserManager);
 
+      let passed = true;
       try {
         // Execute beforeAll hooks with shared context
-        for (const hook of registry.beforeAllFns) {
-          await hook(testContext);
+        for (const hook of testFile.beforeAllFns) {
+          await hook(testFileContext);
         }
 
-        this.reporter.onFileStart(filePathWithoutCwd, testsToRun.length);
+        await this.reporter.onFileStart(
+          filePathWithoutCwd,
+          testsToRun.length,
+          project.name,
+        );
+
+        // Describe blocks whose beforeAll hooks ran, from the outermost one
+        let enteredGroups: TestGroup[] = [];
+        const leaveGroups = async (groups: TestGroup[]) => {
+          while (
+            enteredGroups.length > 0 &&
+            groups[enteredGroups.length - 1] !== enteredGroups.at(-1)
+          ) {
+            for (const hook of enteredGroups.pop()!.afterAllFns) {
+              await hook(testFileContext);
+            }
+          }
+        };
 
         // Execute tests in order they were defined
         this.log.info(`Running ${testsToRun.length} test(s)`);
         for (const testCase of testsToRun) {
-          // Execute beforeEach hooks with shared context
-          for (const hook of registry.beforeEachFns) {
-            await hook(testContext);
-          }
+          const groups = getGroupPath(testFile.testGroups.get(testCase));
+          await leaveGroups(groups);
 
-          this.reporter.onTestStart(testCase);
-          const testRun = TestRun.create(testCase);
-          try {
-            testRun.markRunning();
-            await this.executeTest(testRun, context);
-          } catch (error) {
-            this.log.error(
-              "Handling error for executeTest",
-              getErrorDetails(error),
-            );
-            throw error;
+          const skip =
+            testCase.skip ??
+            [...groups].reverse().find((group) => group.skip)?.skip ??
+            testFile.skip;
+          if (skip) {
+            await this.reporter.onTestStart(testCase);
+            const testRun = TestRun.create(testCase, {
+              browserName: browserManager.browserName,
+              viewport,
+              project: project.name,
+            });
+            testRun.markSkipped({
+              reason:
+                skip.type === "fixme"
+                  ? ["fixme", skip.reason].filter(Boolean).join(": ")
+                  : skip.reason,
+            });
+            // Not saved, so the cached runs of the test are kept
+            await this.reporter.onTestEnd(testRun);
+            continue;
           }
-          this.reporter.onTestEnd(testRun);
 
-          for (const hook of registry.afterEachFns) {
-            await hook(testContext);
+          for (const group of groups.slice(enteredGroups.length)) {
+            for (const hook of group.beforeAllFns) {
+              await hook(testFileContext);
+            }
+            enteredGroups = [...enteredGroups, group];
           }
+          const beforeEachFns = [
+            ...testFile.beforeEachFns,
+            ...groups.flatMap((group) => group.beforeEachFns),
+          ];
+          const afterEachFns = [
+            ...[...groups].reverse().flatMap((group) => group.afterEachFns),
+            ...testFile.afterEachFns,
+          ];
 
-          await TestRunRepository.getRepositoryForTestCase(testCase).saveRun(
-            testRun,
-          );
+          const systemPrompt = composeSystemPrompt({
+            agentMode: this.config.ai.agentMode,
+            systemPromptAppend: this.config.ai.systemPromptAppend,
+            instructions: [
+              ...(this.config.ai.instructions ?? []),
+              ...testFile.instructions,
+              ...groups.flatMap((group) => group.instructions),
+              ...(testCase.instructions ?? []),
+            ],
+          });
+          const promptHash = createHash(systemPrompt, { length: 8 });
+
+          const retries = testCase.retries ?? this.config.retries;
+          // Each attempt is saved as a separate test run
+          const attemptRunIds: string[] = [];
+          for (let attempt = 1; ; attempt++) {
+            const testRun = TestRun.create(testCase, {
+              attempt,
+              promptHash,
+              browserName: browserManager.browserName,
+              viewport,
+              project: project.name,
+            });
+            // Started first, as it may replace the context
+            await browserManager.startRecording(
+              TestRunRepository.getRepositoryForTestCase(
+                testCase,
+              ).getRecordingDirPath(testRun),
+            );
+            await browserManager.useStorageState(
+              testCase.storageState &&
+                storageStatePaths.get(testCase.storageState),
+            );
+
+            // Execute beforeEach hooks with shared context
+            for (const hook of beforeEachFns) {
+              await hook(testFileContext);
+            }
+
+            if (attempt === 1) {
+              await this.reporter.onTestStart(testCase);
+            }
+            try {
+              testRun.markRunning();
+              await this.executeTest(
+                testRun,
+                browserManager,
+                testFileContext,
+                systemPrompt,
+              );
+            } catch (error) {
+              this.log.error(
+                "Handling error for executeTest",
+                getErrorDetails(error),
+              );
+              throw error;
+            }
+            testRun.artifacts = await browserManager.stopRecording(
+              testRun.status === "failed",
+            );
+            const shouldRetry =
+              testRun.status === "failed" && attempt <= retries;
+            if (shouldRetry) {
+              await this.reporter.onTestRetry(testRun);
+            } else {
+              await this.reporter.onTestEnd(testRun);
+            }
+
+            for (const hook of afterEachFns) {
+              await hook(testFileContext);
+            }
+
+            await TestRunRepository.getRepositoryForTestCase(testCase).saveRun(
+              testRun,
+            );
+            attemptRunIds.push(testRun.runId);
+
+            if (!shouldRetry) {
+              if (testRun.status === "failed") passed = false;
+              break;
+            }
+
+            this.log.debug("Retrying failed test in a new context", {
+              name: testCase.name,
+              attempt,
+              retries,
+            });
+            await browserManager.recreateContext();
+          }
 
           try {
             await TestRunRepository.getRepositoryForTestCase(
               testCase,
-            ).applyRetentionPolicy();
+            ).applyRetentionPolicy({ keptRunIds: attemptRunIds });
           } catch (error) {
             this.log.error(
               "Failed to apply retention policy",
@@ -425,38 +873,188 @@ export class TestRunner {
           }
         }
 
-        for (const hook of registry.afterAllFns) {
-          await hook(testContext);
+        await leaveGroups([]);
+        for (const hook of testFile.afterAllFns) {
+          await hook(testFileContext);
+        }
+
+        if (project.storageStatePath && passed) {
+          await browserManager
+            .getContext()!
+            .storageState({ path: project.storageStatePath });
         }
       } finally {
-        await this.browserManager.close();
-        this.testContext = null; // Reset the context
-        registry.beforeAllFns = [];
-        registry.afterAllFns = [];
-        registry.beforeEachFns = [];
-        registry.afterEachFns = [];
+        await browserManager.close();
         const fileResult: FileResult = {
-          filePath,
+          filePath: filePathWithoutCwd,
+          project: project.name,
           status: "passed",
           reason: "",
         };
-        this.reporter.onFileEnd(fileResult);
+        await this.reporter.onFileEnd(fileResult);
       }
+      return passed;
     } catch (error) {
       this.log.trace("Handling error for executeTestFile");
       if (!(error instanceof ShortestError)) throw error;
       const fileResult: FileResult = {
-        filePath,
+        filePath: filePathWithoutCwd,
+        project: project.name,
         status: "failed",
         reason: error.message,
       };
-      this.reporter.onFileEnd(fileResult);
-    } finally {
-      registry.currentFilePath = "";
-      this.testContext = null;
+      await this.reporter.onFileEnd(fileResult);
+      return false;
+    }
+  }
+
+  /**
+   * Returns the path of the storage state saved by a setup of the config.
+   * Each setup runs at most once per run, when its saved state is missing or
+   * expired, the tests of all workers waiting for it.
+   *
+   * @param {string} name - Name of the setup
+   * @returns {Promise<string>} Path of the storage state
+   */
+  private getStorageState(name: string): Promise<string> {
+    let storageStatePath = this.storageStatePaths.get(name);
+    if (!storageStatePath) {
+      storageStatePath = this.runSetup(name);
+      this.storageStatePaths.set(name, storageStatePath);
+    }
+    return storageStatePath;
+  }
+
+  private async runSetup(name: string): Promise<string> {
+    const setup = this.config.setup?.find((setup) => setup.name === name);
+    if (!setup) {
+      throw new ShortestError(
+        `No setup named "${name}" in the config, used by use.storageState`,
+      );
+    }
+
+    const storageStatePath = getStorageStatePath(name);
+    if (
+      !(await isStorageStateExpired(storageStatePath, { maxAge: setup.maxAge }))
+    ) {
+      this.log.debug("Reusing saved storage state", { name, storageStatePath });
+      return storageStatePath;
+    }
+
+    this.log.info(`Running setup "${name}"`);
+    await fs.mkdir(path.dirname(storageStatePath), { recursive: true });
+    const browserManager = new BrowserManager(this.config);
+    if (setup.fn) {
+      try {
+        const context = await browserManager.launch();
+        await setup.fn(this.createFileTestContext(browserManager));
+        await context.storageState({ path: storageStatePath });
+      } catch (error) {
+        throw new ShortestError(
+          `Setup "${name}" failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      } finally {
+        await browserManager.close();
+      }
+    } else {
+      const passed = await this.executeTestFile(
+        path.resolve(this.cwd, setup.file!),
+        browserManager,
+        {
+          name: `${name} setup`,
+          config: this.config,
+          storageStatePath,
+        },
+      );
+      if (!passed) {
+        throw new ShortestError(
+          `Setup "${name}" failed, see the results of ${setup.file}`,
+        );
+      }
     }
+    return storageStatePath;
   }
 
+  /**
+   * Imports the test files of the run before any of them runs
+   *
+   * @param {string[]} files - Paths of the test files
+   * @returns {Promise<TestCase[]>} Tests focused with `shortest.only()`
+   */
+  private async findFocusedTests(files: string[]): Promise<TestCase[]> {
+    const focusedTests: TestCase[] = [];
+    for (const file of files) {
+      try {
+        const testFile = await this.importTestFile(
+          file,
+          file.replace(this.cwd + "/", ""),
+        );
+        focusedTests.push(...testFile.tests.filter((test) => test.only));
+      } catch {
+        // Reported when the file runs
+      }
+    }
+    return focusedTests;
+  }
+
+  /**
+   * Compiles and imports a test file once, collecting the tests and hooks it
+   * registers. Files are imported one at a time, as registration goes through
+   * the global registry shared by all workers.
+   */
+  private async importTestFile(
+    filePath: string,
+    filePathWithoutCwd: string,
+  ): Promise<TestFileRegistration> {
+    const importFile = async (): Promise<TestFileRegistration> => {
+      const registry = (global as any).__shortest__.registry;
+      registry.tests.clear();
+      registry.currentFileTests = [];
+      registry.currentFilePath = filePathWithoutCwd;
+      registry.currentGroup = undefined;
+      registry.testGroups = new Map();
+      registry.skip = undefined;
+      try {
+        const compiledPath = await this.compiler.compileFile(filePath);
+
+        this.log.trace("Importing compiled file", { compiledPath });
+        await import(pathToFileURL(compiledPath).href);
+        return {
+          tests: registry.currentFileTests,
+          beforeAllFns: registry.beforeAllFns,
+          afterAllFns: registry.afterAllFns,
+          beforeEachFns: registry.beforeEachFns,
+          afterEachFns: registry.afterEachFns,
+          instructions: registry.instructions,
+          testGroups: registry.testGroups,
+          skip: registry.skip,
+        };
+      } finally {
+        registry.currentFilePath = "";
+        registry.beforeAllFns = [];
+        registry.afterAllFns = [];
+        registry.beforeEachFns = [];
+        registry.afterEachFns = [];
+        registry.instructions = [];
+        registry.currentGroup = undefined;
+        registry.skip = undefined;
+      }
+    };
+
+    let registration = this.testFiles.get(filePath);
+    if (!registration) {
+      registration = this.testFileImportQueue.then(importFile, importFile);
+      this.testFileImportQueue = registration.catch(() => {});
+      this.testFiles.set(filePath, registration);
+    }
+    return registration;
+  }
+
+  /**
+   * Selects the tests at a line of a test file. When the line is inside a
+   * describe block but outside of its tests, all tests of the innermost
+   * enclosing block are selected.
+   */
   private async filterTestsByLineNumber(
     tests: TestCase[],
     file: string,
@@ -465,17 +1063,28 @@ export class TestRunner {
     const testLocations = parseShortestTestFile(file);
     const escapeRegex = (str: string) =>
       str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const isLineInRange = (location: { startLine: number; endLine: number }) =>
+      lineNumber >= location.startLine && lineNumber <= location.endLine;
+
+    const findTestLocation = (test: TestCase) => {
+      const testTitleNormalized = getTestCaseTitle({
+        ...test,
+        name: test.name.trim(),
+      });
+      const getLocationTitle = (location: TestLocation) =>
+        getTestCaseTitle({
+          name: location.testName,
+          describePath: location.describePath,
+        });
 
-    const filteredTests = tests.filter((test) => {
-      const testNameNormalized = test.name.trim();
       let testLocation = testLocations.find(
-        (location) => location.testName === testNameNormalized,
+        (location) => getLocationTitle(location) === testTitleNormalized,
       );
 
       if (!testLocation) {
         testLocation = testLocations.find((location) => {
           const TEMP_TOKEN = "##PLACEHOLDER##";
-          let pattern = location.testName.replace(
+          let pattern = getLocationTitle(location).replace(
             new RegExp(escapeRegex(EXPRESSION_PLACEHOLDER), "g"),
             TEMP_TOKEN,
           );
@@ -484,62 +1093,80 @@ export class TestRunner {
           pattern = pattern.replace(new RegExp(TEMP_TOKEN, "g"), ".*");
           const regex = new RegExp(`^${pattern}$`);
 
-          return regex.test(testNameNormalized);
+          return regex.test(testTitleNormalized);
         });
       }
+      return testLocation;
+    };
 
-      if (!testLocation) {
-        return false;
-      }
+    const locatedTests = tests.map((test) => ({
+      test,
+      location: findTestLocation(test),
+    }));
 
-      const isInRange =
-        lineNumber >= testLocation.startLine &&
-        lineNumber <= testLocation.endLine;
-      return isInRange;
-    });
+    const testsAtLine = locatedTests.filter(
+      ({ location }) => location && isLineInRange(location),
+    );
+    if (testsAtLine.length > 0) {
+      return testsAtLine.map(({ test }) => test);
+    }
 
-    return filteredTests;
+    const [describeBlock] = parseShortestDescribeBlocks(file)
+      .filter(isLineInRange)
+      .sort((a, b) => a.endLine - a.startLine - (b.endLine - b.startLine));
+    if (!describeBlock) {
+      return [];
+    }
+    return locatedTests
+      .filter(
+        ({ location }) =>
+          location &&
+          location.startLine >= describeBlock.startLine &&
+          location.endLine <= describeBlock.endLine,
+      )
+      .map(({ test }) => test);
   }
 
-  private async createFileTestContext(
-    context: BrowserContext,
-  ): Promise<TestFileContext> {
-    if (!this.testFileContext) {
-      // Create a properly typed Playwright object
-      const playwrightObj = {
-        ...playwright,
-        request: {
-          ...request,
-          newContext: async (options?: {
-            extraHTTPHeaders?: Record<string, string>;
-          }) => {
-            const requestContext = await request.newContext({
-              baseURL: this.config.baseUrl,
-              ...options,
-            });
-            return requestContext;
-          },
+  private createFileTestContext(
+    browserManager: BrowserManager,
+  ): TestFileContext {
+    // Create a properly typed Playwright object
+    const playwrightObj = {
+      ...playwright,
+      request: {
+        ...request,
+        newContext: async (options?: {
+          extraHTTPHeaders?: Record<string, string>;
+        }) => {
+          const requestContext = await request.newContext({
+            baseURL: this.config.baseUrl,
+            ...options,
+          });
+          return requestContext;
         },
-      } as typeof playwright & {
-        request: APIRequest & {
-          newContext: (options?: {
-            extraHTTPHeaders?: Record<string, string>;
-          }) => Promise<APIRequestContext>;
-        };
+      },
+    } as typeof playwright & {
+      request: APIRequest & {
+        newContext: (options?: {
+          extraHTTPHeaders?: Record<string, string>;
+        }) => Promise<APIRequestContext>;
       };
+    };
 
-      this.testFileContext = {
-        page: context.pages()[0],
-        browser: this.browserManager.getBrowser()!,
-        playwright: playwrightObj,
-      };
-    }
-    return this.testFileContext;
+    return {
+      // Looked up on access, as recording videos replaces the context
+      get page() {
+        return browserManager.getContext()!.pages()[0];
+      },
+      browser: browserManager.getBrowser()!,
+      playwright: playwrightObj,
+    };
   }
 
-  private async createTestContext(testRun: TestRun): Promise<TestContext> {
-    if (this.testContext) return this.testContext;
-
-    return { ...assertDefined(this.testFileContext), testRun };
+  private createTestContext(
+    testRun: TestRun,
+    testFileContext: TestFileContext,
+  ): TestContext {
+    return { ...testFileContext, testRun };
   }
 }
@@ -0,0 +1,43 @@
+import { ShortestStrictConfig } from "@/types/config";
+
+/**
+ * Tests of a run sharing the same browser options
+ *
+ * @private
+ */
+export interface Project {
+  // Undefined when the config has no `projects`
+  name?: string;
+  config: ShortestStrictConfig;
+  // Set for the setup of a storage state, saved there once all tests passed
+  storageStatePath?: string;
+}
+
+/**
+ * Resolves the projects of a run, merging the browser options of each
+ * project into the top-level ones. Without `projects`, all tests run once
+ * with the top-level options.
+ *
+ * @param {ShortestStrictConfig} config - Config of the run
+ * @returns {Project[]} Projects, in config order
+ *
+ * @private
+ */
+export const getProjects = (config: ShortestStrictConfig): Project[] => {
+  if (!config.projects?.length) return [{ config }];
+
+  return config.projects.map((project) => ({
+    name: project.name,
+    config: {
+      ...config,
+      browser: {
+        ...config.browser,
+        ...project.browser,
+        contextOptions: {
+          ...config.browser.contextOptions,
+          ...project.browser?.contextOptions,
+        },
+      },
+    },
+  }));
+};
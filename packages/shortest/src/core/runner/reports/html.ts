@@ -0,0 +1,168 @@
+import * as fs from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import {
+  FileReport,
+  RunReport,
+  summarizeRunReport,
+  TestReport,
+} from "@/core/runner/reports/report";
+import { getTestCaseTitle } from "@/core/runner/test-case";
+import { getLogger } from "@/log";
+import { CacheStep } from "@/types/cache";
+import { getErrorDetails } from "@/utils/errors";
+
+/**
+ * Screenshots of each test as data URIs
+ */
+// eslint-disable-next-line zod/require-zod-schema-types
+export type TestScreenshots = Map<TestReport, string[]>;
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+  h1 { font-size: 1.5rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; }
+  .summary span { margin-right: 1rem; }
+  .passed { color: #1a7f37; }
+  .failed { color: #cf222e; }
+  .flaky { color: #9a6700; }
+  .skipped { color: #656d76; }
+  .muted { color: #656d76; }
+  details { border: 1px solid #d0d7de; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 1rem; }
+  summary { cursor: pointer; }
+  ol { padding-left: 1.5rem; }
+  li { margin: 0.25rem 0; }
+  pre { white-space: pre-wrap; margin: 0; }
+  img { max-width: 480px; border: 1px solid #d0d7de; margin: 0.5rem 0.5rem 0 0; }
+`;
+
+/**
+ * Renders a run report as a self-contained HTML page, with the screenshots
+ * of each test embedded as data URIs
+ *
+ * @param {RunReport} report - Run report
+ * @param {TestScreenshots} [screenshots] - Screenshots read when the tests ended, the others being read from their paths
+ * @returns {Promise<string>} HTML document
+ *
+ * @private
+ */
+export const renderHtmlReport = async (
+  report: RunReport,
+  screenshots: TestScreenshots = new Map(),
+): Promise<string> => {
+  const summary = summarizeRunReport(report);
+  const files = await Promise.all(
+    report.files.map((file) => renderFile(file, screenshots)),
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Shortest test report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Shortest test report</h1>
+<p class="summary">
+  <span class="failed">${summary.failed} failed</span>
+  <span class="flaky">${summary.flaky} flaky</span>
+  <span class="passed">${summary.passed} passed</span>
+  <span class="skipped">${summary.skipped} skipped</span>
+  <span class="muted">${summary.tests} tests in ${summary.files} files</span>
+  <span class="muted">${(report.duration / 1000).toFixed(2)}s</span>
+  <span class="muted">${summary.totalTokens.toLocaleString()} tokens (≈ $${summary.cost.toFixed(2)})</span>
+  <span class="muted">Started at ${new Date(report.startedAt).toISOString()}</span>
+</p>
+${files.join("\n")}
+</body>
+</html>
+`;
+};
+
+/**
+ * Reads the screenshots of a test as data URIs
+ *
+ * @param {TestReport} test - Test report
+ * @returns {Promise<string[]>} Data URIs of the screenshots that could be read
+ *
+ * @private
+ */
+export const readScreenshots = async (test: TestReport): Promise<string[]> => {
+  const dataUris: string[] = [];
+  for (const screenshotPath of test.screenshots) {
+    try {
+      const buffer = await fs.readFile(screenshotPath);
+      // Screenshots are captured as JPEG regardless of their file extension
+      dataUris.push(`data:image/jpeg;base64,${buffer.toString("base64")}`);
+    } catch (error) {
+      getLogger().error("Failed to read screenshot", {
+        screenshotPath,
+        ...getErrorDetails(error),
+      });
+    }
+  }
+  return dataUris;
+};
+
+const renderFile = async (
+  file: FileReport,
+  screenshots: TestScreenshots,
+): Promise<string> => {
+  const tests = await Promise.all(
+    file.tests.map(async (test) =>
+      renderTest(test, screenshots.get(test) ?? (await readScreenshots(test))),
+    ),
+  );
+  const error =
+    file.status === "failed" && file.reason
+      ? `<p class="failed">Error processing file: ${escapeHtml(file.reason)}</p>`
+      : "";
+  const project = file.project
+    ? ` <span class="muted">[${escapeHtml(file.project)}]</span>`
+    : "";
+  return `<h2>${escapeHtml(file.filePath)}${project}</h2>\n${error}\n${tests.join("\n")}`;
+};
+
+const renderTest = (test: TestReport, screenshots: string[]): string => {
+  const status = test.flaky ? "flaky" : test.status;
+  const attempt = test.attempt > 1 ? `, attempt ${test.attempt}` : "";
+
+  return `<details${test.status === "failed" ? " open" : ""}>
+<summary><span class="${status}">${status}</span> ${escapeHtml(getTestCaseTitle(test))}
+<span class="muted">(${test.browser}, ${(test.duration / 1000).toFixed(2)}s, ${test.tokenUsage.totalTokens.toLocaleString()} tokens, ≈ $${test.cost.toFixed(2)}${attempt})</span></summary>
+${test.reason ? `<pre>${escapeHtml(test.reason)}</pre>` : ""}
+${test.steps.length ? `<ol>${test.steps.map(renderStep).join("")}</ol>` : ""}
+${screenshots.map((dataUri) => `<img src="${dataUri}" alt="Screenshot">`).join("")}
+${renderArtifacts(test)}
+</details>`;
+};
+
+const renderArtifacts = (test: TestReport): string => {
+  const links = Object.entries(test.artifacts).map(
+    ([name, artifactPath]) =>
+      `<a href="${escapeHtml(pathToFileURL(path.resolve(artifactPath)).href)}">${name}</a>`,
+  );
+  return links.length
+    ? `<p class="muted">Recorded: ${links.join(", ")}</p>`
+    : "";
+};
+
+const renderStep = (step: CacheStep): string => {
+  const action = step.action
+    ? `<strong>${escapeHtml(step.action.name)}</strong> <code>${escapeHtml(JSON.stringify(step.action.input))}</code>`
+    : "<strong>no action</strong>";
+  const reasoning = step.reasoning
+    ? `<div class="muted">${escapeHtml(step.reasoning)}</div>`
+    : "";
+  const result = step.result ? `<pre>${escapeHtml(step.result)}</pre>` : "";
+  return `<li>${action}${reasoning}${result}</li>`;
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
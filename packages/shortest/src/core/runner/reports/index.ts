@@ -0,0 +1,103 @@
+import * as fs from "fs/promises";
+import path from "path";
+import pc from "picocolors";
+import { DOT_SHORTEST_DIR_PATH } from "@/cache";
+import {
+  readScreenshots,
+  renderHtmlReport,
+  TestScreenshots,
+} from "@/core/runner/reports/html";
+import { renderJsonReport } from "@/core/runner/reports/json";
+import { renderJUnitReport } from "@/core/runner/reports/junit";
+import { RunReport, TestReport } from "@/core/runner/reports/report";
+import { getReporterLog } from "@/core/runner/test-reporter";
+import { getLogger } from "@/log";
+import { ReporterName } from "@/types/config";
+import { Reporter } from "@/types/reporter";
+
+export * from "@/core/runner/reports/report";
+
+export const REPORTS_DIR_PATH = path.join(DOT_SHORTEST_DIR_PATH, "reports");
+
+const REPORT_FILE_NAMES: Record<ReporterName, string> = {
+  junit: "junit.xml",
+  json: "report.json",
+  html: "report.html",
+};
+
+const REPORT_RENDERERS: Record<
+  ReporterName,
+  (report: RunReport, screenshots: TestScreenshots) => string | Promise<string>
+> = {
+  junit: renderJUnitReport,
+  json: renderJsonReport,
+  html: renderHtmlReport,
+};
+
+/**
+ * Writes a run report in each of the given formats
+ *
+ * @param {RunReport} report - Run report
+ * @param {ReporterName[]} reporters - Report formats to write
+ * @param {string} [dirPath] - Directory the reports are written to
+ * @param {TestScreenshots} [screenshots] - Screenshots read when the tests ended
+ * @returns {Promise<string[]>} Paths of the written reports
+ *
+ * @private
+ */
+export const writeReports = async (
+  report: RunReport,
+  reporters: ReporterName[],
+  dirPath: string = REPORTS_DIR_PATH,
+  screenshots: TestScreenshots = new Map(),
+): Promise<string[]> => {
+  const log = getLogger();
+  if (!reporters.length) return [];
+
+  await fs.mkdir(dirPath, { recursive: true });
+  return Promise.all(
+    reporters.map(async (reporter) => {
+      const reportPath = path.join(dirPath, REPORT_FILE_NAMES[reporter]);
+      await fs.writeFile(
+        reportPath,
+        await REPORT_RENDERERS[reporter](report, screenshots),
+      );
+      log.trace("Report written", { reporter, reportPath });
+      return reportPath;
+    }),
+  );
+};
+
+/**
+ * Built-in reporter writing the run report to a file once the run ends
+ */
+export class ReportFileReporter implements Reporter {
+  private name: ReporterName;
+  private dirPath: string;
+  // Read when each test ends, as the retention policy may delete the test run
+  // directories holding them before the run ends
+  private screenshots: TestScreenshots = new Map();
+
+  constructor(name: ReporterName, dirPath: string = REPORTS_DIR_PATH) {
+    this.name = name;
+    this.dirPath = dirPath;
+  }
+
+  async onTestEnd(test: TestReport) {
+    if (this.name !== "html") return;
+    this.screenshots.set(test, await readScreenshots(test));
+  }
+
+  async onRunEnd(report: RunReport) {
+    const [reportPath] = await writeReports(
+      report,
+      [this.name],
+      this.dirPath,
+      this.screenshots,
+    );
+    getReporterLog().info(
+      pc.dim("Report written to"),
+      path.relative(process.cwd(), reportPath),
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { RunReport, summarizeRunReport } from "@/core/runner/reports/report";
+
+/**
+ * Renders a run report as JSON, with a summary of the run followed by the
+ * report of each test file
+ *
+ * @param {RunReport} report - Run report
+ * @returns {string} JSON document
+ *
+ * @private
+ */
+export const renderJsonReport = (report: RunReport): string =>
+  JSON.stringify(
+    {
+      startedAt: new Date(report.startedAt).toISOString(),
+      duration: report.duration,
+      summary: summarizeRunReport(report),
+      files: report.files,
+    },
+    null,
+    2,
+  );
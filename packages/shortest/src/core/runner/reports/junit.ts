@@ -0,0 +1,148 @@
+import {
+  FileReport,
+  RunReport,
+  summarizeRunReport,
+  TestReport,
+} from "@/core/runner/reports/report";
+import { getTestCaseTitle } from "@/core/runner/test-case";
+import { CacheStep } from "@/types/cache";
+
+/**
+ * Renders a run report in the JUnit XML format understood by most CI systems.
+ * Test files map to test suites, and AI steps and screenshots are written to
+ * the system output of each test case.
+ *
+ * @param {RunReport} report - Run report
+ * @returns {string} JUnit XML document
+ *
+ * @private
+ */
+export const renderJUnitReport = (report: RunReport): string => {
+  const summary = summarizeRunReport(report);
+  const fileErrorsCount = report.files.filter(isFileError).length;
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites ${attributes({
+      name: "shortest",
+      tests: summary.tests + fileErrorsCount,
+      failures: summary.failed,
+      errors: fileErrorsCount,
+      skipped: summary.skipped,
+      time: toSeconds(report.duration),
+      timestamp: new Date(report.startedAt).toISOString(),
+    })}>`,
+    ...report.files.map(renderTestSuite),
+    `</testsuites>`,
+    "",
+  ].join("\n");
+};
+
+const renderTestSuite = (file: FileReport): string => {
+  const testCases = file.tests.map(renderTestCase);
+  if (isFileError(file)) {
+    testCases.push(
+      [
+        `    <testcase ${attributes({ name: file.filePath, classname: file.filePath })}>`,
+        `      <error ${attributes({ message: file.reason ?? "" })}/>`,
+        `    </testcase>`,
+      ].join("\n"),
+    );
+  }
+
+  return [
+    `  <testsuite ${attributes({
+      name: file.project ? `${file.filePath} [${file.project}]` : file.filePath,
+      tests: testCases.length,
+      failures: file.tests.filter((test) => test.status === "failed").length,
+      errors: isFileError(file) ? 1 : 0,
+      skipped: file.tests.filter((test) => test.status === "skipped").length,
+      time: toSeconds(
+        file.tests.reduce((total, test) => total + test.duration, 0),
+      ),
+    })}>`,
+    ...testCases,
+    `  </testsuite>`,
+  ].join("\n");
+};
+
+const renderTestCase = (test: TestReport): string => {
+  const lines = [
+    `    <testcase ${attributes({
+      name: getTestCaseTitle(test),
+      classname: test.filePath,
+      time: toSeconds(test.duration),
+    })}>`,
+    `      <properties>`,
+    ...Object.entries({
+      ...(test.project && { project: test.project }),
+      browser: test.browser,
+      status: test.status,
+      attempt: test.attempt,
+      flaky: test.flaky,
+      promptTokens: test.tokenUsage.promptTokens,
+      completionTokens: test.tokenUsage.completionTokens,
+      totalTokens: test.tokenUsage.totalTokens,
+      cost: test.cost.toFixed(3),
+    }).map(
+      ([name, value]) => `        <property ${attributes({ name, value })}/>`,
+    ),
+    `      </properties>`,
+  ];
+
+  if (test.status === "failed") {
+    lines.push(
+      `      <failure ${attributes({ message: test.reason ?? "", type: "AssertionError" })}>${escapeXml(test.reason ?? "")}</failure>`,
+    );
+  }
+  if (test.status === "skipped") {
+    lines.push(
+      `      <skipped ${attributes({ message: test.reason ?? "" })}/>`,
+    );
+  }
+
+  const output = [
+    ...(test.reason ? [`Reason: ${test.reason}`] : []),
+    ...test.steps.map(formatStep),
+    // Attachment syntax picked up by Jenkins and GitLab
+    ...[...test.screenshots, ...Object.values(test.artifacts)].map(
+      (attachment) => `[[ATTACHMENT|${attachment}]]`,
+    ),
+  ];
+  if (output.length) {
+    lines.push(
+      `      <system-out>${escapeXml(output.join("\n"))}</system-out>`,
+    );
+  }
+
+  lines.push(`    </testcase>`);
+  return lines.join("\n");
+};
+
+const formatStep = (step: CacheStep, index: number): string => {
+  const action = step.action
+    ? `${step.action.name} ${JSON.stringify(step.action.input)}`
+    : "no action";
+  return `${index + 1}. ${action}${step.result ? ` => ${step.result}` : ""}`;
+};
+
+// Files that failed outside of their tests, e.g. in a hook or when compiling
+const isFileError = (file: FileReport): boolean => file.status === "failed";
+
+const toSeconds = (milliseconds: number): string =>
+  (milliseconds / 1000).toFixed(3);
+
+const attributes = (values: Record<string, string | number | boolean>) =>
+  Object.entries(values)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(" ");
+
+const escapeXml = (value: string): string =>
+  value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
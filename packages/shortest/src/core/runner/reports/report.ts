@@ -0,0 +1,185 @@
+import * as fs from "fs/promises";
+import path from "path";
+import { TestStatus } from "@/core/runner";
+import { getTestCaseExpectations } from "@/core/runner/test-case";
+import { TestRun } from "@/core/runner/test-run";
+import { TestRunRepository } from "@/core/runner/test-run-repository";
+import { ExpectationResult, TokenUsage } from "@/types/ai";
+import { RecordingArtifacts } from "@/types/browser";
+import { CacheStep } from "@/types/cache";
+import { BrowserName } from "@/types/config";
+
+/**
+ * Verdict of the AI on an expectation of a test
+ */
+export interface ExpectationReport extends ExpectationResult {
+  description: string;
+}
+
+/**
+ * Final result of a test, taken from its last attempt. Tokens and cost add
+ * up all attempts of the test, except in the report of a retried attempt.
+ */
+export interface TestReport {
+  name: string;
+  // Names of the enclosing describe blocks, from the outermost one
+  describePath: string[];
+  filePath: string;
+  // Set when the config has projects
+  project?: string;
+  // Browser engine the test ran on
+  browser: BrowserName;
+  status: TestStatus;
+  reason?: string;
+  attempt: number;
+  flaky: boolean;
+  // Duration in milliseconds
+  duration: number;
+  tokenUsage: TokenUsage;
+  cost: number;
+  steps: CacheStep[];
+  // Empty when the test did not get a verdict from the AI
+  expectations: ExpectationReport[];
+  // Screenshot paths, relative to the current working directory
+  screenshots: string[];
+  // Trace, video and HAR file, when recorded
+  artifacts: RecordingArtifacts;
+}
+
+export interface FileReport {
+  filePath: string;
+  // Set when the config has projects, each running all files
+  project?: string;
+  status: TestStatus;
+  reason?: string;
+  tests: TestReport[];
+}
+
+export interface RunReport {
+  startedAt: number;
+  // Duration in milliseconds
+  duration: number;
+  files: FileReport[];
+}
+
+export interface RunReportSummary {
+  files: number;
+  tests: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * Creates the report of a finished test run, including the screenshots
+ * stored in its test run directory
+ *
+ * @param {TestRun} testRun - Finished test run
+ * @param {number} cost - Estimated AI cost of the test in USD
+ * @param {TokenUsage} [tokenUsage] - Tokens used by the test, defaults to the ones of the test run
+ * @returns {Promise<TestReport>} Report of the test
+ *
+ * @private
+ */
+export const createTestReport = async (
+  testRun: TestRun,
+  cost: number,
+  tokenUsage: TokenUsage = testRun.tokenUsage,
+): Promise<TestReport> => ({
+  name: testRun.testCase.name,
+  describePath: testRun.testCase.describePath ?? [],
+  filePath: testRun.testCase.filePath,
+  project: testRun.project,
+  browser: testRun.browserName,
+  status: testRun.status,
+  reason: testRun.reason,
+  attempt: testRun.attempt,
+  flaky: testRun.flaky,
+  duration: testRun.duration,
+  tokenUsage,
+  cost,
+  steps: testRun.getSteps(),
+  expectations: getExpectationReports(testRun),
+  screenshots: await getScreenshotPaths(testRun),
+  artifacts: testRun.artifacts,
+});
+
+/**
+ * Counts tests by outcome and sums their token usage
+ *
+ * @param {RunReport} report - Run report
+ * @returns {RunReportSummary} Summary of the run
+ *
+ * @private
+ */
+export const summarizeRunReport = (report: RunReport): RunReportSummary => {
+  const tests = report.files.flatMap((file) => file.tests);
+  return {
+    files: report.files.length,
+    tests: tests.length,
+    passed: tests.filter((test) => test.status === "passed" && !test.flaky)
+      .length,
+    failed: tests.filter((test) => test.status === "failed").length,
+    flaky: tests.filter((test) => test.flaky).length,
+    skipped: tests.filter((test) => test.status === "skipped").length,
+    totalTokens: tests.reduce(
+      (total, test) => total + test.tokenUsage.totalTokens,
+      0,
+    ),
+    cost: tests.reduce((total, test) => total + test.cost, 0),
+  };
+};
+
+/**
+ * Adds up the tokens used by two attempts of a test
+ *
+ * @private
+ */
+export const addTokenUsage = (
+  usage: TokenUsage,
+  other: TokenUsage,
+): TokenUsage => ({
+  promptTokens: usage.promptTokens + other.promptTokens,
+  completionTokens: usage.completionTokens + other.completionTokens,
+  totalTokens: usage.totalTokens + other.totalTokens,
+  ...((usage.cacheReadTokens ?? other.cacheReadTokens) !== undefined && {
+    cacheReadTokens:
+      (usage.cacheReadTokens ?? 0) + (other.cacheReadTokens ?? 0),
+  }),
+  ...((usage.cacheWriteTokens ?? other.cacheWriteTokens) !== undefined && {
+    cacheWriteTokens:
+      (usage.cacheWriteTokens ?? 0) + (other.cacheWriteTokens ?? 0),
+  }),
+});
+
+const getExpectationReports = (testRun: TestRun): ExpectationReport[] => {
+  const descriptions = getTestCaseExpectations(testRun.testCase);
+  return testRun.expectationResults.map((result) => ({
+    ...result,
+    description: descriptions[result.index - 1] ?? "",
+  }));
+};
+
+const getScreenshotPaths = async (testRun: TestRun): Promise<string[]> => {
+  const testRunDirPath = TestRunRepository.getRepositoryForTestCase(
+    testRun.testCase,
+  ).getTestRunDirPath(testRun);
+
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(testRunDirPath);
+  } catch {
+    // Tests executed from cache or without AI have no screenshots
+    return [];
+  }
+
+  return fileNames
+    .filter((fileName) => fileName.startsWith("screenshot-"))
+    .sort()
+    .map((fileName) =>
+      path.relative(process.cwd(), path.join(testRunDirPath, fileName)),
+    );
+};
@@ -0,0 +1,233 @@
+import { existsSync } from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import pc from "picocolors";
+import { calculateCost } from "@/ai/pricing";
+import { TestCompiler } from "@/core/compiler";
+import { FileResult } from "@/core/runner";
+import {
+  addTokenUsage,
+  createTestReport,
+  FileReport,
+  ReportFileReporter,
+  RunReport,
+  summarizeRunReport,
+  TestReport,
+} from "@/core/runner/reports";
+import { TestCase } from "@/core/runner/test-case";
+import { getReporterLog, TestReporter } from "@/core/runner/test-reporter";
+import { TestRun } from "@/core/runner/test-run";
+import { getLogger, Log } from "@/log";
+import { TokenUsage } from "@/types/ai";
+import {
+  AIConfig,
+  REPORTER_NAMES,
+  ReporterConfig,
+  reporterNameSchema,
+  ShortestStrictConfig,
+} from "@/types/config";
+import { Reporter } from "@/types/reporter";
+import { ConfigError, getErrorDetails } from "@/utils/errors";
+
+// Files run once per project
+const getFileKey = (filePath: string, project?: string) =>
+  project ? `${project}:${filePath}` : filePath;
+
+/**
+ * Collects the results of a run and dispatches its lifecycle events to the
+ * registered reporters, one after another in registration order. Errors thrown
+ * by a reporter are logged without interrupting the run.
+ *
+ * @private
+ */
+export class RunReporter {
+  private reporters: Reporter[];
+  private reporterLog: Log;
+  private log: Log;
+  private startTime: number = Date.now();
+  private testsCount: number = 0;
+  private fileReports = new Map<string, FileReport>();
+  // Tokens used by the failed attempts of the tests being retried
+  private retriedTokenUsage = new Map<TestCase, TokenUsage>();
+  private aiConfig: Pick<AIConfig, "provider" | "model" | "pricing">;
+
+  constructor(
+    reporters: Reporter[],
+    aiConfig: Pick<AIConfig, "provider" | "model" | "pricing">,
+  ) {
+    this.reporters = reporters;
+    this.aiConfig = aiConfig;
+    this.reporterLog = getReporterLog();
+    this.log = getLogger();
+  }
+
+  async onRunStart(filesCount: number) {
+    await this.dispatch("onRunStart", filesCount);
+  }
+
+  async onFileStart(filePath: string, testsCount: number, project?: string) {
+    this.testsCount += testsCount;
+    this.fileReports.set(getFileKey(filePath, project), {
+      filePath,
+      project,
+      status: "running",
+      tests: [],
+    });
+    await this.dispatch("onFileStart", filePath, testsCount, project);
+  }
+
+  async onTestStart(test: TestCase) {
+    await this.dispatch("onTestStart", test);
+  }
+
+  async onTestRetry(testRun: TestRun) {
+    const retriedTokenUsage = this.retriedTokenUsage.get(testRun.testCase);
+    this.retriedTokenUsage.set(
+      testRun.testCase,
+      retriedTokenUsage
+        ? addTokenUsage(retriedTokenUsage, testRun.tokenUsage)
+        : testRun.tokenUsage,
+    );
+    await this.dispatch("onTestRetry", await this.createTestReport(testRun));
+  }
+
+  async onTestEnd(testRun: TestRun) {
+    const retriedTokenUsage = this.retriedTokenUsage.get(testRun.testCase);
+    this.retriedTokenUsage.delete(testRun.testCase);
+    const test = await this.createTestReport(
+      testRun,
+      retriedTokenUsage && addTokenUsage(retriedTokenUsage, testRun.tokenUsage),
+    );
+    this.fileReports
+      .get(getFileKey(test.filePath, test.project))
+      ?.tests.push(test);
+    await this.dispatch("onTestEnd", test);
+  }
+
+  async onFileEnd(fileResult: FileResult) {
+    const fileKey = getFileKey(fileResult.filePath, fileResult.project);
+    const file: FileReport = {
+      filePath: fileResult.filePath,
+      project: fileResult.project,
+      status: fileResult.status,
+      reason: fileResult.status === "failed" ? fileResult.reason : undefined,
+      // Files can fail before their tests are collected
+      tests: this.fileReports.get(fileKey)?.tests ?? [],
+    };
+    this.fileReports.set(fileKey, file);
+    await this.dispatch("onFileEnd", file);
+  }
+
+  async onRunEnd() {
+    const report: RunReport = {
+      startedAt: this.startTime,
+      duration: Date.now() - this.startTime,
+      files: [...this.fileReports.values()],
+    };
+    await this.dispatch("onRunEnd", report);
+  }
+
+  /**
+   * Tells whether the run passed, failing it when a file failed before its
+   * tests ran, such as on a failed setup
+   */
+  allTestsPassed(): boolean {
+    const files = [...this.fileReports.values()];
+    const summary = summarizeRunReport({
+      startedAt: this.startTime,
+      duration: 0,
+      files,
+    });
+    return (
+      files.every((file) => file.status !== "failed") &&
+      this.testsCount === summary.passed + summary.flaky + summary.skipped
+    );
+  }
+
+  error(context: string, message: string) {
+    this.reporterLog.error(pc.red(`${context}: ${message}`));
+  }
+
+  private async dispatch<E extends keyof Reporter>(
+    event: E,
+    ...args: Parameters<NonNullable<Reporter[E]>>
+  ) {
+    for (const reporter of this.reporters) {
+      const handler = reporter[event] as
+        | ((...handlerArgs: typeof args) => unknown)
+        | undefined;
+      try {
+        await handler?.apply(reporter, args);
+      } catch (error) {
+        this.log.error(`Reporter failed handling ${event}`, {
+          ...getErrorDetails(error),
+        });
+        this.error(`Reporter ${event}`, (error as Error).message);
+      }
+    }
+  }
+
+  private createTestReport(
+    testRun: TestRun,
+    tokenUsage: TokenUsage = testRun.tokenUsage,
+  ): Promise<TestReport> {
+    const cost = calculateCost(tokenUsage, this.aiConfig);
+    return createTestReport(
+      testRun,
+      Math.round(cost * 1000) / 1000,
+      tokenUsage,
+    );
+  }
+}
+
+/**
+ * Creates the reporters of a run: the terminal reporter followed by the
+ * reporters of the `reporters` config option
+ *
+ * @param {ShortestStrictConfig} config - Shortest config
+ * @param {string} cwd - Directory reporter module paths are resolved from
+ * @returns {Promise<Reporter[]>} Reporters in registration order
+ * @throws {ConfigError} If a reporter is unknown or its module is invalid
+ *
+ * @private
+ */
+export const loadReporters = async (
+  config: ShortestStrictConfig,
+  cwd: string = process.cwd(),
+): Promise<Reporter[]> => {
+  const reporters: Reporter[] = [new TestReporter({ workers: config.workers })];
+  for (const reporterConfig of config.reporters) {
+    reporters.push(await loadReporter(reporterConfig, cwd));
+  }
+  return reporters;
+};
+
+const loadReporter = async (
+  reporterConfig: ReporterConfig,
+  cwd: string,
+): Promise<Reporter> => {
+  if (typeof reporterConfig !== "string") return reporterConfig;
+
+  const reporterName = reporterNameSchema.safeParse(reporterConfig);
+  if (reporterName.success) return new ReportFileReporter(reporterName.data);
+
+  const modulePath = path.resolve(cwd, reporterConfig);
+  if (!existsSync(modulePath)) {
+    throw new ConfigError(
+      "invalid-config",
+      `Unknown reporter "${reporterConfig}". Expected one of ${REPORTER_NAMES.join(", ")} or the path of a reporter module.`,
+    );
+  }
+
+  const log = getLogger();
+  log.trace("Loading reporter module", { modulePath });
+  const compiledPath = await new TestCompiler().compileFile(modulePath);
+  const { default: reporter } = await import(pathToFileURL(compiledPath).href);
+
+  if (typeof reporter === "function") return new reporter();
+  if (typeof reporter === "object" && reporter !== null) return reporter;
+  throw new ConfigError(
+    "invalid-config",
+    `Reporter module "${reporterConfig}" must export a reporter object or class by default.`,
+  );
+};
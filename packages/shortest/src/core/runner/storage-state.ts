@@ -0,0 +1,49 @@
+import * as fs from "fs/promises";
+import path from "path";
+import { AUTH_DIR_PATH } from "@/cache";
+import { StorageState } from "@/types/browser";
+
+/**
+ * Returns the path of the storage state saved by a setup
+ *
+ * @param {string} name - Name of the setup
+ * @param {string} [dirPath] - Directory of the storage states
+ * @returns {string} Path of the storage state file
+ *
+ * @private
+ */
+export const getStorageStatePath = (
+  name: string,
+  dirPath: string = AUTH_DIR_PATH,
+): string => path.join(dirPath, `${name}.json`);
+
+/**
+ * Whether a saved storage state can no longer be used, as it is missing,
+ * older than `maxAge` or has expired cookies
+ *
+ * @param {string} filePath - Path of the storage state file
+ * @param {{ maxAge?: number, now?: number }} [options] - Maximum age in milliseconds and current time
+ * @returns {Promise<boolean>} Whether the setup must run again
+ *
+ * @private
+ */
+export const isStorageStateExpired = async (
+  filePath: string,
+  { maxAge, now = Date.now() }: { maxAge?: number; now?: number } = {},
+): Promise<boolean> => {
+  try {
+    const [content, stats] = await Promise.all([
+      fs.readFile(filePath, "utf-8"),
+      fs.stat(filePath),
+    ]);
+    if (maxAge !== undefined && now - stats.mtimeMs > maxAge) return true;
+
+    const state = JSON.parse(content) as StorageState;
+    // Session cookies have no expiry, set to -1
+    return state.cookies.some(
+      (cookie) => cookie.expires > 0 && cookie.expires * 1000 <= now,
+    );
+  } catch {
+    return true;
+  }
+};
@@ -26,6 +26,46 @@ const TestCaseExpectationsSchema = z.object({
   directExecution: z.boolean().optional().default(false),
 });
 
+/**
+ * Returns the descriptions of the expectations of a test, numbered from 1 in
+ * the AI prompt. A test without expectations is expected to succeed.
+ *
+ * @param {object} test - Test case
+ * @returns {string[]} Expectation descriptions
+ */
+export const getTestCaseExpectations = (test: {
+  name: string;
+  expectations?: Array<{ description?: string }>;
+}): string[] =>
+  test.expectations?.length
+    ? test.expectations.map((expectation) => expectation.description ?? "")
+    : [`"${test.name}" expected to be successful`];
+
+/**
+ * Returns the full title of a test, prefixed with the names of its describe
+ * blocks, e.g. `Checkout › Guest › Pay with a card`
+ *
+ * @param {object} test - Test case or report
+ * @returns {string} Full title of the test
+ */
+export const getTestCaseTitle = (test: {
+  name: string;
+  describePath?: string[];
+}): string => [...(test.describePath ?? []), test.name].join(" › ");
+
+/**
+ * Schema for skipped tests, either with `shortest.skip()` or with
+ * `shortest.fixme()` for tests known to be broken
+ *
+ * @property {string} type - How the test was skipped
+ * @property {string} [reason] - Optional reason shown in reports
+ */
+export const TestSkipSchema = z.object({
+  type: z.enum(["skip", "fixme"]),
+  reason: z.string().optional(),
+});
+export type TestSkip = z.infer<typeof TestSkipSchema>;
+
 /**
  * Schema and type definition for test cases in the testing framework
  *
@@ -37,6 +77,13 @@ const TestCaseExpectationsSchema = z.object({
  * @property {Function} [beforeFn] - Optional setup function to run before the test
  * @property {Function} [afterFn] - Optional cleanup function to run after the test
  * @property {boolean} [directExecution] - Whether to execute test directly (defaults to false)
+ * @property {number} [retries] - Number of times to retry the test when it fails (overrides the global setting)
+ * @property {string[]} [tags] - Tags used to select the test from the CLI
+ * @property {boolean} [only] - Whether the test is focused with `shortest.only()`
+ * @property {TestSkip} [skip] - Set when the test is skipped
+ * @property {string[]} [describePath] - Names of the enclosing describe blocks, from the outermost one
+ * @property {string[]} [instructions] - Rules added to the system prompt of the test
+ * @property {string} [storageState] - Name of the setup whose storage state is loaded before the test
  * @property {string} identifier - Unique identifier for the test case (auto-generated)
  *
  */
@@ -50,11 +97,18 @@ const TestCaseSchema = z
     beforeFn: TestCaseFunctionSchema.optional(),
     afterFn: TestCaseFunctionSchema.optional(),
     directExecution: z.boolean().optional().default(false),
+    retries: z.number().int().nonnegative().optional(),
+    tags: z.array(z.string()).optional(),
+    only: z.boolean().optional(),
+    skip: TestSkipSchema.optional(),
+    describePath: z.array(z.string()).optional(),
+    instructions: z.array(z.string()).optional(),
+    storageState: z.string().optional(),
     identifier: z.string().optional(),
   })
   .strict()
   .transform((data) => {
-    const hashInput = `${data.name}:${data.filePath}:${JSON.stringify(data.expectations)}`;
+    const hashInput = `${getTestCaseTitle(data)}:${data.filePath}:${JSON.stringify(data.expectations)}`;
 
     return {
       ...data,
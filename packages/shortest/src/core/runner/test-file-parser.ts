@@ -13,8 +13,12 @@ const traverse = require("@babel/traverse").default;
 
 export const EXPRESSION_PLACEHOLDER = "${...}";
 
+const TEST_MODIFIERS = ["only", "skip", "fixme"];
+
 export const TestLocationSchema = z.object({
   testName: z.string(),
+  // Names of the enclosing describe blocks, from the outermost one
+  describePath: z.array(z.string()),
   startLine: z.number().int().positive(),
   endLine: z.number().int().positive(),
 });
@@ -22,89 +26,137 @@ export type TestLocation = z.infer<typeof TestLocationSchema>;
 
 const TestLocationsSchema = z.array(TestLocationSchema);
 
-export const parseShortestTestFile = (filePath: string): TestLocation[] => {
-  const log = getLogger();
-  try {
-    log.setGroup("File Parser");
+export const DescribeLocationSchema = z.object({
+  // Names of the describe block and its enclosing blocks
+  describePath: z.array(z.string()),
+  startLine: z.number().int().positive(),
+  endLine: z.number().int().positive(),
+});
+export type DescribeLocation = z.infer<typeof DescribeLocationSchema>;
+
+const TemplateElementSchema = z.object({
+  value: z.object({
+    cooked: z.string().optional(),
+    raw: z.string().optional(),
+  }),
+});
+type TemplateElement = z.infer<typeof TemplateElementSchema>;
+
+const StringLiteralSchema = z.object({
+  type: z.literal("StringLiteral"),
+  value: z.string(),
+});
+
+const TemplateLiteralSchema = z.object({
+  type: z.literal("TemplateLiteral"),
+  quasis: z.array(TemplateElementSchema),
+});
 
-    const TemplateElementSchema = z.object({
-      value: z.object({
-        cooked: z.string().optional(),
-        raw: z.string().optional(),
+const parseTestFileAst = (filePath: string) => {
+  const fileContent = readFileSync(filePath, "utf8");
+  return parser.parse(fileContent, {
+    sourceType: "module",
+    plugins: [
+      "typescript",
+      "objectRestSpread",
+      "optionalChaining",
+      "nullishCoalescingOperator",
+    ],
+  });
+};
+
+/**
+ * Returns the name passed as first argument of a test or describe call, with
+ * template literal expressions replaced by a placeholder
+ */
+const getCallName = (node: t.CallExpression): string | undefined => {
+  const firstArg = (node.arguments || [])[0];
+  if (!firstArg) return undefined;
+
+  if (babelTypes.isStringLiteral(firstArg)) {
+    return StringLiteralSchema.parse(firstArg).value;
+  }
+  if (babelTypes.isTemplateLiteral(firstArg)) {
+    const parsed = TemplateLiteralSchema.parse(firstArg);
+    return parsed.quasis
+      .map((quasi: TemplateElement, i: number, arr: TemplateElement[]) => {
+        const str = quasi.value.cooked || quasi.value.raw || "";
+        return i < arr.length - 1 ? str + EXPRESSION_PLACEHOLDER : str;
+      })
+      .join("")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+  return undefined;
+};
+
+const isDescribeCall = (node: t.Node): node is t.CallExpression =>
+  babelTypes.isCallExpression(node) &&
+  babelTypes.isMemberExpression(node.callee) &&
+  babelTypes.isIdentifier(node.callee.object, { name: SHORTEST_NAME }) &&
+  babelTypes.isIdentifier(node.callee.property, { name: "describe" });
+
+/**
+ * Tells whether a call declares a test, e.g. `shortest("...")` or
+ * `shortest.skip("...")`
+ */
+const isTestCall = (node: t.CallExpression): boolean =>
+  babelTypes.isIdentifier(node.callee, { name: SHORTEST_NAME }) ||
+  (babelTypes.isMemberExpression(node.callee) &&
+    babelTypes.isIdentifier(node.callee.object, { name: SHORTEST_NAME }) &&
+    TEST_MODIFIERS.some((modifier) =>
+      babelTypes.isIdentifier((node.callee as t.MemberExpression).property, {
+        name: modifier,
       }),
-    });
-    type TemplateElement = z.infer<typeof TemplateElementSchema>;
+    ));
 
-    const StringLiteralSchema = z.object({
-      type: z.literal("StringLiteral"),
-      value: z.string(),
-    });
+/**
+ * Returns the names of the describe blocks enclosing a call
+ */
+const getDescribePath = (path: NodePath<t.Node>): string[] => {
+  const describePath: string[] = [];
+  for (let current = path.parentPath; current; current = current.parentPath) {
+    if (isDescribeCall(current.node)) {
+      const name = getCallName(current.node);
+      if (name !== undefined) describePath.unshift(name);
+    }
+  }
+  return describePath;
+};
 
-    const TemplateLiteralSchema = z.object({
-      type: z.literal("TemplateLiteral"),
-      quasis: z.array(TemplateElementSchema),
-    });
+export const parseShortestTestFile = (filePath: string): TestLocation[] => {
+  const log = getLogger();
+  try {
+    log.setGroup("File Parser");
 
-    const fileContent = readFileSync(filePath, "utf8");
-    const ast = parser.parse(fileContent, {
-      sourceType: "module",
-      plugins: [
-        "typescript",
-        "objectRestSpread",
-        "optionalChaining",
-        "nullishCoalescingOperator",
-      ],
-    });
+    const ast = parseTestFileAst(filePath);
 
     const testLocations: TestLocation[] = [];
 
     const testCallsByLine = new Map<
       number,
-      { name: string; node: NodePath<t.CallExpression> }
+      {
+        name: string;
+        describePath: string[];
+        node: NodePath<t.CallExpression>;
+      }
     >();
 
     traverse(ast, {
       CallExpression(path: NodePath<t.CallExpression>) {
         const node = path.node;
 
-        if (
-          !node.type ||
-          node.type !== "CallExpression" ||
-          !node.callee ||
-          node.callee.type !== "Identifier" ||
-          node.callee.name !== SHORTEST_NAME
-        ) {
+        if (!isTestCall(node)) {
           return;
         }
 
-        const args = node.arguments || [];
-        if (args.length === 0) return;
-
-        const firstArg = args[0];
-        let testName = "";
-
-        if (babelTypes.isStringLiteral(firstArg)) {
-          const parsed = StringLiteralSchema.parse(firstArg);
-          testName = parsed.value;
-        } else if (babelTypes.isTemplateLiteral(firstArg)) {
-          const parsed = TemplateLiteralSchema.parse(firstArg);
-          testName = parsed.quasis
-            .map(
-              (quasi: TemplateElement, i: number, arr: TemplateElement[]) => {
-                const str = quasi.value.cooked || quasi.value.raw || "";
-                return i < arr.length - 1 ? str + EXPRESSION_PLACEHOLDER : str;
-              },
-            )
-            .join("")
-            .replace(/\s+/g, " ")
-            .trim();
-        } else {
-          return;
-        }
+        const testName = getCallName(node);
+        if (testName === undefined) return;
 
         const startLine = node.loc?.start?.line || 0;
         testCallsByLine.set(startLine, {
           name: testName,
+          describePath: getDescribePath(path),
           node: path,
         });
       },
@@ -117,7 +169,7 @@ export const parseShortestTestFile = (filePath: string): TestLocation[] => {
     for (let i = 0; i < sortedStartLines.length; i++) {
       const currentLine = sortedStartLines[i];
       const nextLine = sortedStartLines[i + 1] || Number.MAX_SAFE_INTEGER;
-      const { name, node } = testCallsByLine.get(currentLine)!;
+      const { name, describePath, node } = testCallsByLine.get(currentLine)!;
 
       let path = node;
       let endLine = path.node.loc?.end?.line || 0;
@@ -152,6 +204,7 @@ export const parseShortestTestFile = (filePath: string): TestLocation[] => {
 
       const testLocation = TestLocationSchema.parse({
         testName: name,
+        describePath,
         startLine: currentLine,
         endLine,
       });
@@ -165,3 +218,40 @@ export const parseShortestTestFile = (filePath: string): TestLocation[] => {
     log.resetGroup();
   }
 };
+
+/**
+ * Parses the locations of the `shortest.describe()` blocks of a test file
+ *
+ * @param {string} filePath - Path of the test file
+ * @returns {DescribeLocation[]} Describe blocks, in the order they are declared
+ */
+export const parseShortestDescribeBlocks = (
+  filePath: string,
+): DescribeLocation[] => {
+  const log = getLogger();
+  try {
+    log.setGroup("File Parser");
+
+    const describeLocations: DescribeLocation[] = [];
+    traverse(parseTestFileAst(filePath), {
+      CallExpression(path: NodePath<t.CallExpression>) {
+        if (!isDescribeCall(path.node)) return;
+        const name = getCallName(path.node);
+        if (name === undefined) return;
+
+        describeLocations.push(
+          DescribeLocationSchema.parse({
+            describePath: [...getDescribePath(path), name],
+            startLine: path.node.loc?.start?.line || 0,
+            endLine: path.node.loc?.end?.line || 0,
+          }),
+        );
+      },
+    });
+
+    log.trace("Describe locations", { filePath, describeLocations });
+    return describeLocations;
+  } finally {
+    log.resetGroup();
+  }
+};
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { getTestCaseTitle, TestCase } from "@/core/runner/test-case";
+
+/**
+ * Schema for the filters selecting which tests of a file are run
+ *
+ * @property {RegExp} [grep] - Only run tests whose name or tags match
+ * @property {RegExp} [grepInvert] - Skip tests whose name or tags match
+ * @property {string[]} [tags] - Only run tests with at least one of these tags
+ * @property {string[]} [excludeTags] - Skip tests with any of these tags
+ */
+export const testFilterSchema = z.object({
+  grep: z.instanceof(RegExp).optional(),
+  grepInvert: z.instanceof(RegExp).optional(),
+  tags: z.array(z.string()).optional(),
+  excludeTags: z.array(z.string()).optional(),
+});
+export type TestFilter = z.infer<typeof testFilterSchema>;
+
+/**
+ * Normalizes a tag, so `@smoke` and `smoke` are the same tag
+ *
+ * @param {string} tag - Tag as written by the user
+ * @returns {string} Normalized tag
+ */
+export const normalizeTag = (tag: string): string =>
+  tag.trim().replace(/^@/, "");
+
+/**
+ * Tells whether a filter selects any test
+ */
+export const hasTestFilter = (filter: TestFilter): boolean =>
+  !!filter.grep ||
+  !!filter.grepInvert ||
+  !!filter.tags?.length ||
+  !!filter.excludeTags?.length;
+
+/**
+ * Filters tests by name and tags. Regular expressions are matched against the
+ * full test title, including its describe blocks, followed by its tags, each
+ * prefixed with `@`, so tags can also be selected with `grep`.
+ *
+ * @param {TestCase[]} tests - Tests registered by a test file
+ * @param {TestFilter} filter - Filters to apply
+ * @returns {TestCase[]} Tests matching all filters, in their original order
+ *
+ * @example
+ * ```typescript
+ * filterTests(tests, { grep: /login/i, excludeTags: ["slow"] });
+ * ```
+ */
+export const filterTests = (
+  tests: TestCase[],
+  filter: TestFilter,
+): TestCase[] => {
+  const includedTags = filter.tags?.map(normalizeTag) ?? [];
+  const excludedTags = filter.excludeTags?.map(normalizeTag) ?? [];
+
+  return tests.filter((test) => {
+    const tags = test.tags ?? [];
+    const title = [
+      getTestCaseTitle(test),
+      ...tags.map((tag) => `@${tag}`),
+    ].join(" ");
+
+    if (filter.grep && !filter.grep.test(title)) return false;
+    if (filter.grepInvert?.test(title)) return false;
+    if (
+      includedTags.length > 0 &&
+      !includedTags.some((tag) => tags.includes(tag))
+    ) {
+      return false;
+    }
+    return !excludedTags.some((tag) => tags.includes(tag));
+  });
+};
@@ -1,30 +1,47 @@
 import pc from "picocolors";
-import { FileResult, TestStatus } from "@/core/runner/index";
-import { TestCase } from "@/core/runner/test-case";
-import { TestRun } from "@/core/runner/test-run";
+import { TestStatus } from "@/core/runner/index";
+import { FileReport, TestReport } from "@/core/runner/reports";
+import { getTestCaseTitle, TestCase } from "@/core/runner/test-case";
 import { getLogger, Log } from "@/log/index";
+import { BrowserName } from "@/types/config";
+import { Reporter } from "@/types/reporter";
 import { AssertionError } from "@/types/test";
 
-export class TestReporter {
+/**
+ * Built-in reporter printing the progress and summary of a run to the terminal
+ */
+export class TestReporter implements Reporter {
   private startTime: number = Date.now();
   private reporterLog: Log;
   private log: Log;
-
-  // token pricing (Claude 3.5 Sonnet)
-  private readonly COST_PER_1K_PROMPT_TOKENS = 0.003;
-  private readonly COST_PER_1K_COMPLETION_TOKENS = 0.015;
+  private bufferFileOutput: boolean;
+  // Output of files in progress, printed at once when the file completes
+  private pendingFileOutput = new Map<string, Array<() => void>>();
 
   private filesCount: number = 0;
   private testsCount: number = 0;
   private passedTestsCount: number = 0;
+  private flakyTestsCount: number = 0;
   private failedTestsCount: number = 0;
+  private skippedTestsCount: number = 0;
   private totalPromptTokens: number = 0;
   private totalCompletionTokens: number = 0;
+  private totalCacheReadTokens: number = 0;
+  private totalCacheWriteTokens: number = 0;
   private aiCost: number = 0;
+  // Browser engines the tests ran on
+  private browserNames = new Set<BrowserName>();
 
-  constructor() {
+  /**
+   * @param {Object} [options] - Reporter options
+   * @param {number} [options.workers] - Number of files executed concurrently.
+   * With more than one worker, the output of each file is buffered and printed
+   * as a whole once the file completes, so concurrent files do not interleave.
+   */
+  constructor({ workers = 1 }: { workers?: number } = {}) {
     this.reporterLog = getReporterLog();
     this.log = getLogger();
+    this.bufferFileOutput = workers > 1;
   }
 
   onRunStart(filesCount: number) {
@@ -32,85 +49,120 @@ export class TestReporter {
     this.reporterLog.info(`Found ${filesCount} test file(s)`);
   }
 
-  onFileStart(filePath: string, testsCount: number) {
+  onFileStart(filePath: string, testsCount: number, project?: string) {
     this.log.setGroup(filePath);
-    this.reporterLog.info(
-      pc.cyan("❯"),
-      pc.blue(pc.bold(filePath)),
-      pc.dim(`(${testsCount})`),
-    );
-    this.reporterLog.setGroup(filePath);
+    if (this.bufferFileOutput) {
+      this.pendingFileOutput.set(filePath, []);
+    }
+    this.output(filePath, () => {
+      this.reporterLog.info(
+        pc.cyan("❯"),
+        pc.blue(pc.bold(filePath)),
+        ...(project ? [pc.magenta(`[${project}]`)] : []),
+        pc.dim(`(${testsCount})`),
+      );
+      this.reporterLog.setGroup(filePath);
+    });
     this.testsCount += testsCount;
   }
 
   onTestStart(test: TestCase) {
     this.log.trace("onTestStart called");
     this.log.setGroup(test.name);
-    this.reporterLog.info(this.getStatusIcon("running"), test.name);
-    this.reporterLog.setGroup(test.name);
+    this.output(test.filePath, () => {
+      this.reporterLog.info(
+        this.getStatusIcon("running"),
+        getTestCaseTitle(test),
+      );
+      this.reporterLog.setGroup(test.name);
+    });
   }
 
-  onTestEnd(testRun: TestRun) {
+  onTestRetry(test: TestReport) {
+    this.log.trace("onTestRetry called");
+
+    this.output(test.filePath, () => {
+      this.reporterLog.info(
+        pc.yellow(`↻ attempt ${test.attempt} failed, retrying`),
+      );
+      this.printTokenUsage(test);
+      this.reporterLog.info(pc.dim(`Reason: ${test.reason}`));
+    });
+  }
+
+  onTestEnd(test: TestReport) {
     this.log.trace("onTestEnd called");
-    switch (testRun.status) {
+    switch (test.status) {
       case "passed":
-        this.passedTestsCount++;
+        if (test.flaky) {
+          this.flakyTestsCount++;
+        } else {
+          this.passedTestsCount++;
+        }
         break;
       case "failed":
         this.failedTestsCount++;
         break;
+      case "skipped":
+        this.skippedTestsCount++;
+        break;
     }
-    let testAICost = 0;
-    if (testRun.tokenUsage) {
-      this.totalPromptTokens += testRun.tokenUsage.promptTokens;
-      this.totalCompletionTokens += testRun.tokenUsage.completionTokens;
-      testAICost = this.calculateCost(
-        testRun.tokenUsage.promptTokens,
-        testRun.tokenUsage.completionTokens,
-      );
-      this.aiCost += testAICost;
-    }
-    const symbol = testRun.status === "passed" ? "✓" : "✗";
-    const color = testRun.status === "passed" ? pc.green : pc.red;
-
-    this.reporterLog.info(`${color(`${symbol} ${testRun.status}`)}`);
-    if (testRun.tokenUsage.totalTokens > 0) {
-      const cost = this.calculateCost(
-        testRun.tokenUsage.promptTokens,
-        testRun.tokenUsage.completionTokens,
-      );
-      this.reporterLog.info(
-        pc.dim("↳"),
-        pc.dim(`${testRun.tokenUsage.totalTokens.toLocaleString()} tokens`),
-        pc.dim(`(≈ $${cost.toFixed(2)})`),
-      );
-    }
+    this.addTokenUsage(test);
+    this.browserNames.add(test.browser);
+    const symbol = test.status === "passed" ? "✓" : "✗";
+    const color = test.status === "passed" ? pc.green : pc.red;
 
-    if (testRun.status === "failed") {
-      this.error("Reason", testRun.reason!);
-    }
+    this.output(test.filePath, () => {
+      if (test.status === "skipped") {
+        this.reporterLog.info(
+          pc.dim("- skipped"),
+          ...(test.reason ? [pc.dim(`(${test.reason})`)] : []),
+        );
+      } else if (test.flaky) {
+        this.reporterLog.info(
+          pc.yellow(`${symbol} flaky`),
+          pc.dim(`(passed on attempt ${test.attempt})`),
+        );
+      } else {
+        this.reporterLog.info(`${color(`${symbol} ${test.status}`)}`);
+      }
+      this.printTokenUsage(test);
+      this.printArtifacts(test);
 
-    this.reporterLog.resetGroup();
+      if (test.status === "failed") {
+        this.error("Reason", test.reason!);
+        this.printExpectations(test);
+      }
+
+      this.reporterLog.resetGroup();
+    });
     this.log.resetGroup();
   }
 
-  onFileEnd(fileResult: FileResult) {
-    if (fileResult.status === "failed") {
-      this.log.error("Error processing file", { ...fileResult });
-      this.error("Error processing file", fileResult.reason);
+  onFileEnd(file: FileReport) {
+    if (file.status === "failed") {
+      this.log.error("Error processing file", {
+        filePath: file.filePath,
+        reason: file.reason,
+      });
     }
-    this.reporterLog.resetGroup();
+    this.output(file.filePath, () => {
+      if (file.status === "failed") {
+        this.error("Error processing file", file.reason!);
+      }
+      this.reporterLog.resetGroup();
+    });
     this.log.resetGroup();
+
+    const pendingOutput = this.pendingFileOutput.get(file.filePath);
+    this.pendingFileOutput.delete(file.filePath);
+    pendingOutput?.forEach((print) => print());
   }
 
   onRunEnd() {
     this.summary();
   }
 
-  allTestsPassed(): boolean {
-    return this.testsCount === this.passedTestsCount;
-  }
-
   error(context: string, message: string) {
     this.reporterLog.error(pc.red(`${context}: ${message}`));
   }
@@ -130,15 +182,89 @@ export class TestReporter {
     }
   }
 
-  private calculateCost(
-    promptTokens: number,
-    completionTokens: number,
-  ): number {
-    const promptTokensCost =
-      (promptTokens / 1000) * this.COST_PER_1K_PROMPT_TOKENS;
-    const completionTokensCost =
-      (completionTokens / 1000) * this.COST_PER_1K_COMPLETION_TOKENS;
-    return Math.round((promptTokensCost + completionTokensCost) * 1000) / 1000;
+  /**
+   * Prints reporter output of a file, or defers it until the file completes
+   * when file output is buffered
+   */
+  private output(filePath: string, print: () => void) {
+    const pendingOutput = this.pendingFileOutput.get(filePath);
+    if (pendingOutput) {
+      pendingOutput.push(print);
+    } else {
+      print();
+    }
+  }
+
+  private addTokenUsage(test: TestReport) {
+    this.totalPromptTokens += test.tokenUsage.promptTokens;
+    this.totalCompletionTokens += test.tokenUsage.completionTokens;
+    this.totalCacheReadTokens += test.tokenUsage.cacheReadTokens ?? 0;
+    this.totalCacheWriteTokens += test.tokenUsage.cacheWriteTokens ?? 0;
+    this.aiCost += test.cost;
+  }
+
+  private printTokenUsage(test: TestReport) {
+    if (test.tokenUsage.totalTokens > 0) {
+      this.reporterLog.info(
+        pc.dim("↳"),
+        pc.dim(
+          [
+            `${test.tokenUsage.totalTokens.toLocaleString()} tokens`,
+            ...this.formatCacheTokens(
+              test.tokenUsage.cacheReadTokens ?? 0,
+              test.tokenUsage.cacheWriteTokens ?? 0,
+            ),
+          ].join(", "),
+        ),
+        pc.dim(`(≈ $${test.cost.toFixed(2)})`),
+      );
+    }
+  }
+
+  /**
+   * Prints the paths of the trace, video and HAR file kept for the test
+   */
+  private printArtifacts(test: TestReport) {
+    const { trace, video, har } = test.artifacts;
+    if (trace) {
+      this.reporterLog.info(
+        pc.dim(`Trace: npx playwright show-trace ${trace}`),
+      );
+    }
+    if (video) this.reporterLog.info(pc.dim(`Video: ${video}`));
+    if (har) this.reporterLog.info(pc.dim(`HAR: ${har}`));
+  }
+
+  /**
+   * Prints the verdict of the AI on each expectation, with the evidence of
+   * the failed ones
+   */
+  private printExpectations(test: TestReport) {
+    for (const expectation of test.expectations) {
+      const title = `${expectation.index}. ${expectation.description}`;
+      if (expectation.status === "passed") {
+        this.reporterLog.info(pc.green(`✓ ${title}`));
+        continue;
+      }
+      this.reporterLog.info(pc.red(`✗ ${title}`));
+      this.reporterLog.info(
+        pc.dim(
+          [
+            `Evidence: ${expectation.evidence}`,
+            ...(expectation.steps.length
+              ? [`(steps ${expectation.steps.join(", ")})`]
+              : []),
+          ].join(" "),
+        ),
+      );
+    }
+  }
+
+  private formatCacheTokens(readTokens: number, writeTokens: number): string[] {
+    return [
+      readTokens > 0 && `${readTokens.toLocaleString()} cache read`,
+      writeTokens > 0 && `${writeTokens.toLocaleString()} cache write`,
+    ].filter((value): value is string => !!value);
   }
 
   private getStatusIcon(status: TestStatus): string {
@@ -151,29 +277,37 @@ export class TestReporter {
         return pc.green("✓");
       case "failed":
         return pc.red("✗");
+      case "skipped":
+        return pc.dim("-");
     }
   }
 
   private summary() {
     const duration = ((Date.now() - this.startTime) / 1000).toFixed(2);
     const totalTokens = this.totalPromptTokens + this.totalCompletionTokens;
-    const aiCost = this.calculateCost(
-      this.totalPromptTokens,
-      this.totalCompletionTokens,
-    );
 
     this.reporterLog.setGroup("Summary");
     this.reporterLog.info(pc.dim("⎯".repeat(50)), "\n");
 
     const LABEL_WIDTH = 15;
+    const testCounts = [
+      this.failedTestsCount && pc.red(`${this.failedTestsCount} failed`),
+      this.flakyTestsCount && pc.yellow(`${this.flakyTestsCount} flaky`),
+      pc.green(`${this.passedTestsCount} passed`),
+      this.skippedTestsCount && pc.dim(`${this.skippedTestsCount} skipped`),
+    ].filter(Boolean);
     this.reporterLog.info(
       pc.bold(" Tests".padEnd(LABEL_WIDTH)),
-      this.failedTestsCount
-        ? `${pc.red(`${this.failedTestsCount} failed`)} | ${pc.green(`${this.passedTestsCount} passed`)}`
-        : pc.green(`${this.passedTestsCount} passed`),
+      testCounts.join(" | "),
       pc.dim(`(${this.testsCount})`),
     );
 
+    if (this.browserNames.size) {
+      this.reporterLog.info(
+        pc.bold(" Browser".padEnd(LABEL_WIDTH)),
+        pc.dim([...this.browserNames].join(" | ")),
+      );
+    }
     this.reporterLog.info(
       pc.bold(" Duration".padEnd(LABEL_WIDTH)),
       pc.dim(`${duration}s`),
@@ -185,9 +319,20 @@ export class TestReporter {
     this.reporterLog.info(
       pc.bold(" Tokens".padEnd(LABEL_WIDTH)),
       pc.dim(
-        `${totalTokens.toLocaleString()} tokens ` + `(≈ $${aiCost.toFixed(2)})`,
+        `${totalTokens.toLocaleString()} tokens ` +
+          `(≈ $${this.aiCost.toFixed(2)})`,
       ),
     );
+    const cacheTokens = this.formatCacheTokens(
+      this.totalCacheReadTokens,
+      this.totalCacheWriteTokens,
+    );
+    if (cacheTokens.length) {
+      this.reporterLog.info(
+        pc.bold(" Prompt cache".padEnd(LABEL_WIDTH)),
+        pc.dim(cacheTokens.join(" | ")),
+      );
+    }
     this.reporterLog.info("\n", pc.dim("⎯".repeat(50)));
     this.reporterLog.resetGroup();
   }
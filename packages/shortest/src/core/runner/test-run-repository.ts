@@ -1,10 +1,12 @@
 import * as fs from "fs/promises";
 import path from "path";
-import { CACHE_DIR_PATH } from "@/cache";
+import { CACHE_DIR_PATH, RUNS_DIR_PATH } from "@/cache";
 import { TestCase } from "@/core/runner/test-case";
 import { TestRun } from "@/core/runner/test-run";
 import { getLogger, Log } from "@/log";
+import { ViewportSize } from "@/types/browser";
 import { CacheEntry } from "@/types/cache";
+import { BrowserName } from "@/types/config";
 import { getErrorDetails } from "@/utils/errors";
 
 /**
@@ -88,10 +90,12 @@ export class TestRunRepository {
   private readonly testCase: TestCase;
   private readonly lockFileName: string;
   private readonly globalCacheDir: string;
+  private readonly runsDir: string;
   private readonly log: Log;
   private readonly MAX_LOCK_ATTEMPTS = 10;
   private readonly BASE_LOCK_DELAY_MS = 10;
   private lockAcquired = false;
+  private lockQueue: Promise<unknown> = Promise.resolve();
   private testRuns: TestRun[] | null = null;
 
   /**
@@ -99,14 +103,20 @@ export class TestRunRepository {
    *
    * @param {TestCase} testCase - Test case to manage runs for
    * @param {string} cacheDir - Directory to store cache files in
+   * @param {string} runsDir - Directory of the artifacts recorded for each test run
    */
-  constructor(testCase: TestCase, cacheDir = CACHE_DIR_PATH) {
+  constructor(
+    testCase: TestCase,
+    cacheDir = CACHE_DIR_PATH,
+    runsDir = RUNS_DIR_PATH,
+  ) {
     this.log = getLogger();
     this.log.trace("Initializing TestRunRepository", {
       identifier: testCase.identifier,
     });
     this.testCase = testCase;
     this.globalCacheDir = cacheDir;
+    this.runsDir = runsDir;
     this.lockFileName = `${this.testCase.identifier}.lock`;
 
     // Register shared handlers and track this instance
@@ -160,9 +170,25 @@ export class TestRunRepository {
   /**
    * Gets the most recent passed test run
    *
+   * @param {Object} [filters] - Only consider runs matching these filters
+   * @param {string} [filters.promptHash] - Hash of the system prompt
+   * @param {BrowserName} [filters.browserName] - Browser engine
+   * @param {ViewportSize} [filters.viewport] - Viewport of the browser page
+   * @param {string | null} [filters.project] - Name of the project, null for
+   * runs outside of projects
    * @returns {Promise<TestRun | null>} Latest passed test run or null if none exists
    */
-  async getLatestPassedRun(): Promise<TestRun | null> {
+  async getLatestPassedRun({
+    promptHash,
+    browserName,
+    viewport,
+    project,
+  }: {
+    promptHash?: string;
+    browserName?: BrowserName;
+    viewport?: ViewportSize;
+    project?: string | null;
+  } = {}): Promise<TestRun | null> {
     this.log.trace("Getting latest passed run", {
       identifier: this.testCase.identifier,
     });
@@ -171,7 +197,13 @@ export class TestRunRepository {
       (testRun) =>
         testRun.status === "passed" &&
         testRun.version === TestRunRepository.VERSION &&
-        !testRun.executedFromCache,
+        !testRun.executedFromCache &&
+        (promptHash === undefined || testRun.promptHash === promptHash) &&
+        (browserName === undefined || testRun.browserName === browserName) &&
+        (viewport === undefined ||
+          (testRun.viewport.width === viewport.width &&
+            testRun.viewport.height === viewport.height)) &&
+        (project === undefined || (testRun.project ?? null) === project),
     );
     this.log.trace("Found test runs", {
       identifier: this.testCase.identifier,
@@ -191,46 +223,55 @@ export class TestRunRepository {
    * @returns {Promise<void>}
    */
   async saveRun(testRun: TestRun): Promise<void> {
-    if (!(await this.acquireLock())) {
-      this.log.error("Failed to acquire lock for saving run");
-      return;
-    }
-    this.log.trace("Saving test run", {
-      runId: testRun.runId,
-      status: testRun.status,
-      stepCount: testRun.steps.length,
-      executedFromCache: testRun.executedFromCache,
-    });
+    return this.runExclusive(async () => {
+      if (!(await this.acquireLock())) {
+        this.log.error("Failed to acquire lock for saving run");
+        return;
+      }
+      this.log.trace("Saving test run", {
+        runId: testRun.runId,
+        status: testRun.status,
+        stepCount: testRun.steps.length,
+        executedFromCache: testRun.executedFromCache,
+      });
 
-    try {
-      const cacheEntry: CacheEntry = {
-        metadata: {
-          timestamp: Date.now(),
-          version: TestRunRepository.VERSION,
-          status: testRun.status,
-          reason: testRun.reason,
-          tokenUsage: testRun.tokenUsage,
-          runId: testRun.runId,
-          executedFromCache: testRun.executedFromCache,
-        },
-        test: {
-          name: this.testCase.name,
-          filePath: this.testCase.filePath,
-        },
-        data: {
-          steps: testRun.getSteps(),
-        },
-      };
-
-      await fs.writeFile(
-        this.getTestRunFilePath(testRun),
-        JSON.stringify(cacheEntry, null, 2),
-        "utf-8",
-      );
-    } finally {
-      this.resetTestRuns();
-      await this.releaseLock();
-    }
+      try {
+        const cacheEntry: CacheEntry = {
+          metadata: {
+            timestamp: Date.now(),
+            version: TestRunRepository.VERSION,
+            status: testRun.status,
+            reason: testRun.reason,
+            tokenUsage: testRun.tokenUsage,
+            runId: testRun.runId,
+            executedFromCache: testRun.executedFromCache,
+            attempt: testRun.attempt,
+            promptHash: testRun.promptHash,
+            browser: testRun.browserName,
+            viewport: testRun.viewport,
+            project: testRun.project,
+            expectations: testRun.expectationResults,
+            artifacts: testRun.artifacts,
+          },
+          test: {
+            name: this.testCase.name,
+            filePath: this.testCase.filePath,
+          },
+          data: {
+            steps: testRun.getSteps(),
+          },
+        };
+
+        await fs.writeFile(
+          this.getTestRunFilePath(testRun),
+          JSON.stringify(cacheEntry, null, 2),
+          "utf-8",
+        );
+      } finally {
+        this.resetTestRuns();
+        await this.releaseLock();
+      }
+    });
   }
 
   /**
@@ -274,19 +315,22 @@ export class TestRunRepository {
   /**
    * Applies retention policy to limit disk usage
    *
-   * Keeps only the latest passed run, or if no passed runs exist,
-   * keeps only the most recent run.
+   * Keeps only the latest passed run of each project, browser engine and
+   * viewport, or if no passed runs exist, keeps only the most recent run.
    *
+   * @param {Object} [options] - Retention options
+   * @param {string[]} [options.keptRunIds] - Runs kept regardless of the policy, such as the attempts of the latest run
    * @returns {Promise<void>}
    */
-  async applyRetentionPolicy(): Promise<void> {
+  async applyRetentionPolicy({
+    keptRunIds = [],
+  }: { keptRunIds?: string[] } = {}): Promise<void> {
     this.log.setGroup("🗑️");
     this.log.trace("Applying test run repository retention policy", {
       identifier: this.testCase.identifier,
     });
 
     const allRuns = await this.getRuns();
-    const latestPassedRun = await this.getLatestPassedRun();
     let deletedCount = 0;
 
     // First pass: Delete any runs with outdated versions
@@ -302,71 +346,92 @@ export class TestRunRepository {
       }
     }
 
-    // Second pass: Deal with current version runs
-    // If we have a passed run, keep only that one
-    if (latestPassedRun) {
-      for (const run of allRuns) {
-        if (
-          run.version === TestRunRepository.VERSION &&
-          run.runId !== latestPassedRun.runId
-        ) {
-          this.log.trace("Deleting run (keeping only latest passed)", {
-            runId: run.runId,
-            status: run.status,
-          });
-          await this.deleteRun(run);
-          deletedCount++;
-        }
-      }
-
-      this.log.trace("Retention policy applied successfully", {
-        keptRunId: latestPassedRun.runId,
-        deletedCount,
-      });
-    }
-    // If no passed run, keep only up to MAX_RUNS_PER_TEST most recent runs
-    else {
-      const MAX_RUNS_PER_TEST = 1;
-
-      const currentVersionRuns = allRuns.filter(
-        (run) =>
-          run.version === TestRunRepository.VERSION && !run.executedFromCache,
+    // Second pass: Deal with current version runs of each project, browser
+    // engine and viewport, as cached runs only replay on the ones that recorded
+    // them. Projects tell apart devices sharing a viewport.
+    const getReplayKey = ({ project, browserName, viewport }: TestRun) =>
+      `${project ?? ""} ${browserName} ${viewport?.width}x${viewport?.height}`;
+    const replayKeys = new Set(allRuns.map(getReplayKey));
+    for (const replayKey of replayKeys) {
+      const replayRuns = allRuns.filter(
+        (run) => getReplayKey(run) === replayKey,
       );
+      const { project, browserName, viewport } = replayRuns[0];
+      const latestPassedRun = await this.getLatestPassedRun({
+        browserName,
+        viewport,
+        project: project ?? null,
+      });
 
-      if (currentVersionRuns.length > 0) {
-        // Sort by timestamp (newest first)
-        const sortedRuns = [...currentVersionRuns].sort(
-          (a, b) => b.timestamp - a.timestamp,
-        );
-
-        // Keep the most recent MAX_RUNS_PER_TEST runs
-        const runsToKeep = sortedRuns.slice(0, MAX_RUNS_PER_TEST);
-        const runIdsToKeep = new Set(runsToKeep.map((run) => run.runId));
-
-        // Delete all except the runs we want to keep
-        for (const run of currentVersionRuns) {
-          if (!runIdsToKeep.has(run.runId)) {
-            this.log.trace("Deleting run (exceeds max runs per test)", {
+      // If we have a passed run, keep only that one
+      if (latestPassedRun) {
+        for (const run of replayRuns) {
+          if (
+            run.version === TestRunRepository.VERSION &&
+            run.runId !== latestPassedRun.runId &&
+            !keptRunIds.includes(run.runId)
+          ) {
+            this.log.trace("Deleting run (keeping only latest passed)", {
               runId: run.runId,
               status: run.status,
-              maxRuns: MAX_RUNS_PER_TEST,
             });
             await this.deleteRun(run);
             deletedCount++;
           }
         }
 
-        if (runsToKeep.length === 1) {
-          this.log.trace("Keeping latest run", {
-            keptRunId: runsToKeep[0].runId,
-            status: runsToKeep[0].status,
-            deletedCount,
-          });
-        } else {
-          this.log.trace(`Keeping ${runsToKeep.length} most recent runs`, {
-            keptRunIds: runsToKeep.map((run) => run.runId),
-            deletedCount,
-          });
+        this.log.trace("Retention policy applied successfully", {
+          keptRunId: latestPassedRun.runId,
+          deletedCount,
+        });
+      }
+      // If no passed run, keep only up to MAX_RUNS_PER_TEST most recent runs
+      else {
+        const MAX_RUNS_PER_TEST = 1;
+
+        const currentVersionRuns = replayRuns.filter(
+          (run) =>
+            run.version === TestRunRepository.VERSION && !run.executedFromCache,
+        );
+
+        if (currentVersionRuns.length > 0) {
+          // Sort by timestamp (newest first)
+          const sortedRuns = [...currentVersionRuns].sort(
+            (a, b) => b.timestamp - a.timestamp,
+          );
+
+          // Keep the most recent MAX_RUNS_PER_TEST runs
+          const runsToKeep = sortedRuns.slice(0, MAX_RUNS_PER_TEST);
+          const runIdsToKeep = new Set(runsToKeep.map((run) => run.runId));
+
+          // Delete all except the runs we want to keep
+          for (const run of currentVersionRuns) {
+            if (
+              !runIdsToKeep.has(run.runId) &&
+              !keptRunIds.includes(run.runId)
+            ) {
+              this.log.trace("Deleting run (exceeds max runs per test)", {
+                runId: run.runId,
+                status: run.status,
+                maxRuns: MAX_RUNS_PER_TEST,
+              });
+              await this.deleteRun(run);
+              deletedCount++;
+            }
+          }
+
+          if (runsToKeep.length === 1) {
+            this.log.trace("Keeping latest run", {
+              keptRunId: runsToKeep[0].runId,
+              status: runsToKeep[0].status,
+              deletedCount,
+            });
+          } else {
+            this.log.trace(`Keeping ${runsToKeep.length} most recent runs`, {
+              keptRunIds: runsToKeep.map((run) => run.runId),
+              deletedCount,
+            });
+          }
         }
       }
     }
@@ -381,9 +446,11 @@ export class TestRunRepository {
    */
   public async releaseLock(): Promise<void> {
     if (this.lockAcquired) {
+      // Reset before unlinking so that a lock acquired by a queued operation
+      // in the meantime is not reported as released
+      this.lockAcquired = false;
       try {
         await fs.unlink(this.lockFilePath);
-        this.lockAcquired = false;
         TestRunRepository.activeRepositories.delete(this);
       } catch (error) {
         if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
@@ -409,6 +476,41 @@ export class TestRunRepository {
     return runDirPath;
   }
 
+  /**
+   * Gets the directory path for a test run's artifacts
+   *
+   * @param {TestRun} testRun - Test run to get directory path for
+   * @returns {string} Path to the test run directory
+   */
+  public getTestRunDirPath(testRun: TestRun): string {
+    return path.join(this.globalCacheDir, testRun.runId);
+  }
+
+  /**
+   * Gets the directory path of the trace, video and HAR file of a test run
+   *
+   * @param {TestRun} testRun - Test run to get directory path for
+   * @returns {string} Path to the recording directory
+   */
+  public getRecordingDirPath(testRun: TestRun): string {
+    return path.join(this.runsDir, testRun.runId);
+  }
+
+  /**
+   * Runs an operation once all previously queued operations of this
+   * repository have settled, so concurrent workers in the same process take
+   * turns on the cache file lock instead of racing for it
+   *
+   * @param {() => Promise<T>} operation - Operation to run
+   * @returns {Promise<T>} Result of the operation
+   * @private
+   */
+  private runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lockQueue.then(operation, operation);
+    this.lockQueue = result.catch(() => {});
+    return result;
+  }
+
   /**
    * Acquires a lock for cache file access
    *
@@ -429,6 +531,7 @@ export class TestRunRepository {
           flag: "wx",
         });
         this.lockAcquired = true;
+        TestRunRepository.activeRepositories.add(this);
         return true;
       } catch (error) {
         if ((error as NodeJS.ErrnoException).code === "EEXIST") {
@@ -499,17 +602,6 @@ export class TestRunRepository {
     return path.join(this.globalCacheDir, `${testRun.runId}.json`);
   }
 
-  /**
-   * Gets the directory path for a test run's artifacts
-   *
-   * @param {TestRun} testRun - Test run to get directory path for
-   * @returns {string} Path to the test run directory
-   * @private
-   */
-  private getTestRunDirPath(testRun: TestRun): string {
-    return path.join(this.globalCacheDir, testRun.runId);
-  }
-
   /**
    * Resets the cached test runs to force reloading from disk
    *
@@ -2,14 +2,23 @@ import { TestRunRepository } from "./test-run-repository";
 import { TestStatus } from "@/core/runner";
 import { TestCase } from "@/core/runner/test-case";
 import { getLogger, Log } from "@/log";
-import { TokenUsage } from "@/types/ai";
+import { ExpectationResult, TokenUsage } from "@/types/ai";
+import {
+  DEFAULT_VIEWPORT,
+  RecordingArtifacts,
+  ViewportSize,
+} from "@/types/browser";
 import { CacheEntry, CacheStep } from "@/types/cache";
+import { BrowserName } from "@/types/config";
 import { ShortestError } from "@/utils/errors";
 
 // eslint-disable-next-line zod/require-zod-schema-types
 type TestRunState =
   | { status: Extract<TestStatus, "failed" | "passed">; reason: string }
-  | { status: Extract<TestStatus, "pending" | "running">; reason?: string };
+  | {
+      status: Extract<TestStatus, "pending" | "running" | "skipped">;
+      reason?: string;
+    };
 
 /**
  * Represents a single test execution with state management and token tracking.
@@ -29,9 +38,30 @@ export class TestRun {
   /**
    * Creates a new TestRun instance from a test case
    * @param {TestCase} testCase - The test case to be executed
+   * @param {Object} [options] - Run options
+   * @param {number} [options.attempt] - Attempt number, starting at 1 and increased on each retry
+   * @param {string} [options.promptHash] - Hash of the system prompt of the test
+   * @param {BrowserName} [options.browserName] - Browser engine running the test
+   * @param {ViewportSize} [options.viewport] - Viewport of the browser page
+   * @param {string} [options.project] - Name of the project running the test
    * @returns {TestRun} A new TestRun instance with pending status
    */
-  public static create(testCase: TestCase): TestRun {
+  public static create(
+    testCase: TestCase,
+    {
+      attempt = 1,
+      promptHash,
+      browserName = "chromium",
+      viewport = DEFAULT_VIEWPORT,
+      project,
+    }: {
+      attempt?: number;
+      promptHash?: string;
+      browserName?: BrowserName;
+      viewport?: ViewportSize;
+      project?: string;
+    } = {},
+  ): TestRun {
     const log = getLogger();
     const startedAt = new Date();
     const timestamp = startedAt.getTime();
@@ -40,11 +70,17 @@ export class TestRun {
 
     log.trace("Creating TestRun", {
       runId,
+      attempt,
     });
     return new TestRun(testCase, {
       runId,
       timestamp,
       executedFromCache: false,
+      attempt,
+      promptHash,
+      browserName,
+      viewport,
+      project,
     });
   }
 
@@ -67,6 +103,11 @@ export class TestRun {
       runId: cacheEntry.metadata.runId,
       timestamp: cacheEntry.metadata.timestamp,
       executedFromCache: cacheEntry.metadata.executedFromCache,
+      attempt: cacheEntry.metadata.attempt ?? 1,
+      promptHash: cacheEntry.metadata.promptHash,
+      browserName: cacheEntry.metadata.browser ?? "chromium",
+      viewport: cacheEntry.metadata.viewport ?? DEFAULT_VIEWPORT,
+      project: cacheEntry.metadata.project,
     });
 
     testRun.version =
@@ -78,6 +119,8 @@ export class TestRun {
       reason: cacheEntry.metadata.reason,
     } as TestRunState;
     testRun.tokenUsage = cacheEntry.metadata.tokenUsage;
+    testRun.expectationResults = cacheEntry.metadata.expectations ?? [];
+    testRun.artifacts = cacheEntry.metadata.artifacts ?? {};
     if (cacheEntry.data.steps) {
       testRun.steps = [...cacheEntry.data.steps];
     }
@@ -88,6 +131,14 @@ export class TestRun {
   public readonly log: Log;
   public readonly runId: string;
   public readonly timestamp: number;
+  public readonly attempt: number;
+  // Hash of the system prompt, cached runs only replay with the same prompt
+  public readonly promptHash?: string;
+  // Coordinates recorded on one engine or viewport are not replayed on another
+  public readonly browserName: BrowserName;
+  public readonly viewport: ViewportSize;
+  // Set when the config has projects
+  public readonly project?: string;
 
   public steps: CacheStep[] = [];
   public tokenUsage: TokenUsage = {
@@ -95,9 +146,14 @@ export class TestRun {
     promptTokens: 0,
     totalTokens: 0,
   };
+  // Verdicts of the AI on the expectations of the test, by expectation index
+  public expectationResults: ExpectationResult[] = [];
+  // Trace, video and HAR file of the test run, when recorded
+  public artifacts: RecordingArtifacts = {};
   public version: number = TestRunRepository.VERSION;
 
   private _executedFromCache: boolean = false;
+  private finishedAt?: number;
   private state: TestRunState = { status: "pending" } as TestRunState;
 
   private constructor(
@@ -106,13 +162,32 @@ export class TestRun {
       runId,
       timestamp,
       executedFromCache,
-    }: { runId: string; timestamp: number; executedFromCache: boolean },
+      attempt,
+      promptHash,
+      browserName,
+      viewport,
+      project,
+    }: {
+      runId: string;
+      timestamp: number;
+      executedFromCache: boolean;
+      attempt: number;
+      promptHash?: string;
+      browserName: BrowserName;
+      viewport: ViewportSize;
+      project?: string;
+    },
   ) {
     this.testCase = testCase;
     this.log = getLogger();
     this.runId = runId;
     this.timestamp = timestamp;
     this._executedFromCache = executedFromCache;
+    this.attempt = attempt;
+    this.promptHash = promptHash;
+    this.browserName = browserName;
+    this.viewport = viewport;
+    this.project = project;
   }
 
   /**
@@ -123,6 +198,22 @@ export class TestRun {
     return this._executedFromCache;
   }
 
+  /**
+   * Gets how long the test run took, from creation until it passed or failed
+   * @returns {number} Duration in milliseconds, 0 if the run has not finished
+   */
+  get duration() {
+    return this.finishedAt ? this.finishedAt - this.timestamp : 0;
+  }
+
+  /**
+   * Gets whether the test passed only after being retried
+   * @returns {boolean} True if passed on an attempt other than the first one
+   */
+  get flaky() {
+    return this.status === "passed" && this.attempt > 1;
+  }
+
   /**
    * Gets the reason for the current test status
    * @returns {string|undefined} The reason string or undefined if not set
@@ -131,6 +222,16 @@ export class TestRun {
     return this.state.reason;
   }
 
+  /**
+   * Gets the expectations the AI found not met
+   * @returns {ExpectationResult[]} Failed expectation results
+   */
+  get failedExpectations() {
+    return this.expectationResults.filter(
+      (result) => result.status === "failed",
+    );
+  }
+
   /**
    * Gets the current test status
    * @returns {TestStatus} The current status of the test
@@ -154,6 +255,7 @@ export class TestRun {
    * @param {Object} options - Pass options
    * @param {string} options.reason - Reason for passing
    * @param {TokenUsage} [options.tokenUsage] - Optional token usage stats
+   * @param {ExpectationResult[]} [options.expectations] - Verdicts of the AI on the expectations
    * @throws {ShortestError} If test is not in running state
    *
    * @private
@@ -161,14 +263,18 @@ export class TestRun {
   markPassed({
     reason,
     tokenUsage,
+    expectations,
   }: {
     reason: string;
     tokenUsage?: TokenUsage;
+    expectations?: ExpectationResult[];
   }) {
     if (this.status !== "running")
       throw new ShortestError("Can only pass from running state");
     this.state = { status: "passed", reason };
+    this.finishedAt = Date.now();
     if (tokenUsage) this.tokenUsage = tokenUsage;
+    if (expectations) this.expectationResults = expectations;
   }
 
   /**
@@ -189,18 +295,38 @@ export class TestRun {
    * @param {Object} options - Fail options
    * @param {string} options.reason - Reason for failure
    * @param {TokenUsage} [options.tokenUsage] - Optional token usage stats
+   * @param {ExpectationResult[]} [options.expectations] - Verdicts of the AI on the expectations
    *
    * @private
    */
   markFailed({
     reason,
     tokenUsage,
+    expectations,
   }: {
     reason: string;
     tokenUsage?: TokenUsage;
+    expectations?: ExpectationResult[];
   }) {
     this.state = { status: "failed", reason };
+    this.finishedAt = Date.now();
     if (tokenUsage) this.tokenUsage = tokenUsage;
+    if (expectations) this.expectationResults = expectations;
+  }
+
+  /**
+   * Marks the test as skipped, without running it
+   * @param {Object} options - Skip options
+   * @param {string} [options.reason] - Reason for skipping
+   * @throws {ShortestError} If test is not in pending state
+   *
+   * @private
+   */
+  markSkipped({ reason }: { reason?: string } = {}) {
+    if (this.status !== "pending")
+      throw new ShortestError("Can only skip from pending state");
+    this.state = { status: "skipped", reason };
+    this.finishedAt = Date.now();
   }
 
   /**
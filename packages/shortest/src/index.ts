@@ -4,12 +4,16 @@ import { expect as jestExpect } from "expect";
 import { APIRequest } from "@/browser/core/api-request";
 import { CONFIG_FILENAME, ENV_LOCAL_FILENAME } from "@/constants";
 import { TestCompiler } from "@/core/compiler";
-import { createTestCase, TestCase } from "@/core/runner/test-case";
+import { createTestCase, TestCase, TestSkip } from "@/core/runner/test-case";
+import { normalizeTag } from "@/core/runner/test-filter";
 import { getLogger } from "@/log";
 import {
   TestAPI,
   TestContext,
   TestChain,
+  TestOptions,
+  TestGroup,
+  TestSkipFunction,
   ShortestStrictConfig,
   CLIOptions,
 } from "@/types";
@@ -38,6 +42,12 @@ if (!global.__shortest__) {
       afterAllFns: [],
       beforeEachFns: [],
       afterEachFns: [],
+      instructions: [],
+      // Innermost describe block being declared, if any
+      currentGroup: undefined,
+      // Set by a conditional shortest.skip() outside of describe blocks
+      skip: undefined,
+      testGroups: new Map<TestCase, TestGroup>(),
       directTestCount: 0,
     },
   };
@@ -119,10 +129,87 @@ export const getConfig = (): ShortestStrictConfig => {
   return globalConfig;
 };
 
+const parseRetries = (count: number): number => {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new ShortestError(
+      `retries() expects a non-negative integer, received: ${count}`,
+    );
+  }
+  return count;
+};
+
+const parseTags = (tags: unknown[]): string[] => {
+  const parsedTags = tags.map((tag) => {
+    if (typeof tag !== "string" || !/^@?[^\s,]+$/.test(tag)) {
+      throw new ShortestError(
+        `Tags must be non-empty strings without spaces or commas, received: ${JSON.stringify(tag)}`,
+      );
+    }
+    return normalizeTag(tag);
+  });
+  return [...new Set(parsedTags)];
+};
+
+const parseInstructions = (instructions: unknown[]): string[] => {
+  for (const instruction of instructions) {
+    if (typeof instruction !== "string" || !instruction.trim()) {
+      throw new ShortestError(
+        `Instructions must be non-empty strings, received: ${JSON.stringify(instruction)}`,
+      );
+    }
+  }
+  return (instructions as string[]).map((instruction) => instruction.trim());
+};
+
+// Set on the options created by shortest.options(), so that a payload with
+// the same keys is not mistaken for options
+const TEST_OPTIONS_BRAND = Symbol("shortest.testOptions");
+
+const isTestOptions = (value: unknown): value is TestOptions =>
+  typeof value === "object" && value !== null && TEST_OPTIONS_BRAND in value;
+
+const parseStorageState = (storageState: unknown): string | undefined => {
+  if (
+    storageState !== undefined &&
+    (typeof storageState !== "string" || !storageState)
+  ) {
+    throw new ShortestError(
+      `use.storageState must be the name of a setup, received: ${JSON.stringify(storageState)}`,
+    );
+  }
+  return storageState;
+};
+
+const getCurrentDescribePath = (): string[] | undefined => {
+  const describePath: string[] = [];
+  for (
+    let group: TestGroup | undefined =
+      global.__shortest__.registry.currentGroup;
+    group;
+    group = group.parent
+  ) {
+    describePath.unshift(group.name);
+  }
+  return describePath.length > 0 ? describePath : undefined;
+};
+
+const registerTestCase = (testCase: TestCase) => {
+  const registry = global.__shortest__.registry;
+  registry.currentFileTests.push(testCase);
+  if (registry.currentGroup) {
+    registry.testGroups.set(testCase, registry.currentGroup);
+  }
+};
+
+// Hooks and conditional skips declared in a describe block are scoped to it
+const getCurrentScope = () =>
+  global.__shortest__.registry.currentGroup ?? global.__shortest__.registry;
+
 const createTestChain = (
   nameOrFn: string | string[] | ((context: TestContext) => Promise<void>),
   payloadOrFn?: ((context: TestContext) => Promise<void>) | any,
   fn?: (context: TestContext) => Promise<void>,
+  modifiers: Pick<TestCase, "only" | "skip"> = {},
 ): TestChain => {
   const registry = global.__shortest__.registry;
 
@@ -134,11 +221,13 @@ const createTestChain = (
         name: normalizeName(name),
         filePath: registry.currentFilePath,
         expectations: [],
+        describePath: getCurrentDescribePath(),
+        ...modifiers,
       });
 
       const existingTests = registry.tests.get(name) || [];
       registry.tests.set(name, [...existingTests, testCase]);
-      registry.currentFileTests.push(testCase);
+      registerTestCase(testCase);
       return testCase;
     });
 
@@ -147,7 +236,7 @@ const createTestChain = (
     if (!lastTest.name) {
       throw new ShortestError("Test name is required");
     }
-    return createTestChain(lastTest.name, payloadOrFn, fn);
+    return createTestChain(lastTest.name, payloadOrFn, fn, modifiers);
   }
 
   // Handle direct execution
@@ -158,9 +247,11 @@ const createTestChain = (
       filePath: registry.currentFilePath,
       directExecution: true,
       fn: nameOrFn,
+      describePath: getCurrentDescribePath(),
+      ...modifiers,
     });
-    registry.currentFileTests.push(testCase);
-    return {
+    registerTestCase(testCase);
+    const directChain: TestChain = {
       expect: () => {
         throw new ShortestError(
           "expect() cannot be called on direct execution test",
@@ -176,22 +267,42 @@ const createTestChain = (
           "before() cannot be called on direct execution test",
         );
       },
+      retries: (count: number) => {
+        testCase.retries = parseRetries(count);
+        return directChain;
+      },
+      tag: (...tags: string[]) => {
+        testCase.tags = parseTags([...(testCase.tags ?? []), ...tags]);
+        return directChain;
+      },
+      instructions: () => {
+        throw new ShortestError(
+          "instructions() cannot be called on direct execution test",
+        );
+      },
     };
+    return directChain;
   }
 
   // Rest of existing createTestChain implementation...
   const name = normalizeName(nameOrFn as string);
+  const options = isTestOptions(payloadOrFn) ? payloadOrFn : undefined;
   const testCase = createTestCase({
     name,
     filePath: registry.currentFilePath,
-    payload: typeof payloadOrFn === "function" ? undefined : payloadOrFn,
+    payload:
+      typeof payloadOrFn === "function" || options ? undefined : payloadOrFn,
     fn: typeof payloadOrFn === "function" ? payloadOrFn : fn,
     expectations: [],
+    tags: options?.tags ? parseTags(options.tags) : undefined,
+    storageState: parseStorageState(options?.use?.storageState),
+    describePath: getCurrentDescribePath(),
+    ...modifiers,
   });
 
   let existingTests = registry.tests.get(name) || [];
   registry.tests.set(name, [...existingTests, testCase]);
-  registry.currentFileTests.push(testCase);
+  registerTestCase(testCase);
 
   const chain: TestChain = {
     expect(
@@ -226,11 +337,48 @@ const createTestChain = (
       testCase.afterFn = (context) => Promise.resolve(fn(context));
       return chain;
     },
+    retries(count: number) {
+      testCase.retries = parseRetries(count);
+      return chain;
+    },
+    tag(...tags: string[]) {
+      testCase.tags = parseTags([...(testCase.tags ?? []), ...tags]);
+      return chain;
+    },
+    instructions(...instructions: string[]) {
+      testCase.instructions = [
+        ...(testCase.instructions ?? []),
+        ...parseInstructions(instructions),
+      ];
+      return chain;
+    },
   };
 
   return chain;
 };
 
+const createSkipFunction =
+  (type: TestSkip["type"]): TestSkipFunction =>
+  (
+    nameOrConditionOrFn:
+      | boolean
+      | string
+      | string[]
+      | ((context: TestContext) => Promise<void>),
+    payloadOrReason?: any,
+    fn?: (context: TestContext) => Promise<void>,
+  ): any => {
+    if (typeof nameOrConditionOrFn === "boolean") {
+      if (nameOrConditionOrFn) {
+        getCurrentScope().skip = { type, reason: payloadOrReason };
+      }
+      return;
+    }
+    return createTestChain(nameOrConditionOrFn, payloadOrReason, fn, {
+      skip: { type },
+    });
+  };
+
 export const test: TestAPI = Object.assign(
   (
     nameOrFn: string | string[] | ((context: TestContext) => Promise<void>),
@@ -238,25 +386,67 @@ export const test: TestAPI = Object.assign(
     fn?: (context: TestContext) => Promise<void>,
   ) => createTestChain(nameOrFn, payloadOrFn, fn),
   {
+    only: (
+      nameOrFn: string | string[] | ((context: TestContext) => Promise<void>),
+      payloadOrFn?: ((context: TestContext) => Promise<void>) | any,
+      fn?: (context: TestContext) => Promise<void>,
+    ) => createTestChain(nameOrFn, payloadOrFn, fn, { only: true }),
+    skip: createSkipFunction("skip"),
+    fixme: createSkipFunction("fixme"),
     beforeAll: (nameOrFn: string | ((ctx: TestContext) => Promise<void>)) => {
       const hook = typeof nameOrFn === "function" ? nameOrFn : undefined;
-      if (hook) global.__shortest__.registry.beforeAllFns.push(hook);
+      if (hook) getCurrentScope().beforeAllFns.push(hook);
     },
     afterAll: (nameOrFn: string | ((ctx: TestContext) => Promise<void>)) => {
       const hook = typeof nameOrFn === "function" ? nameOrFn : undefined;
-      if (hook) global.__shortest__.registry.afterAllFns.push(hook);
+      if (hook) getCurrentScope().afterAllFns.push(hook);
     },
     beforeEach: (nameOrFn: string | ((ctx: TestContext) => Promise<void>)) => {
       const hook = typeof nameOrFn === "function" ? nameOrFn : undefined;
-      if (hook) global.__shortest__.registry.beforeEachFns.push(hook);
+      if (hook) getCurrentScope().beforeEachFns.push(hook);
     },
     afterEach: (nameOrFn: string | ((ctx: TestContext) => Promise<void>)) => {
       const hook = typeof nameOrFn === "function" ? nameOrFn : undefined;
-      if (hook) global.__shortest__.registry.afterEachFns.push(hook);
+      if (hook) getCurrentScope().afterEachFns.push(hook);
+    },
+    describe: (name: string, fn: () => void) => {
+      const registry = global.__shortest__.registry;
+      const parent: TestGroup | undefined = registry.currentGroup;
+      registry.currentGroup = {
+        name: name.replace(/\s+/g, " ").trim(),
+        parent,
+        beforeAllFns: [],
+        afterAllFns: [],
+        beforeEachFns: [],
+        afterEachFns: [],
+        instructions: [],
+      } satisfies TestGroup;
+      try {
+        const result: unknown = fn();
+        if (typeof (result as PromiseLike<unknown>)?.then === "function") {
+          // Its tests would be declared outside of the block, and its errors
+          // would go unhandled, so only its own error is reported
+          (result as PromiseLike<unknown>).then(undefined, () => {});
+          throw new ShortestError(
+            `describe() expects a synchronous function, "${name}" returned a promise`,
+          );
+        }
+      } finally {
+        registry.currentGroup = parent;
+      }
+    },
+    instructions: (...instructions: string[]) => {
+      getCurrentScope().instructions.push(...parseInstructions(instructions));
     },
+    options: (options: TestOptions): TestOptions =>
+      Object.defineProperty({ ...options }, TEST_OPTIONS_BRAND, {
+        value: true,
+      }),
   },
 );
 
 export const shortest: TestAPI = test;
 export type { ShortestConfig } from "@/types/config";
+export type { Reporter } from "@/types/reporter";
+export type { FileReport, RunReport, TestReport } from "@/core/runner/reports";
 export { APIRequest };
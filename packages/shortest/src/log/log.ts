@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "async_hooks";
 import pc from "picocolors";
 import { z } from "zod";
 import { LOG_LEVELS, LogLevel, LogConfig, LogConfigSchema } from "@/log/config";
@@ -32,9 +33,23 @@ import { ConfigError } from "@/utils/errors";
  * @private
  */
 export class Log {
+  private static groupScope = new AsyncLocalStorage<
+    Map<Log, LogGroup | undefined>
+  >();
+
+  /**
+   * Runs a function with log groups isolated from concurrently running code.
+   * Groups set inside the function start from the groups active at call time
+   * and are not visible outside of it.
+   */
+  static runInGroupScope<T>(fn: () => T): T {
+    const parentScope = Log.groupScope.getStore();
+    return Log.groupScope.run(new Map(parentScope), fn);
+  }
+
   readonly config: LogConfig;
   // private events: LogEvent[] = [];
-  private currentGroup?: LogGroup;
+  private rootGroup?: LogGroup;
 
   constructor(config: Partial<LogConfig> = {}) {
     try {
@@ -50,6 +65,20 @@ export class Log {
     }
   }
 
+  private get currentGroup(): LogGroup | undefined {
+    const scope = Log.groupScope.getStore();
+    return scope?.has(this) ? scope.get(this) : this.rootGroup;
+  }
+
+  private set currentGroup(group: LogGroup | undefined) {
+    const scope = Log.groupScope.getStore();
+    if (scope) {
+      scope.set(this, group);
+    } else {
+      this.rootGroup = group;
+    }
+  }
+
   /**
    * Core logging method that handles metadata extraction and event creation
    */
@@ -8,8 +8,13 @@ import { createGithubLoginTool } from "@/ai/tools/custom/github_login";
 import { createNavigateTool } from "@/ai/tools/custom/navigate";
 import { createRunCallbackTool } from "@/ai/tools/custom/run_callback";
 import { createSleepTool } from "@/ai/tools/custom/sleep";
+import { createClickElementTool } from "@/ai/tools/dom/click_element";
+import { createFillTool } from "@/ai/tools/dom/fill";
+import { createSnapshotTool } from "@/ai/tools/dom/snapshot";
+import { createFunctionComputer } from "@/ai/tools/function/computer";
 import {
   anthropicToolTypeSchema,
+  FUNCTION_COMPUTER_TOOL_KEY,
   toolFactorySchema,
   ToolRegistry,
 } from "@/tools/tool-registry";
@@ -28,6 +33,11 @@ const toolToRegisterSchema = z.union([
     category: z.literal("custom"),
     factory: toolFactorySchema,
   }),
+  z.object({
+    name: z.string(),
+    category: z.literal("dom"),
+    factory: toolFactorySchema,
+  }),
 ]);
 type ToolToRegister = z.infer<typeof toolToRegisterSchema>;
 
@@ -61,6 +71,11 @@ export const createToolRegistry = (): ToolRegistry => {
       category: "provider",
       factory: createAnthropicBash20250124,
     },
+    [FUNCTION_COMPUTER_TOOL_KEY]: {
+      name: "computer",
+      category: "provider",
+      factory: createFunctionComputer,
+    },
     check_email: {
       name: "check_email",
       category: "custom",
@@ -86,6 +101,21 @@ export const createToolRegistry = (): ToolRegistry => {
       category: "custom",
       factory: createSleepTool,
     },
+    snapshot: {
+      name: "snapshot",
+      category: "dom",
+      factory: createSnapshotTool,
+    },
+    click_element: {
+      name: "click_element",
+      category: "dom",
+      factory: createClickElementTool,
+    },
+    fill: {
+      name: "fill",
+      category: "dom",
+      factory: createFillTool,
+    },
   };
   Object.entries(toolsToRegister).forEach(([key, value]) => {
     toolRegistry.registerTool(key, value);
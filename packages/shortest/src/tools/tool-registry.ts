@@ -2,10 +2,10 @@ import { Tool } from "ai";
 import { z } from "zod";
 import { BrowserTool } from "@/browser/core/browser-tool";
 import { getLogger, Log } from "@/log";
-import { AnthropicModel } from "@/types/config";
+import { AgentMode, AnthropicModel } from "@/types/config";
 import { ShortestError } from "@/utils/errors";
 
-const TOOL_ENTRY_CATEGORIES = ["provider", "custom"] as const;
+const TOOL_ENTRY_CATEGORIES = ["provider", "custom", "dom"] as const;
 const toolEntryCategorySchema = z.enum(TOOL_ENTRY_CATEGORIES);
 const toolFactoryNoArgSchema = z.function().args().returns(z.custom<Tool>());
 
@@ -54,6 +54,25 @@ const ANTHROPIC_MODEL_TO_FAMILY: Record<AnthropicModel, AnthropicModelFamily> =
     "claude-3-7-sonnet-20250219": "claude-3-7",
   };
 
+/**
+ * Key of the function-calling computer tool, used by models without native
+ * computer use
+ */
+export const FUNCTION_COMPUTER_TOOL_KEY = "function_computer";
+
+/**
+ * How a model calls tools: with provider-defined tools such as Anthropic's
+ * computer use, with function calling, or with JSON replies following the tool
+ * descriptions of the system prompt
+ */
+export const toolProtocolSchema = z.enum(["native", "function", "text"]);
+export type ToolProtocol = z.infer<typeof toolProtocolSchema>;
+
+/**
+ * Providers of local models, which often lack reliable function calling
+ */
+const TEXT_TOOL_PROTOCOL_PROVIDERS = ["ollama"];
+
 const ANTHROPIC_TOOL_VERSION_MAP: Record<
   AnthropicModelFamily,
   Record<AnthropicToolType, AnthropicToolVersion>
@@ -96,43 +115,82 @@ export class ToolRegistry {
   }
 
   /**
-   * Retrieves all tools for a specific provider and model
+   * Retrieves all tools for a specific provider and model. The computer tool
+   * is left out in `dom` agent mode, and the page snapshot tools are added in
+   * `dom` and `hybrid` modes.
    *
    * @param provider - The provider name
-   * @param model - The Anthropic model to get tools for
+   * @param model - The model to get tools for
    * @param browserTool - Browser tool instance
+   * @param agentMode - How the AI sees and acts on the page
    * @returns Record of tool name to Tool instance
    *
    * @private
    */
   public getTools(
     provider: string,
-    model: AnthropicModel,
+    model: string,
     browserTool: BrowserTool,
+    agentMode: AgentMode = "screenshot",
   ): Record<string, Tool> {
     const selectedTools: Record<string, Tool> = {};
-    const providerTools = this.getProviderTools(provider, model, browserTool);
-    const customTools = this.getCustomTools(browserTool);
-    Object.assign(selectedTools, providerTools, customTools);
+    const providerTools = this.getProviderTools(
+      provider,
+      model,
+      browserTool,
+      agentMode !== "dom",
+    );
+    const customTools = this.getCategoryTools("custom", browserTool);
+    const domTools =
+      agentMode === "screenshot"
+        ? {}
+        : this.getCategoryTools("dom", browserTool);
+    Object.assign(selectedTools, providerTools, customTools, domTools);
 
     return selectedTools;
   }
 
   /**
-   * Retrieves all custom tools
+   * Retrieves the protocol a model uses to call tools. Models without native
+   * computer use drive the browser with the function computer tool instead.
+   *
+   * @param provider - The provider name
+   * @param model - The model name
+   * @returns Tool protocol of the model
    *
+   * @private
+   */
+  public getToolProtocol(provider: string, model: string): ToolProtocol {
+    try {
+      this.getProviderToolEntry(provider, model, "computer");
+      return "native";
+    } catch (error) {
+      if (!(error instanceof ShortestError)) throw error;
+    }
+    return TEXT_TOOL_PROTOCOL_PROVIDERS.includes(provider)
+      ? "text"
+      : "function";
+  }
+
+  /**
+   * Retrieves all tools of a category
+   *
+   * @param category - Tool category, `custom` or `dom`
    * @param browserTool - Browser tool instance
    * @returns Record of tool name to Tool instance
    *
    * @private
    */
-  private getCustomTools(browserTool: BrowserTool): Record<string, Tool> {
+  private getCategoryTools(
+    category: Exclude<ToolEntry["category"], "provider">,
+    browserTool: BrowserTool,
+  ): Record<string, Tool> {
     const tools: Record<string, Tool> = {};
 
-    const customTools = Array.from(this.tools.values()).filter(
-      (entry) => entry.category === "custom",
+    const categoryTools = Array.from(this.tools.values()).filter(
+      (entry) => entry.category === category,
     );
-    customTools.forEach((entry) => {
+    categoryTools.forEach((entry) => {
       tools[entry.name] = entry.factory(browserTool);
     });
 
@@ -140,32 +198,27 @@ export class ToolRegistry {
   }
 
   /**
-   * Retrieves all provider-specific tools
+   * Retrieves all provider-specific tools, falling back to the
+   * function-calling computer tool for models without native computer use
    *
    * @param provider - The provider name
-   * @param model - The Anthropic model to get tools for
+   * @param model - The model to get tools for
    * @param browserTool - Browser tool instance
+   * @param includeComputer - Whether to include the computer tool
    * @returns Record of tool name to Tool instance
    *
    * @private
    */
   private getProviderTools(
     provider: string,
-    model: AnthropicModel,
+    model: string,
     browserTool: BrowserTool,
+    includeComputer: boolean,
   ): Record<string, Tool> {
     const tools: Record<string, Tool> = {};
 
-    try {
-      const computerToolEntry = this.getProviderToolEntry(
-        provider,
-        model,
-        "computer",
-      );
-      tools[computerToolEntry.name] = computerToolEntry.factory(browserTool);
-    } catch (error) {
-      if (!(error instanceof ShortestError)) throw error;
-      this.log.trace("Computer tool not found for model, skipping", { model });
+    if (includeComputer) {
+      Object.assign(tools, this.getComputerTool(provider, model, browserTool));
     }
 
     try {
@@ -181,11 +234,57 @@ export class ToolRegistry {
     return tools;
   }
 
+  /**
+   * Retrieves the computer tool of a model, falling back to the
+   * function-calling computer tool for models without native computer use
+   *
+   * @param provider - The provider name
+   * @param model - The model to get the tool for
+   * @param browserTool - Browser tool instance
+   * @returns Record of tool name to Tool instance
+   *
+   * @private
+   */
+  private getComputerTool(
+    provider: string,
+    model: string,
+    browserTool: BrowserTool,
+  ): Record<string, Tool> {
+    const tools: Record<string, Tool> = {};
+
+    try {
+      const computerToolEntry = this.getProviderToolEntry(
+        provider,
+        model,
+        "computer",
+      );
+      tools[computerToolEntry.name] = computerToolEntry.factory(browserTool);
+    } catch (error) {
+      if (!(error instanceof ShortestError)) throw error;
+      const functionComputerToolEntry = this.tools.get(
+        FUNCTION_COMPUTER_TOOL_KEY,
+      );
+      if (functionComputerToolEntry) {
+        this.log.trace("Computer tool not found for model, using functions", {
+          model,
+        });
+        tools[functionComputerToolEntry.name] =
+          functionComputerToolEntry.factory(browserTool);
+      } else {
+        this.log.trace("Computer tool not found for model, skipping", {
+          model,
+        });
+      }
+    }
+
+    return tools;
+  }
+
   /**
    * Retrieves a specific provider tool entry
    *
    * @param provider - The provider name
-   * @param model - The Anthropic model
+   * @param model - The model name
    * @param toolType - Type of tool to retrieve
    * @returns Tool entry configuration
    * @throws ShortestError if tool not found
@@ -194,7 +293,7 @@ export class ToolRegistry {
    */
   private getProviderToolEntry(
     provider: string,
-    model: AnthropicModel,
+    model: string,
     toolType: AnthropicToolType,
   ): ToolEntry {
     const toolEntryKey = this.getToolEntryKey(provider, model, toolType);
@@ -210,19 +309,25 @@ export class ToolRegistry {
   /**
    * Generates the key used to look up tool entries
    * @param provider - The provider name
-   * @param model - The Anthropic model
+   * @param model - The model name
    * @param toolType - Type of tool
    * @returns Tool entry key string
+   * @throws ShortestError if the model has no provider tools
    *
    * @private
    */
   private getToolEntryKey(
     provider: string,
-    model: AnthropicModel,
+    model: string,
     toolType: AnthropicToolType,
   ): string {
-    const family = ANTHROPIC_MODEL_TO_FAMILY[model];
+    const family = ANTHROPIC_MODEL_TO_FAMILY[model as AnthropicModel];
+    if (!family) {
+      throw new ShortestError(`No provider tools for model: ${model}`);
+    }
     const version = ANTHROPIC_TOOL_VERSION_MAP[family][toolType];
-    return `${provider}_${toolType}_${version}`;
+    // Transcripts are replayed with the tools of the model they were recorded with
+    const toolProvider = provider === "mock" ? "anthropic" : provider;
+    return `${toolProvider}_${toolType}_${version}`;
   }
 }
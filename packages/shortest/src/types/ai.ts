@@ -6,5 +6,24 @@ export const TokenUsageSchema = z.object({
   completionTokens: z.number().default(0),
   promptTokens: z.number().default(0),
   totalTokens: z.number().default(0),
+  // Prompt tokens read from and written to the prompt cache, not included in promptTokens
+  cacheReadTokens: z.number().optional(),
+  cacheWriteTokens: z.number().optional(),
 });
 export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+
+/**
+ * Verdict of the AI on one expectation of a test
+ *
+ * @property {number} index - Number of the expectation in the test prompt, starting at 1
+ * @property {string} status - Whether the expectation was met
+ * @property {string} evidence - What the AI observed to decide on the expectation
+ * @property {number[]} steps - Numbers of the test steps the verdict relies on, starting at 1
+ */
+export const ExpectationResultSchema = z.object({
+  index: z.number().int().positive(),
+  status: z.enum(["passed", "failed"]),
+  evidence: z.string(),
+  steps: z.array(z.number().int().positive()).default([]),
+});
+export type ExpectationResult = z.infer<typeof ExpectationResultSchema>;
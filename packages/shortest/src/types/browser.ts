@@ -1,3 +1,5 @@
+import type { BrowserContext } from "playwright";
+import { BrowserName } from "@/types/config";
 import { TestContext, Page } from "@/types/test";
 
 export interface BrowserToolInterface {
@@ -36,6 +38,9 @@ export enum InternalActionEnum {
   LEFT_MOUSE_UP = "left_mouse_up",
   WAIT = "wait",
   SCROLL = "scroll",
+  SNAPSHOT = "snapshot",
+  CLICK_ELEMENT = "click_element",
+  FILL = "fill",
 }
 
 // eslint-disable-next-line zod/require-zod-schema-types
@@ -60,6 +65,28 @@ export interface ActionInput {
   email?: string;
   scroll_amount?: number;
   scroll_direction?: string;
+  // Element of the latest page snapshot, or Playwright selector of a cached step
+  ref?: string;
+  // Press Enter once the element is filled
+  submit?: boolean;
+}
+
+/**
+ * Identifies the element targeted by a browser action, so it can be found
+ * again when the action is replayed after the layout changed
+ */
+export interface ElementFingerprint {
+  // Explicit or implicit ARIA role
+  role: string | null;
+  // Accessible name
+  name: string | null;
+  // Value of the `data-testid` attribute
+  testId: string | null;
+  // Visible text, when short enough to identify the element
+  text: string | null;
+  cssPath: string;
+  // Position in the viewport when the action was recorded
+  boundingBox: { x: number; y: number; width: number; height: number };
 }
 
 export interface ToolResult {
@@ -76,11 +103,41 @@ export interface ToolResult {
       position: [number, number];
       visible: boolean;
     };
+    element_fingerprint?: ElementFingerprint;
+    // Selector finding the element targeted by a snapshot ref in later runs
+    element_ref?: string;
   };
 }
 
+/**
+ * Viewport of the browser when neither `browser.device` nor a viewport in
+ * `browser.contextOptions` is set
+ */
+export const DEFAULT_VIEWPORT: ViewportSize = { width: 1920, height: 1080 };
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Cookies and local storage of a browser context, saved by a setup
+ */
+// eslint-disable-next-line zod/require-zod-schema-types
+export type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+/**
+ * Artifacts recorded for a test run, by the `recording` of the config. Paths
+ * are relative to the current working directory.
+ */
+export interface RecordingArtifacts {
+  trace?: string;
+  video?: string;
+  har?: string;
+}
+
 export interface BrowserConfig {
-  name: "chrome" | "firefox" | "safari" | "edge";
+  name: BrowserName;
   headless?: boolean;
   width?: number;
   height?: number;
@@ -1,7 +1,14 @@
-import { TokenUsage } from "./ai";
+import { ExpectationResult, TokenUsage } from "./ai";
 import { TestStatus } from "@/core/runner";
 import { TestCase } from "@/core/runner/test-case";
-import { BrowserAction, ActionInput } from "@/types/browser";
+import {
+  BrowserAction,
+  ActionInput,
+  ElementFingerprint,
+  RecordingArtifacts,
+  ViewportSize,
+} from "@/types/browser";
+import { BrowserName } from "@/types/config";
 
 export interface CacheAction {
   type: "tool_use" | "text";
@@ -14,7 +21,11 @@ export interface CacheStep {
   action: CacheAction | null; // WHAT I DID
   timestamp: number; // WHEN I DID
   result: string | null; // OUTCOME
-  extras?: any;
+  extras?: {
+    componentStr?: string;
+    fingerprint?: ElementFingerprint;
+    [key: string]: any;
+  };
 }
 
 export interface CacheEntry {
@@ -26,6 +37,15 @@ export interface CacheEntry {
     tokenUsage: TokenUsage;
     runId: string;
     executedFromCache: boolean;
+    attempt?: number;
+    promptHash?: string;
+    // Runs saved before other engines were supported ran on Chromium
+    browser?: BrowserName;
+    // Runs saved before viewports were configurable used the default one
+    viewport?: ViewportSize;
+    project?: string;
+    expectations?: ExpectationResult[];
+    artifacts?: RecordingArtifacts;
   };
   test: Pick<TestCase, "name" | "filePath">;
   data: {
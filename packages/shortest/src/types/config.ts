@@ -1,11 +1,26 @@
-import { BrowserContextOptions } from "playwright";
+import { BrowserContextOptions, devices } from "playwright";
 import { z } from "zod";
+import type { Reporter } from "@/types/reporter";
+import type { TestFileHook } from "@/types/test";
+
+/**
+ * Reports written to `.shortest/reports` in addition to the terminal output
+ */
+export const REPORTER_NAMES = ["junit", "json", "html"] as const;
+export const reporterNameSchema = z.enum(REPORTER_NAMES);
+export type ReporterName = z.infer<typeof reporterNameSchema>;
 
 export const cliOptionsSchema = z.object({
   headless: z.boolean().optional(),
   baseUrl: z.string().optional().default("http://localhost:3000"),
   testPattern: z.string().optional().default("**/*.test.ts"),
   noCache: z.boolean().optional(),
+  replayOnly: z.boolean().optional(),
+  workers: z.number().int().positive().optional(),
+  retries: z.number().int().nonnegative().optional(),
+  reporters: z.array(reporterNameSchema).optional(),
+  forbidOnly: z.boolean().optional(),
+  recordTranscripts: z.boolean().optional(),
 });
 export type CLIOptions = z.infer<typeof cliOptionsSchema>;
 
@@ -24,7 +39,74 @@ export const ANTHROPIC_MODELS = [
 export const anthropicModelSchema = z.enum(ANTHROPIC_MODELS);
 export type AnthropicModel = z.infer<typeof anthropicModelSchema>;
 
-const aiSchema = z
+/**
+ * Size limits of the AI conversation history of a test, shared by all providers
+ */
+export const historySchema = z
+  .object({
+    // Latest screenshots kept in the history, older ones are replaced by a text placeholder
+    maxScreenshots: z.number().int().positive().default(3),
+    // Prompt tokens of a request above which the earliest turns are summarized
+    compactionThreshold: z.number().int().positive().default(100_000),
+  })
+  .strict();
+export type HistoryConfig = z.infer<typeof historySchema>;
+
+/**
+ * Limits of the AI requests sent at once by all tests of a run, so that
+ * parallel workers don't all hit the provider's rate limits together
+ */
+export const rateLimitSchema = z
+  .object({
+    // AI requests in flight at the same time
+    maxConcurrentRequests: z.number().int().positive().optional(),
+    // AI requests started within a minute
+    requestsPerMinute: z.number().int().positive().optional(),
+  })
+  .strict();
+export type RateLimitConfig = z.infer<typeof rateLimitSchema>;
+
+/**
+ * How the AI sees and acts on the page:
+ * - `screenshot`: screenshots, with a computer tool acting on screen coordinates
+ * - `dom`: accessibility snapshots, with tools acting on their elements
+ * - `hybrid`: both, e.g. snapshots for forms and screenshots for visual checks
+ */
+export const AGENT_MODES = ["screenshot", "dom", "hybrid"] as const;
+export const agentModeSchema = z.enum(AGENT_MODES);
+export type AgentMode = z.infer<typeof agentModeSchema>;
+
+/**
+ * Price of a model in USD per 1K tokens. Prompt cache reads and writes are
+ * priced as prompt tokens unless the model has a cache price.
+ */
+export const modelPricingSchema = z
+  .object({
+    prompt: z.number().nonnegative(),
+    completion: z.number().nonnegative(),
+    cacheRead: z.number().nonnegative().optional(),
+    cacheWrite: z.number().nonnegative().optional(),
+  })
+  .strict();
+export type ModelPricing = z.infer<typeof modelPricingSchema>;
+
+/**
+ * Options shared by all providers
+ */
+const sharedAiOptions = {
+  // Defaults to `screenshot`
+  agentMode: agentModeSchema.optional(),
+  history: historySchema.optional(),
+  rateLimit: rateLimitSchema.optional(),
+  // Text appended to the built-in system prompt
+  systemPromptAppend: z.string().min(1).optional(),
+  // Rules the AI follows in every test, e.g. "Always dismiss the cookie banner first"
+  instructions: z.array(z.string().min(1)).optional(),
+  // Prices keyed by model name prefix, for models without a built-in price or to override it
+  pricing: z.record(z.string().min(1), modelPricingSchema).optional(),
+};
+
+const anthropicAiSchema = z
   .object({
     provider: z.literal("anthropic"),
     apiKey: z
@@ -35,17 +117,156 @@ const aiSchema = z
           process.env.ANTHROPIC_API_KEY!,
       ),
     model: z.enum(ANTHROPIC_MODELS).default(ANTHROPIC_MODELS[0]),
+    // Models tried in order when the previous one is overloaded
+    fallbackModels: z.array(anthropicModelSchema).optional(),
+    ...sharedAiOptions,
+  })
+  .strict();
+
+/**
+ * OpenAI models drive the browser through a function-calling computer tool,
+ * as they don't support Anthropic's computer use tools
+ *
+ * @see https://sdk.vercel.ai/providers/ai-sdk-providers/openai
+ */
+const openaiAiSchema = z
+  .object({
+    provider: z.literal("openai"),
+    apiKey: z
+      .string()
+      .default(
+        () =>
+          process.env[getShortestEnvName("OPENAI_API_KEY")] ||
+          process.env.OPENAI_API_KEY!,
+      ),
+    model: z.string().min(1).default("gpt-4o"),
+    fallbackModels: z.array(z.string().min(1)).optional(),
+    ...sharedAiOptions,
+  })
+  .strict();
+
+/**
+ * Any server implementing the OpenAI chat completions API, e.g. vLLM or
+ * LM Studio. The model must support function calling and image inputs.
+ */
+const openaiCompatibleAiSchema = z
+  .object({
+    provider: z.literal("openai-compatible"),
+    baseURL: z.string().url("must be a valid URL"),
+    // Local servers usually don't require a key
+    apiKey: z.string().optional(),
+    model: z.string().min(1),
+    fallbackModels: z.array(z.string().min(1)).optional(),
+    ...sharedAiOptions,
   })
   .strict();
+
+/**
+ * Models served by Ollama, for offline runs. They use tools by replying with
+ * JSON, so they only need to support image inputs.
+ *
+ * @see https://github.com/ollama/ollama/blob/main/docs/openai.md
+ */
+const ollamaAiSchema = z
+  .object({
+    provider: z.literal("ollama"),
+    baseURL: z
+      .string()
+      .url("must be a valid URL")
+      .default("http://localhost:11434"),
+    model: z.string().min(1),
+    fallbackModels: z.array(z.string().min(1)).optional(),
+    ...sharedAiOptions,
+  })
+  .strict();
+
+/**
+ * Replays the transcripts of `config.transcripts.dir` instead of calling a
+ * model, e.g. to test custom tools, hooks and reporters without an API key.
+ * Tools are the ones of the model the transcripts were recorded with.
+ */
+const mockAiSchema = z
+  .object({
+    provider: z.literal("mock"),
+    model: z.string().min(1).default(ANTHROPIC_MODELS[0]),
+    ...sharedAiOptions,
+  })
+  .strict();
+
+const aiSchema = z.discriminatedUnion("provider", [
+  anthropicAiSchema,
+  openaiAiSchema,
+  openaiCompatibleAiSchema,
+  ollamaAiSchema,
+  mockAiSchema,
+]);
 export type AIConfig = z.infer<typeof aiSchema>;
 
 const cachingSchema = z
   .object({
     enabled: z.boolean().default(true),
+    /**
+     * Replay tests only from their latest passed run, failing them instead of
+     * falling back to AI when a cached step can't be replayed
+     */
+    replayOnly: z.boolean().default(false),
   })
   .strict();
 export type CachingConfig = z.infer<typeof cachingSchema>;
 
+/**
+ * Transcripts of the AI conversations of each test, one JSON file per test
+ */
+const transcriptsSchema = z
+  .object({
+    // Directory of the transcripts, relative to the current working directory
+    dir: z.string().min(1).default("shortest-transcripts"),
+    // Record the transcripts of tests run with AI, to replay them with the `mock` provider
+    record: z.boolean().default(false),
+  })
+  .strict();
+export type TranscriptsConfig = z.infer<typeof transcriptsSchema>;
+
+/**
+ * Whether an artifact is recorded for each test run. `retain-on-failure`
+ * records all test runs, only keeping the artifacts of the failed ones.
+ */
+export const RECORDING_MODES = ["off", "on", "retain-on-failure"] as const;
+export const recordingModeSchema = z.enum(RECORDING_MODES);
+export type RecordingMode = z.infer<typeof recordingModeSchema>;
+
+/**
+ * Artifacts recorded for each test run to `.shortest/runs/<runId>`, removed
+ * by the cache clean-up once expired
+ */
+const recordingSchema = z
+  .object({
+    // Playwright trace, opened with `npx playwright show-trace`
+    trace: recordingModeSchema.default("off"),
+    // Video of the page
+    video: recordingModeSchema.default("off"),
+    // HTTP requests of the browser, in the HAR format
+    har: recordingModeSchema.default("off"),
+  })
+  .strict();
+export type RecordingConfig = z.infer<typeof recordingSchema>;
+
+/**
+ * Limits of the AI usage, aborting the tests exceeding them. Limits per test
+ * apply to each attempt of the test.
+ */
+const budgetSchema = z
+  .object({
+    // Tokens used by the AI requests of a test
+    maxTokensPerTest: z.number().int().positive().optional(),
+    // AI requests of a test, each one running the tools of its response
+    maxStepsPerTest: z.number().int().positive().optional(),
+    // Estimated cost in USD of the AI requests of all test attempts of a run
+    maxCostPerRun: z.number().positive().optional(),
+  })
+  .strict();
+export type BudgetConfig = z.infer<typeof budgetSchema>;
+
 const mailosaurSchema = z
   .object({
     apiKey: z.string(),
@@ -55,31 +276,186 @@ const mailosaurSchema = z
 
 const testPatternSchema = z.string().default("**/*.test.ts");
 
+/**
+ * Number of test files executed concurrently, each in its own browser
+ */
+const workersSchema = z.number().int().positive().default(1);
+
+/**
+ * Number of times a failed test is retried before being reported as failed
+ */
+const retriesSchema = z.number().int().nonnegative().default(0);
+
+/**
+ * Built-in reporter name, path of a module exporting a reporter by default
+ * (relative to the current working directory), or inline reporter object
+ */
+const reporterSchema = z.union([
+  z.string().min(1),
+  z.custom<Reporter>((value) => typeof value === "object" && value !== null, {
+    message: "must be a reporter name, module path or reporter object",
+  }),
+]);
+export type ReporterConfig = z.infer<typeof reporterSchema>;
+
+const reportersSchema = z.array(reporterSchema).default([]);
+
+/**
+ * Whether test files using `shortest.only()` fail, to keep focused tests out of CI
+ */
+const forbidOnlySchema = z.boolean().default(false);
+
+/**
+ * Playwright browser engines, `webkit` being the engine of Safari
+ */
+export const BROWSER_NAMES = ["chromium", "firefox", "webkit"] as const;
+export const browserNameSchema = z.enum(BROWSER_NAMES);
+export type BrowserName = z.infer<typeof browserNameSchema>;
+
+/**
+ * Name of a Playwright device profile, e.g. `iPhone 13`
+ *
+ * @see https://github.com/microsoft/playwright/blob/main/packages/playwright-core/src/server/deviceDescriptorsSource.json
+ */
+export const deviceNameSchema = z.string().refine((name) => name in devices, {
+  message: "must be a Playwright device name, e.g. 'iPhone 13'",
+});
+
+/**
+ * Browser to connect to instead of launching one, either a Playwright browser
+ * server (e.g. a browser grid) or a Chromium browser started with
+ * `--remote-debugging-port`. Shortest leaves it running once tests complete.
+ */
+const browserConnectSchema = z.union([
+  z
+    .object({
+      // Endpoint of a Playwright browser server, e.g. `ws://grid:3000/`
+      wsEndpoint: z.string().url("must be a valid URL"),
+    })
+    .strict(),
+  z
+    .object({
+      // Chrome DevTools Protocol endpoint, e.g. `http://localhost:9222`
+      cdpUrl: z.string().url("must be a valid URL"),
+    })
+    .strict(),
+]);
+export type BrowserConnectConfig = z.infer<typeof browserConnectSchema>;
+
 const browserSchema = z.object({
+  // Defaults to the browser of `device`, or to `chromium`
+  name: browserNameSchema.optional(),
+  // Emulated device, setting the viewport, user agent and touch support
+  device: deviceNameSchema.optional(),
+  // Launches a local browser when not set
+  connect: browserConnectSchema.optional(),
   /**
    * @see https://playwright.dev/docs/api/class-browser#browser-new-context
    */
   contextOptions: z.custom<BrowserContextOptions>().optional(),
 });
 
+/**
+ * Runs all tests once per project, each with its own browser options, e.g. to
+ * test the mobile and desktop layouts of an app
+ */
+const projectSchema = z
+  .object({
+    name: z.string().min(1),
+    // Merged into the top-level `browser` options
+    browser: browserSchema.strict().partial().optional(),
+  })
+  .strict();
+export type ProjectConfig = z.infer<typeof projectSchema>;
+
+const projectsSchema = z
+  .array(projectSchema)
+  .refine(
+    (projects) =>
+      new Set(projects.map((project) => project.name)).size === projects.length,
+    { message: "must have unique names" },
+  );
+
+/**
+ * Logs in once and saves the Playwright storage state (cookies and local
+ * storage) to `.shortest/auth/<name>.json`, loaded by the tests declaring
+ * `use: { storageState: "<name>" }`. Runs again when the saved state is
+ * missing or expired.
+ */
+const setupSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[\w-]+$/, "must only contain letters, digits, _ and -"),
+    // Test file logging in, relative to the current working directory
+    file: z.string().min(1).optional(),
+    // Logs in with Playwright instead of a test file
+    fn: z
+      .custom<TestFileHook>((value) => typeof value === "function", {
+        message: "must be a function",
+      })
+      .optional(),
+    // Maximum age of the saved state in milliseconds, defaults to the expiry of its cookies
+    maxAge: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine((setup) => (setup.file === undefined) !== (setup.fn === undefined), {
+    message: "must have either a file or a fn",
+  });
+export type SetupConfig = z.infer<typeof setupSchema>;
+
+const setupsSchema = z
+  .array(setupSchema)
+  .refine(
+    (setups) =>
+      new Set(setups.map((setup) => setup.name)).size === setups.length,
+    { message: "must have unique names" },
+  );
+
 export const configSchema = z
   .object({
     headless: z.boolean().default(true),
     baseUrl: z.string().url("must be a valid URL"),
     browser: browserSchema.strict().partial().default(browserSchema.parse({})),
+    projects: projectsSchema.optional(),
+    setup: setupsSchema.optional(),
     testPattern: testPatternSchema,
+    workers: workersSchema,
+    retries: retriesSchema,
+    reporters: reportersSchema,
+    forbidOnly: forbidOnlySchema,
     anthropicKey: z.string().optional(),
     ai: aiSchema,
     mailosaur: mailosaurSchema.optional(),
     caching: cachingSchema.optional().default(cachingSchema.parse({})),
+    transcripts: transcriptsSchema
+      .optional()
+      .default(transcriptsSchema.parse({})),
+    budget: budgetSchema.optional().default(budgetSchema.parse({})),
+    recording: recordingSchema.optional().default(recordingSchema.parse({})),
   })
   .strict();
 
 export const userConfigSchema = configSchema.extend({
   browser: browserSchema.optional(),
   testPattern: testPatternSchema.optional(),
-  ai: aiSchema.strict().partial().optional(),
+  workers: workersSchema.optional(),
+  retries: retriesSchema.optional(),
+  reporters: reportersSchema.optional(),
+  forbidOnly: forbidOnlySchema.optional(),
+  ai: z
+    .union([
+      anthropicAiSchema.partial(),
+      openaiAiSchema.partial(),
+      openaiCompatibleAiSchema.partial(),
+      ollamaAiSchema.partial(),
+      mockAiSchema.partial(),
+    ])
+    .optional(),
   caching: cachingSchema.strict().partial().optional(),
+  transcripts: transcriptsSchema.partial().optional(),
+  budget: budgetSchema.optional(),
+  recording: recordingSchema.partial().optional(),
 });
 
 const SHORTEST_ENV_PREFIX = "SHORTEST_";
@@ -3,3 +3,4 @@ export * from "@/types/globals";
 export * from "@/types/browser";
 export * from "@/types/ai";
 export * from "@/types/config";
+export * from "@/types/reporter";
@@ -0,0 +1,51 @@
+import type { FileReport, RunReport, TestReport } from "@/core/runner/reports";
+import type { TestCase } from "@/core/runner/test-case";
+
+// eslint-disable-next-line zod/require-zod-schema-types
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Receives the lifecycle events of a test run. All methods are optional, and
+ * asynchronous methods are awaited before the run continues.
+ *
+ * Reporters are registered through the `reporters` option of
+ * `shortest.config.ts`, either inline or by the path of a module whose
+ * default export is a reporter object or class.
+ *
+ * @example
+ * ```typescript
+ * const reporter: Reporter = {
+ *   onTestEnd(test) {
+ *     console.log(test.name, test.status, test.tokenUsage.totalTokens);
+ *   },
+ * };
+ * ```
+ */
+export interface Reporter {
+  /**
+   * Called before the first test file starts, with the number of test files
+   * counted once per project when the config has projects
+   */
+  onRunStart?(filesCount: number): MaybePromise<void>;
+  /**
+   * Called when a test file starts, once per project when the config has
+   * projects
+   */
+  onFileStart?(
+    filePath: string,
+    testsCount: number,
+    project?: string,
+  ): MaybePromise<void>;
+  onTestStart?(test: TestCase): MaybePromise<void>;
+  /**
+   * Called when an attempt of a test failed and the test is retried, with the
+   * tokens and cost of that attempt
+   */
+  onTestRetry?(test: TestReport): MaybePromise<void>;
+  /**
+   * Called when a test ends, with the tokens and cost of all its attempts
+   */
+  onTestEnd?(test: TestReport): MaybePromise<void>;
+  onFileEnd?(file: FileReport): MaybePromise<void>;
+  onRunEnd?(report: RunReport): MaybePromise<void>;
+}
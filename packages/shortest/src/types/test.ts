@@ -1,5 +1,6 @@
 import type { Page, Browser, APIRequest, APIRequestContext } from "playwright";
 import type * as playwright from "playwright";
+import type { TestSkip } from "@/core/runner/test-case";
 import { TestRun } from "@/core/runner/test-run";
 
 export interface AssertionError extends Error {
@@ -33,6 +34,26 @@ export type TestContext = TestFileContext & {
 // eslint-disable-next-line zod/require-zod-schema-types
 export type TestHookFunction = (context: TestContext) => Promise<void>;
 
+// eslint-disable-next-line zod/require-zod-schema-types
+export type TestFileHook = (context: TestFileContext) => Promise<void>;
+
+/**
+ * Group of tests declared with `shortest.describe()`, holding the hooks and
+ * AI instructions scoped to the group. Hooks and instructions of the enclosing
+ * groups also apply to its tests.
+ */
+export interface TestGroup {
+  name: string;
+  parent?: TestGroup;
+  // Set when all tests of the group are skipped
+  skip?: TestSkip;
+  beforeAllFns: TestFileHook[];
+  afterAllFns: TestFileHook[];
+  beforeEachFns: TestFileHook[];
+  afterEachFns: TestFileHook[];
+  instructions: string[];
+}
+
 // eslint-disable-next-line zod/require-zod-schema-types
 export type TestChain = {
   expect(fn: (context: TestContext) => Promise<void>): TestChain;
@@ -48,19 +69,79 @@ export type TestChain = {
   ): TestChain;
   before(fn: (context: TestContext) => void | Promise<void>): TestChain;
   after(fn: (context: TestContext) => void | Promise<void>): TestChain;
+  retries(count: number): TestChain;
+  tag(...tags: string[]): TestChain;
+  /**
+   * Adds rules to the system prompt of the test, after the instructions of
+   * the config, file and describe blocks
+   */
+  instructions(...instructions: string[]): TestChain;
 };
 
+/**
+ * Options of a test, created with `shortest.options()` and passed in place of
+ * its payload. Plain objects are passed to the AI as the payload.
+ *
+ * @example
+ * ```typescript
+ * shortest("Log in", shortest.options({ tags: ["smoke", "auth"] }));
+ * shortest(
+ *   "Export the yearly report",
+ *   shortest.options({ use: { storageState: "admin" } }),
+ * );
+ * ```
+ */
+export interface TestOptions {
+  tags?: string[];
+  use?: {
+    // Name of the setup of the config whose storage state is loaded
+    storageState?: string;
+  };
+}
+
 // eslint-disable-next-line zod/require-zod-schema-types
-export type TestAPI = {
+export type TestFunction = {
   (fn: (context: TestContext) => Promise<void>): TestChain;
   (name: string): TestChain;
   (names: string[]): TestChain;
   (name: string, fn?: (context: TestContext) => Promise<void>): TestChain;
+  (
+    name: string,
+    options: TestOptions,
+    fn?: (context: TestContext) => Promise<void>,
+  ): TestChain;
   (
     name: string,
     payload?: any,
     fn?: (context: TestContext) => Promise<void>,
   ): TestChain;
+};
+
+/**
+ * Declares skipped tests, or skips all tests of the current file or describe
+ * block when called with a condition
+ */
+// eslint-disable-next-line zod/require-zod-schema-types
+export type TestSkipFunction = TestFunction & {
+  (condition: boolean, reason?: string): void;
+};
+
+// eslint-disable-next-line zod/require-zod-schema-types
+export type TestAPI = TestFunction & {
+  /**
+   * Declares a focused test. When any file of the run has focused tests, only
+   * they run.
+   */
+  only: TestFunction;
+  /**
+   * Creates the options of a test, passed in place of its payload
+   */
+  options(options: TestOptions): TestOptions;
+  skip: TestSkipFunction;
+  /**
+   * Like `skip()`, for tests known to be broken that should be fixed
+   */
+  fixme: TestSkipFunction;
 
   beforeAll(fn: (context: TestContext) => Promise<void>): void;
   beforeAll(name: string, fn: (context: TestContext) => Promise<void>): void;
@@ -73,6 +154,14 @@ export type TestAPI = {
 
   afterEach(fn: (context: TestContext) => Promise<void>): void;
   afterEach(name: string, fn: (context: TestContext) => Promise<void>): void;
+
+  describe(name: string, fn: () => void): void;
+
+  /**
+   * Adds rules to the system prompt of the tests of the current file or
+   * describe block, after the instructions of the config
+   */
+  instructions(...instructions: string[]): void;
 };
 
 export type { Page } from "playwright";
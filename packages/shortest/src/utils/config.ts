@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { getUnpricedModels } from "@/ai/pricing";
 import { getLogger } from "@/log/index";
 import {
   configSchema,
@@ -6,6 +7,7 @@ import {
   ShortestStrictConfig,
   CLIOptions,
   cliOptionsSchema,
+  reporterNameSchema,
 } from "@/types";
 import { formatZodError, ConfigError } from "@/utils/errors";
 
@@ -29,7 +31,35 @@ export const parseConfig = (
     if (cliOptions) {
       config = handleCliOptions(config, cliOptions);
     }
-    return configSchema.parse(config) as ShortestStrictConfig;
+    const parsedConfig = configSchema.parse(config) as ShortestStrictConfig;
+    if (parsedConfig.caching.replayOnly && !parsedConfig.caching.enabled) {
+      throw new ConfigError(
+        "invalid-config",
+        "'config.caching.replayOnly' requires caching to be enabled.",
+      );
+    }
+    if (
+      parsedConfig.transcripts.record &&
+      parsedConfig.ai.provider === "mock"
+    ) {
+      throw new ConfigError(
+        "invalid-config",
+        "'config.transcripts.record' can't be used with the 'mock' provider.",
+      );
+    }
+    const unpricedModels = getUnpricedModels(parsedConfig.ai);
+    if (unpricedModels.length && parsedConfig.budget.maxCostPerRun) {
+      throw new ConfigError(
+        "invalid-config",
+        `'config.budget.maxCostPerRun' requires the price of ${unpricedModels.join(", ")}. Set it in 'config.ai.pricing'.`,
+      );
+    }
+    for (const model of unpricedModels) {
+      log.warn(
+        `No price known for ${model}, its usage is counted as free. Set it in 'config.ai.pricing'.`,
+      );
+    }
+    return parsedConfig;
   } catch (error) {
     log.error("Error parsing config", { error });
     if (error instanceof z.ZodError) {
@@ -113,6 +143,23 @@ const handleCliOptions = (
   ) {
     userConfig.testPattern = cliOptions.testPattern;
   }
+  if (cliOptions.workers) {
+    userConfig.workers = cliOptions.workers;
+  }
+  if (cliOptions.retries !== undefined) {
+    userConfig.retries = cliOptions.retries;
+  }
+  if (cliOptions.reporters?.length) {
+    // Report files of the CLI replace the configured ones, while reporter
+    // modules and inline reporters of the config are kept
+    const customReporters = (userConfig.reporters ?? []).filter(
+      (reporter) => !reporterNameSchema.safeParse(reporter).success,
+    );
+    userConfig.reporters = [...cliOptions.reporters, ...customReporters];
+  }
+  if (cliOptions.forbidOnly) {
+    userConfig.forbidOnly = true;
+  }
   if (cliOptions.noCache) {
     if (userConfig.caching) {
       userConfig.caching.enabled = false;
@@ -120,5 +167,11 @@ const handleCliOptions = (
       userConfig.caching = { enabled: false };
     }
   }
+  if (cliOptions.replayOnly) {
+    userConfig.caching = { ...userConfig.caching, replayOnly: true };
+  }
+  if (cliOptions.recordTranscripts) {
+    userConfig.transcripts = { ...userConfig.transcripts, record: true };
+  }
   return userConfig;
 };
@@ -29,7 +29,9 @@ export class ConfigError extends ShortestError {
 }
 
 const AIErrorTypeSchema = z.enum([
+  "budget-exceeded",
   "invalid-response",
+  "invalid-transcript",
   "max-retries-reached",
   "token-limit-exceeded",
   "unsafe-content-detected",
@@ -47,7 +49,7 @@ export class AIError extends ShortestError {
   }
 }
 
-const CacheErrorTypeSchema = z.enum(["not-found", "invalid"]);
+const CacheErrorTypeSchema = z.enum(["not-found", "invalid", "mismatch"]);
 export type CacheErrorType = z.infer<typeof CacheErrorTypeSchema>;
 
 export class CacheError extends ShortestError {
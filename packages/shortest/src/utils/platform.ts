@@ -1,6 +1,9 @@
 import { detect, resolveCommand } from "package-manager-detector";
+import { BrowserName } from "@/types/config";
 import { ShortestError } from "@/utils/errors";
-export const getInstallationCommand = async () => {
+export const getInstallationCommand = async (
+  browserName: BrowserName = "chromium",
+) => {
   const packageManager = await detect();
 
   if (!packageManager) {
@@ -10,7 +13,7 @@ export const getInstallationCommand = async () => {
   const command = resolveCommand(packageManager.agent, "execute", [
     "playwright",
     "install",
-    "chromium",
+    browserName,
   ]);
 
   if (!command) {
@@ -0,0 +1,18 @@
+import { shortest } from "@/index";
+
+shortest("Open the home page");
+
+shortest.describe("Checkout", () => {
+  shortest.beforeEach(async () => {});
+
+  shortest("Add a product to the cart");
+
+  shortest.describe("Guest", () => {
+    shortest("Pay with a card").expect("Order confirmation is shown");
+  });
+
+  shortest("Apply a discount code");
+});
+
+shortest.skip(process.env.CI === "true", "Not supported in CI");
+shortest.fixme("Pay with a voucher");
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { assertWithinBudget, RunCostTracker } from "@/ai/budget";
+import { AIError } from "@/utils/errors";
+
+describe("assertWithinBudget", () => {
+  const spent = {
+    usage: { promptTokens: 9000, completionTokens: 1000, totalTokens: 10000 },
+    steps: 5,
+    runCost: 1.5,
+  };
+
+  it("passes without budget or within budget", () => {
+    expect(() => assertWithinBudget({}, spent)).not.toThrow();
+    expect(() =>
+      assertWithinBudget(
+        { maxTokensPerTest: 20000, maxStepsPerTest: 10, maxCostPerRun: 2 },
+        spent,
+      ),
+    ).not.toThrow();
+  });
+
+  it.each([
+    [
+      { maxTokensPerTest: 10000 },
+      "Token budget exceeded: 10,000 tokens used, maxTokensPerTest is 10,000",
+    ],
+    [
+      { maxStepsPerTest: 5 },
+      "Step budget exceeded: 5 AI requests made, maxStepsPerTest is 5",
+    ],
+    [
+      { maxCostPerRun: 1 },
+      "Cost budget exceeded: $1.50 spent by the run, maxCostPerRun is $1.00",
+    ],
+  ])("throws when %o is exhausted", (budget, message) => {
+    let error: unknown;
+    try {
+      assertWithinBudget(budget, spent);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(AIError);
+    expect(error).toMatchObject({ type: "budget-exceeded", message });
+  });
+});
+
+describe("RunCostTracker", () => {
+  it("adds up the cost of the run", () => {
+    const tracker = new RunCostTracker();
+    tracker.add(0.25);
+    tracker.add(0.5);
+    expect(tracker.total).toBe(0.75);
+  });
+});
@@ -1,5 +1,8 @@
+import { generateText } from "ai";
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { RunCostTracker } from "@/ai/budget";
 import { AIClient } from "@/ai/client";
+import { RateLimiter } from "@/ai/rate-limiter";
 import { BrowserTool } from "@/browser/core/browser-tool";
 import { createTestCase } from "@/core/runner/test-case";
 import { TestRun } from "@/core/runner/test-run";
@@ -8,6 +11,7 @@ import { AIError } from "@/utils/errors";
 
 vi.mock("ai", () => ({
   generateText: vi.fn(),
+  wrapLanguageModel: ({ model }: { model: unknown }) => model,
   NoSuchToolError: {
     isInstance: (e: unknown) =>
       e instanceof Error && e.name === "NoSuchToolError",
@@ -29,6 +33,11 @@ vi.mock("@/index", () => ({
       apiKey: "test-key",
       model: "claude-3-5-sonnet-latest",
     },
+    transcripts: {
+      dir: "shortest-transcripts",
+      record: false,
+    },
+    budget: {},
   }),
 }));
 
@@ -39,6 +48,7 @@ vi.mock("@/ai/provider", () => ({
 }));
 
 vi.mock("@/ai/utils/json", () => ({
+  createAIJSONResponseSchema: vi.fn(),
   extractJsonPayload: vi.fn().mockImplementation((text) => {
     if (
       text.includes('"status": "passed"') ||
@@ -243,6 +253,47 @@ describe("AIClient", () => {
         },
       );
 
+      it("switches to the fallback model when the model is overloaded", async () => {
+        const overloaded = Object.assign(new Error("Overloaded"), {
+          statusCode: 529,
+        });
+        const mockResponse = {
+          response: { status: "passed", reason: "test passed" },
+          metadata: {
+            usage: { completionTokens: 10, promptTokens: 20, totalTokens: 30 },
+          },
+        };
+        (client as any).fallbackModels = ["claude-3-7-sonnet-latest"];
+        const runConversation = vi
+          .spyOn(client as any, "runConversation")
+          .mockRejectedValueOnce(overloaded)
+          .mockRejectedValueOnce(overloaded)
+          .mockResolvedValue(mockResponse);
+
+        const result = await client.runAction("test prompt");
+
+        expect(result).toEqual(mockResponse);
+        expect(runConversation).toHaveBeenCalledTimes(3);
+        expect((client as any).configAi.model).toBe("claude-3-7-sonnet-latest");
+      });
+
+      it("pauses the rate limiter for the retry-after delay", async () => {
+        const rateLimiter = new RateLimiter();
+        const pause = vi.spyOn(rateLimiter, "pause");
+        client = new AIClient({ browserTool, testRun, rateLimiter });
+        const rateLimited = Object.assign(new Error("Too many requests"), {
+          statusCode: 429,
+          responseHeaders: { "retry-after": "2" },
+        });
+        vi.spyOn(client as any, "runConversation")
+          .mockRejectedValueOnce(rateLimited)
+          .mockResolvedValue({});
+
+        await client.runAction("test prompt");
+
+        expect(pause).toHaveBeenCalledWith(2000);
+      });
+
       it("handles max retries", async () => {
         const error = new Error("Network error");
         vi.spyOn(client as any, "runConversation")
@@ -257,5 +308,24 @@ describe("AIClient", () => {
         });
       });
     });
+
+    it("adds the requests of every attempt to the cost of the run", async () => {
+      vi.mocked(generateText).mockResolvedValue({
+        text: '{"status": "passed", "reason": "test passed"}',
+        finishReason: "stop",
+        usage: { promptTokens: 1000, completionTokens: 100, totalTokens: 1100 },
+        response: { messages: [] },
+      } as any);
+      const runCostTracker = new RunCostTracker();
+
+      // Each attempt of a retried test runs its own client
+      for (let attempt = 1; attempt <= 2; attempt++) {
+        await new AIClient({ browserTool, testRun, runCostTracker }).runAction(
+          "test prompt",
+        );
+      }
+
+      expect(runCostTracker.total).toBeCloseTo(0.009);
+    });
   });
 });
@@ -0,0 +1,152 @@
+import { CoreMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import { ConversationHistory } from "@/ai/history";
+
+describe("ConversationHistory", () => {
+  const prompt: CoreMessage = { role: "user", content: "Test: Log in" };
+
+  const createTurn = (
+    id: number,
+    output: string,
+    base64_image?: string,
+  ): CoreMessage[] => [
+    {
+      role: "assistant",
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: `call_${id}`,
+          toolName: "computer",
+          args: { action: "left_click", coordinate: [id, id] },
+        },
+      ],
+    },
+    {
+      role: "tool",
+      content: [
+        {
+          type: "tool-result",
+          toolCallId: `call_${id}`,
+          toolName: "computer",
+          result: { output, base64_image },
+        },
+      ],
+    },
+  ];
+
+  const createNativeScreenshotTurn = (id: number): CoreMessage[] => {
+    const content = [
+      { type: "image" as const, data: `image_${id}`, mimeType: "image/jpeg" },
+    ];
+    return [
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "tool-call",
+            toolCallId: `call_${id}`,
+            toolName: "computer",
+            args: { action: "screenshot" },
+          },
+        ],
+      },
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: `call_${id}`,
+            toolName: "computer",
+            result: content,
+            experimental_content: content,
+          },
+        ],
+      },
+    ];
+  };
+
+  it("replaces the screenshots exceeding maxScreenshots by a placeholder", () => {
+    const history = new ConversationHistory({
+      maxScreenshots: 2,
+      compactionThreshold: 100_000,
+    });
+    history.add(prompt, ...createNativeScreenshotTurn(1));
+    history.add(...createTurn(2, "Clicked", "image_2"));
+    history.add(
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Screenshot of the browser:" },
+          { type: "image", image: "image_3", mimeType: "image/jpeg" },
+        ],
+      },
+      ...createNativeScreenshotTurn(4),
+    );
+
+    const [, , first, , second, third, , fourth] = history.getMessages();
+    expect(first.content).toEqual([
+      expect.objectContaining({
+        experimental_content: [
+          {
+            type: "text",
+            text: "[Screenshot removed from the conversation history]",
+          },
+        ],
+      }),
+    ]);
+    expect(second.content).toEqual([
+      expect.objectContaining({
+        result: {
+          output: "Clicked\n[Screenshot removed from the conversation history]",
+        },
+      }),
+    ]);
+    expect(third.content).toEqual([
+      { type: "text", text: "Screenshot of the browser:" },
+      { type: "image", image: "image_3", mimeType: "image/jpeg" },
+    ]);
+    expect(fourth.content).toEqual([
+      expect.objectContaining({
+        experimental_content: [
+          { type: "image", data: "image_4", mimeType: "image/jpeg" },
+        ],
+      }),
+    ]);
+  });
+
+  it("summarizes the earliest turns above the compaction threshold", () => {
+    const history = new ConversationHistory({
+      maxScreenshots: 3,
+      compactionThreshold: 1000,
+    });
+    history.add(prompt);
+    for (let id = 1; id <= 6; id++) {
+      history.add(...createTurn(id, `Clicked ${id}`));
+    }
+
+    expect(history.compact(999)).toBe(false);
+    expect(history.length).toBe(13);
+
+    expect(history.compact(1000)).toBe(true);
+    const messages = history.getMessages();
+    expect(messages).toHaveLength(10);
+    expect(messages[0]).toEqual(prompt);
+    expect(messages[1]).toEqual({
+      role: "user",
+      content: [
+        "Summary of the earlier steps of the test, removed from the conversation history to save context:",
+        '1. computer {"action":"left_click","coordinate":[1,1]}: Clicked 1',
+        '2. computer {"action":"left_click","coordinate":[2,2]}: Clicked 2',
+      ].join("\n"),
+    });
+    expect(messages[2]).toEqual(createTurn(3, "Clicked 3")[0]);
+
+    // Only the last turns are kept verbatim
+    expect(history.compact(1000)).toBe(false);
+    history.add(...createTurn(7, "Clicked 7"));
+    expect(history.compact(1000)).toBe(true);
+    expect(history.getMessages()[1].content).toContain(
+      '3. computer {"action":"left_click","coordinate":[3,3]}: Clicked 3',
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateCost,
+  getModelPricing,
+  getUnpricedModels,
+} from "@/ai/pricing";
+
+describe("getModelPricing", () => {
+  it("matches the longest model name prefix", () => {
+    expect(
+      getModelPricing({ provider: "openai", model: "gpt-4o-mini-2024-07-18" }),
+    ).toEqual({ prompt: 0.00015, completion: 0.0006 });
+    expect(getModelPricing({ provider: "openai", model: "gpt-4o" })).toEqual({
+      prompt: 0.0025,
+      completion: 0.01,
+    });
+  });
+
+  it("counts local, replayed and unknown models as free", () => {
+    const free = { prompt: 0, completion: 0 };
+    expect(getModelPricing({ provider: "ollama", model: "gpt-4o" })).toEqual(
+      free,
+    );
+    expect(
+      getModelPricing({ provider: "mock", model: "claude-3-5-sonnet-latest" }),
+    ).toEqual(free);
+    expect(
+      getModelPricing({ provider: "openai-compatible", model: "llama-3.3" }),
+    ).toEqual(free);
+  });
+
+  it("overrides the built-in prices with the ones of ai.pricing", () => {
+    const pricing = {
+      "gpt-4o": { prompt: 0.001, completion: 0.002 },
+      llama: { prompt: 0.0001, completion: 0.0002 },
+    };
+    expect(
+      getModelPricing({ provider: "openai", model: "gpt-4o-mini", pricing }),
+    ).toEqual({ prompt: 0.00015, completion: 0.0006 });
+    expect(
+      getModelPricing({ provider: "openai", model: "gpt-4o", pricing }),
+    ).toEqual({ prompt: 0.001, completion: 0.002 });
+    expect(
+      getModelPricing({
+        provider: "openai-compatible",
+        model: "llama-3.3",
+        pricing,
+      }),
+    ).toEqual({ prompt: 0.0001, completion: 0.0002 });
+  });
+});
+
+describe("getUnpricedModels", () => {
+  it("lists the configured and fallback models without a price", () => {
+    expect(
+      getUnpricedModels({
+        provider: "openai",
+        apiKey: "test-key",
+        model: "gpt-4o",
+        fallbackModels: ["o3", "gpt-4.1", "o4-mini"],
+        pricing: { o3: { prompt: 0.002, completion: 0.008 } },
+      }),
+    ).toEqual(["o4-mini"]);
+  });
+
+  it("lists no models of free providers", () => {
+    expect(
+      getUnpricedModels({
+        provider: "ollama",
+        baseURL: "http://localhost:11434",
+        model: "llava",
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("calculateCost", () => {
+  it("prices prompt and completion tokens of the model", () => {
+    expect(
+      calculateCost(
+        { promptTokens: 10000, completionTokens: 1000 },
+        { provider: "anthropic", model: "claude-3-7-sonnet-20250219" },
+      ),
+    ).toBeCloseTo(0.045);
+    expect(
+      calculateCost(
+        { promptTokens: 10000, completionTokens: 1000 },
+        { provider: "openai", model: "gpt-4.1" },
+      ),
+    ).toBeCloseTo(0.028);
+  });
+
+  it("prices prompt cache tokens", () => {
+    expect(
+      calculateCost(
+        {
+          promptTokens: 1000,
+          completionTokens: 0,
+          cacheReadTokens: 10000,
+          cacheWriteTokens: 1000,
+        },
+        { provider: "anthropic", model: "claude-3-5-sonnet-latest" },
+      ),
+    ).toBeCloseTo(0.00975);
+  });
+});
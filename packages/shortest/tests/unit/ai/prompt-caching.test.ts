@@ -0,0 +1,72 @@
+import { CoreMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import {
+  getCacheTokenUsage,
+  supportsPromptCaching,
+  withPromptCaching,
+} from "@/ai/prompt-caching";
+
+describe("withPromptCaching", () => {
+  const cacheControl = { anthropic: { cacheControl: { type: "ephemeral" } } };
+
+  const messages: CoreMessage[] = [
+    { role: "user", content: "Test: Log in" },
+    { role: "assistant", content: "Taking a screenshot" },
+    {
+      role: "user",
+      content: [{ type: "image", image: "abc", mimeType: "image/jpeg" }],
+    },
+    { role: "assistant", content: "Clicking the login button" },
+    { role: "user", content: "Clicked" },
+  ];
+
+  it("adds breakpoints on the system prompt, before the oldest screenshot and on the last message", () => {
+    expect(withPromptCaching("You are a test runner.", messages)).toEqual([
+      {
+        role: "system",
+        content: "You are a test runner.",
+        providerOptions: cacheControl,
+      },
+      messages[0],
+      { ...messages[1], providerOptions: cacheControl },
+      messages[2],
+      messages[3],
+      { ...messages[4], providerOptions: cacheControl },
+    ]);
+  });
+
+  it("only adds the last message breakpoint without screenshots", () => {
+    const [system, ...rest] = withPromptCaching("System", messages.slice(0, 2));
+    expect(system.providerOptions).toEqual(cacheControl);
+    expect(rest).toEqual([
+      messages[0],
+      { ...messages[1], providerOptions: cacheControl },
+    ]);
+  });
+});
+
+describe("supportsPromptCaching", () => {
+  it("is supported by Anthropic only", () => {
+    expect(supportsPromptCaching("anthropic")).toBe(true);
+    expect(supportsPromptCaching("openai")).toBe(false);
+  });
+});
+
+describe("getCacheTokenUsage", () => {
+  it("reads the cache tokens of Anthropic responses", () => {
+    expect(
+      getCacheTokenUsage({
+        anthropic: {
+          cacheReadInputTokens: 1200,
+          cacheCreationInputTokens: 300,
+        },
+      }),
+    ).toEqual({ cacheReadTokens: 1200, cacheWriteTokens: 300 });
+    expect(
+      getCacheTokenUsage({
+        anthropic: { cacheReadInputTokens: null, cacheCreationInputTokens: 0 },
+      }),
+    ).toEqual({ cacheWriteTokens: 0 });
+    expect(getCacheTokenUsage(undefined)).toEqual({});
+  });
+});
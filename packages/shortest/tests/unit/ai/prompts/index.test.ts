@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { composeSystemPrompt, SYSTEM_PROMPT } from "@/ai/prompts";
+
+describe("composeSystemPrompt", () => {
+  it("returns the built-in prompt without additions", () => {
+    expect(composeSystemPrompt({})).toBe(SYSTEM_PROMPT);
+  });
+
+  it("appends the text and instructions in order", () => {
+    expect(
+      composeSystemPrompt({
+        systemPromptAppend: "The app is a banking dashboard.",
+        instructions: [
+          "Dismiss the cookie banner first",
+          "Never click 'Delete account'",
+        ],
+      }),
+    ).toBe(
+      [
+        SYSTEM_PROMPT,
+        "The app is a banking dashboard.",
+        [
+          "PROJECT INSTRUCTIONS (follow them for every test, they take precedence over the global rules):",
+          "1. Dismiss the cookie banner first",
+          "2. Never click 'Delete account'",
+        ].join("\n"),
+      ].join("\n\n"),
+    );
+  });
+
+  it("adds the rules of the agent mode after the built-in prompt", () => {
+    const [builtInPrompt, modePrompt, appendedText] = composeSystemPrompt({
+      agentMode: "dom",
+      systemPromptAppend: "The app is a banking dashboard.",
+    }).split(/\n\n(?=PAGE SNAPSHOT MODE:|The app)/);
+
+    expect(builtInPrompt).toBe(SYSTEM_PROMPT);
+    expect(modePrompt).toMatch(
+      /^PAGE SNAPSHOT MODE:\n- You don't have screenshots/,
+    );
+    expect(appendedText).toBe("The app is a banking dashboard.");
+    expect(composeSystemPrompt({ agentMode: "screenshot" })).toBe(
+      SYSTEM_PROMPT,
+    );
+  });
+});
@@ -6,6 +6,18 @@ vi.mock("@ai-sdk/anthropic", () => ({
   createAnthropic: vi.fn(() => (model: string) => ({ model })),
 }));
 
+const { requireModule } = vi.hoisted(() => ({
+  requireModule: vi.fn(() => ({
+    createOpenAI: (settings: object) => (model: string) => ({
+      model,
+      settings,
+    }),
+  })),
+}));
+
+// @ai-sdk/openai is an optional peer dependency, required when used
+vi.mock("module", () => ({ createRequire: () => requireModule }));
+
 describe("createProvider", () => {
   it("creates an Anthropic provider with correct config", () => {
     const config: AIConfig = {
@@ -18,6 +30,78 @@ describe("createProvider", () => {
     expect(provider).toEqual({ model: "claude-3-5-sonnet-20241022" });
   });
 
+  it("creates an OpenAI provider with correct config", () => {
+    const config: AIConfig = {
+      provider: "openai",
+      apiKey: "test-key",
+      model: "gpt-4o",
+    };
+
+    const provider = createProvider(config);
+    expect(provider).toEqual({
+      model: "gpt-4o",
+      settings: { apiKey: "test-key", compatibility: "strict" },
+    });
+  });
+
+  it("creates an OpenAI-compatible provider with its base URL", () => {
+    const config: AIConfig = {
+      provider: "openai-compatible",
+      baseURL: "http://localhost:1234/v1",
+      model: "qwen2.5-vl-7b-instruct",
+    };
+
+    const provider = createProvider(config);
+    expect(provider).toEqual({
+      model: "qwen2.5-vl-7b-instruct",
+      settings: {
+        apiKey: "",
+        baseURL: "http://localhost:1234/v1",
+        compatibility: "compatible",
+      },
+    });
+  });
+
+  it("creates an Ollama provider using its OpenAI-compatible API", () => {
+    const config: AIConfig = {
+      provider: "ollama",
+      baseURL: "http://localhost:11434/",
+      model: "llava",
+    };
+
+    const provider = createProvider(config);
+    expect(provider).toEqual({
+      model: "llava",
+      settings: {
+        apiKey: "ollama",
+        baseURL: "http://localhost:11434/v1",
+        compatibility: "compatible",
+      },
+    });
+  });
+
+  it("throws AIError for an OpenAI provider without @ai-sdk/openai", () => {
+    requireModule.mockImplementationOnce(() => {
+      throw new Error("Cannot find module '@ai-sdk/openai'");
+    });
+
+    expect(() =>
+      createProvider({
+        provider: "openai",
+        apiKey: "test-key",
+        model: "gpt-4o",
+      }),
+    ).toThrow(
+      "The OpenAI providers require the @ai-sdk/openai package, install it with `npm install @ai-sdk/openai`.",
+    );
+  });
+
+  it("throws AIError for the mock provider", () => {
+    expect(() => createProvider({ provider: "mock", model: "mock" })).toThrow(
+      "The mock provider only replays transcripts of test runs.",
+    );
+  });
+
   it("throws AIError for unsupported provider", () => {
     const config = {
       provider: "unsupported",
@@ -0,0 +1,147 @@
+import { LanguageModelV1 } from "@ai-sdk/provider";
+import { generateText, tool, wrapLanguageModel } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createRateLimitMiddleware, RateLimiter } from "@/ai/rate-limiter";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it("runs requests right away without limits", async () => {
+    const rateLimiter = new RateLimiter();
+    await expect(rateLimiter.schedule(async () => "done")).resolves.toBe(
+      "done",
+    );
+  });
+
+  it("limits the requests in flight", async () => {
+    const rateLimiter = new RateLimiter({ maxConcurrentRequests: 1 });
+    const first = deferred();
+    const started: string[] = [];
+
+    const firstRequest = rateLimiter.schedule(async () => {
+      started.push("first");
+      await first.promise;
+    });
+    const secondRequest = rateLimiter.schedule(async () => {
+      started.push("second");
+    });
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual(["first"]);
+
+    first.resolve();
+    await vi.advanceTimersByTimeAsync(100);
+    await Promise.all([firstRequest, secondRequest]);
+    expect(started).toEqual(["first", "second"]);
+  });
+
+  it("limits the requests per minute", async () => {
+    const rateLimiter = new RateLimiter({ requestsPerMinute: 2 });
+    const request = vi.fn().mockResolvedValue(undefined);
+
+    await rateLimiter.schedule(request);
+    await rateLimiter.schedule(request);
+    const thirdRequest = rateLimiter.schedule(request);
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(request).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await thirdRequest;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it("holds requests while paused", async () => {
+    const rateLimiter = new RateLimiter();
+    const request = vi.fn().mockResolvedValue(undefined);
+
+    rateLimiter.pause(5000);
+    const pausedRequest = rateLimiter.schedule(request);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(request).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await pausedRequest;
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it("frees the slot of a failed request", async () => {
+    const rateLimiter = new RateLimiter({ maxConcurrentRequests: 1 });
+    await expect(
+      rateLimiter.schedule(() => Promise.reject(new Error("Overloaded"))),
+    ).rejects.toThrow("Overloaded");
+    await expect(rateLimiter.schedule(async () => "done")).resolves.toBe(
+      "done",
+    );
+  });
+});
+
+describe("createRateLimitMiddleware", () => {
+  const response = (
+    text: string,
+    toolCalls: { toolName: string; args: string }[] = [],
+  ) => ({
+    text,
+    toolCalls: toolCalls.map((toolCall, i) => ({
+      toolCallType: "function" as const,
+      toolCallId: `call_${i}`,
+      ...toolCall,
+    })),
+    finishReason: toolCalls.length
+      ? ("tool-calls" as const)
+      : ("stop" as const),
+    usage: { promptTokens: 10, completionTokens: 5 },
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  });
+
+  it("frees the slot while the tools of a response run", async () => {
+    const responses = [
+      response("", [{ toolName: "wait", args: "{}" }]),
+      response("Checked out"),
+      response("Logged in"),
+    ];
+    const model = wrapLanguageModel({
+      model: {
+        specificationVersion: "v1",
+        provider: "test",
+        modelId: "test",
+        defaultObjectGenerationMode: undefined,
+        doGenerate: async () => responses.shift()!,
+      } as unknown as LanguageModelV1,
+      middleware: createRateLimitMiddleware(
+        new RateLimiter({ maxConcurrentRequests: 1 }),
+      ),
+    });
+
+    // The tool waits for the request of another test
+    const result = await generateText({
+      model,
+      prompt: "Log in",
+      maxSteps: 2,
+      tools: {
+        wait: tool({
+          parameters: z.object({}),
+          execute: async () =>
+            (await generateText({ model, prompt: "Check out" })).text,
+        }),
+      },
+    });
+
+    expect(result.steps[0].toolResults[0].result).toBe("Checked out");
+    expect(result.text).toBe("Logged in");
+  });
+});
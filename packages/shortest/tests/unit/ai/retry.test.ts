@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getBackoffDelay,
+  getRetryAfter,
+  isNonRetryableStatus,
+  isOverloadedError,
+} from "@/ai/retry";
+
+describe("retry", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it.each([
+    [{ statusCode: 401 }, true],
+    [{ status: 403 }, true],
+    [{ statusCode: 429 }, false],
+    [{ statusCode: 500 }, false],
+    [{ statusCode: 529 }, false],
+    [new Error("Network error"), false],
+  ])("isNonRetryableStatus(%o) is %s", (error, expected) => {
+    expect(isNonRetryableStatus(error)).toBe(expected);
+  });
+
+  it("detects overloaded models", () => {
+    expect(isOverloadedError({ statusCode: 529 })).toBe(true);
+    expect(isOverloadedError({ statusCode: 503 })).toBe(true);
+    expect(
+      isOverloadedError({ data: { error: { type: "overloaded_error" } } }),
+    ).toBe(true);
+    expect(isOverloadedError({ statusCode: 429 })).toBe(false);
+  });
+
+  it("reads the delay of the rate limit headers", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+
+    expect(getRetryAfter({ responseHeaders: { "retry-after": "3" } })).toBe(
+      3000,
+    );
+    expect(
+      getRetryAfter({
+        responseHeaders: { "retry-after-ms": "250", "retry-after": "3" },
+      }),
+    ).toBe(250);
+    expect(
+      getRetryAfter({
+        responseHeaders: { "retry-after": "Thu, 01 Jan 2026 00:00:10 GMT" },
+      }),
+    ).toBe(10_000);
+    expect(getRetryAfter({ responseHeaders: { "retry-after": "600" } })).toBe(
+      60_000,
+    );
+    expect(getRetryAfter({ responseHeaders: {} })).toBeUndefined();
+    expect(getRetryAfter(new Error("Network error"))).toBeUndefined();
+  });
+
+  it("doubles the backoff delay, half of it being random", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect([1, 2, 3].map(getBackoffDelay)).toEqual([1000, 2000, 4000]);
+    expect(getBackoffDelay(10)).toBe(30_000);
+
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    expect(getBackoffDelay(1)).toBe(2000);
+  });
+});
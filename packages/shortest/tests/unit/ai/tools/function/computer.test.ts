@@ -0,0 +1,134 @@
+import { CoreMessage } from "ai";
+import { describe, expect, it, vi } from "vitest";
+import {
+  createFunctionComputer,
+  moveScreenshotsToUserMessages,
+} from "@/ai/tools/function/computer";
+import * as actions from "@/browser/actions";
+import { BrowserTool } from "@/browser/core/browser-tool";
+
+describe("createFunctionComputer", () => {
+  it("executes browser actions from function calls", async () => {
+    const browserTool = {
+      execute: vi.fn().mockResolvedValue({ output: "Clicked" }),
+      getScaleRatio: vi.fn().mockReturnValue({ x: 1, y: 1 }),
+      toToolParameters: vi.fn().mockReturnValue({
+        display_width_px: 390,
+        display_height_px: 844,
+      }),
+    } as unknown as BrowserTool;
+
+    const computer = createFunctionComputer(browserTool);
+    expect(computer.description).toContain("The screen is 390x844 pixels.");
+    const result = await computer.execute!(
+      { action: "left_click", coordinate: [100, 200] },
+      { toolCallId: "call_1", messages: [] },
+    );
+
+    expect(browserTool.execute).toHaveBeenCalledWith({
+      action: "left_click",
+      coordinate: [100, 200],
+    });
+    expect(result).toEqual({ output: "Clicked" });
+  });
+
+  it("clicks the page at the coordinates of the screenshot", async () => {
+    const page = {
+      viewportSize: () => ({ width: 1920, height: 1080 }),
+      mouse: { move: vi.fn(), click: vi.fn() },
+      evaluate: vi.fn(),
+      waitForTimeout: vi.fn(),
+    } as any;
+    const browserTool = {
+      execute: vi.fn(async ({ coordinate }) => {
+        await actions.click(page, coordinate[0], coordinate[1]);
+        return { output: "Clicked" };
+      }),
+      getScaleRatio: () => actions.getScaleRatio(page),
+      toToolParameters: vi.fn().mockReturnValue({
+        display_width_px: 1920,
+        display_height_px: 1080,
+      }),
+    } as unknown as BrowserTool;
+
+    const computer = createFunctionComputer(browserTool);
+    await computer.execute!(
+      { action: "left_click", coordinate: [1501, 877] },
+      { toolCallId: "call_1", messages: [] },
+    );
+
+    expect(page.mouse.click).toHaveBeenCalledWith(1501, 877, {
+      button: "left",
+      clickCount: 1,
+    });
+  });
+});
+
+describe("moveScreenshotsToUserMessages", () => {
+  it("moves screenshots from tool results to a user message", () => {
+    const messages: CoreMessage[] = [
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "tool-call",
+            toolCallId: "call_1",
+            toolName: "computer",
+            args: { action: "screenshot" },
+          },
+        ],
+      },
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: "call_1",
+            toolName: "computer",
+            result: { output: "Screenshot taken", base64_image: "abc" },
+          },
+        ],
+      },
+    ];
+
+    expect(moveScreenshotsToUserMessages(messages)).toEqual([
+      messages[0],
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: "call_1",
+            toolName: "computer",
+            result: { output: "Screenshot taken" },
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Screenshot of the browser:" },
+          { type: "image", image: "abc", mimeType: "image/jpeg" },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps tool results without screenshots", () => {
+    const messages: CoreMessage[] = [
+      {
+        role: "tool",
+        content: [
+          {
+            type: "tool-result",
+            toolCallId: "call_1",
+            toolName: "computer",
+            result: { output: "Typed: hello" },
+          },
+        ],
+      },
+    ];
+
+    expect(moveScreenshotsToUserMessages(messages)).toEqual(messages);
+  });
+});
@@ -0,0 +1,183 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { generateText, wrapLanguageModel } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createProvider } from "@/ai/provider";
+import { createFunctionComputer } from "@/ai/tools/function/computer";
+import {
+  parseTextToolCall,
+  textToolProtocolMiddleware,
+} from "@/ai/tools/text/protocol";
+import * as actions from "@/browser/actions";
+import { BrowserTool } from "@/browser/core/browser-tool";
+
+describe("parseTextToolCall", () => {
+  it("parses a tool call with the text preceding it", () => {
+    expect(
+      parseTextToolCall(
+        'I need to see the page first.\n{"tool": "computer", "action": "left_click", "coordinate": [10, 20]}',
+      ),
+    ).toEqual({
+      toolName: "computer",
+      args: { action: "left_click", coordinate: [10, 20] },
+      reasoning: "I need to see the page first.",
+    });
+  });
+
+  it("ignores replies without tool", () => {
+    expect(
+      parseTextToolCall('{"status": "passed", "reason": "Logged in"}'),
+    ).toBeNull();
+    expect(parseTextToolCall("The test passed")).toBeNull();
+    expect(parseTextToolCall('{"tool": "computer", ')).toBeNull();
+  });
+});
+
+describe("textToolProtocolMiddleware", () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: any[];
+  let replies: string[];
+
+  beforeEach(async () => {
+    requests = [];
+    replies = [];
+    // Stand-in for the OpenAI-compatible API of Ollama
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push({ url: req.url, body: JSON.parse(body) });
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            id: `chatcmpl-${requests.length}`,
+            object: "chat.completion",
+            created: 0,
+            model: "llava",
+            choices: [
+              {
+                index: 0,
+                message: { role: "assistant", content: replies.shift() },
+                finish_reason: "stop",
+              },
+            ],
+            usage: {
+              prompt_tokens: 10,
+              completion_tokens: 5,
+              total_tokens: 15,
+            },
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("runs tools from JSON replies and sends screenshots back", async () => {
+    const browserTool = {
+      execute: vi.fn().mockResolvedValue({
+        output: "Screenshot taken",
+        base64_image: "c2NyZWVuc2hvdA==",
+      }),
+      toToolParameters: vi.fn().mockReturnValue({
+        display_width_px: 1920,
+        display_height_px: 1080,
+      }),
+    } as unknown as BrowserTool;
+    replies.push(
+      'Let me look at the page.\n{"tool": "computer", "action": "screenshot"}',
+      '{"status": "passed", "reason": "The page is visible"}',
+    );
+
+    const result = await generateText({
+      model: wrapLanguageModel({
+        model: createProvider({ provider: "ollama", baseURL, model: "llava" }),
+        middleware: textToolProtocolMiddleware,
+      }),
+      system: "You are a test runner.",
+      prompt: "Check the home page",
+      tools: { computer: createFunctionComputer(browserTool) },
+      maxSteps: 2,
+    });
+
+    expect(browserTool.execute).toHaveBeenCalledWith({ action: "screenshot" });
+    expect(result.text).toBe(
+      '{"status": "passed", "reason": "The page is visible"}',
+    );
+    expect(result.steps[0].text).toBe("Let me look at the page.");
+    expect(result.steps[0].finishReason).toBe("tool-calls");
+
+    expect(requests).toHaveLength(2);
+    const [first, second] = requests;
+    expect(first.url).toBe("/v1/chat/completions");
+    expect(first.body.tools).toBeUndefined();
+    expect(first.body.messages[0].role).toBe("system");
+    expect(first.body.messages[0].content).toContain("You are a test runner.");
+    expect(first.body.messages[0].content).toContain("## computer");
+
+    expect(second.body.messages.slice(2)).toEqual([
+      {
+        role: "assistant",
+        content:
+          'Let me look at the page.{"tool":"computer","action":"screenshot"}',
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Result of computer: Screenshot taken" },
+          {
+            type: "image_url",
+            image_url: { url: "data:image/jpeg;base64,c2NyZWVuc2hvdA==" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("clicks the page at the coordinates of the screenshot", async () => {
+    const page = {
+      viewportSize: () => ({ width: 1920, height: 1080 }),
+      mouse: { move: vi.fn(), click: vi.fn() },
+      evaluate: vi.fn(),
+      waitForTimeout: vi.fn(),
+    } as any;
+    const browserTool = {
+      execute: vi.fn(async ({ coordinate }) => {
+        await actions.click(page, coordinate[0], coordinate[1]);
+        return { output: "Clicked" };
+      }),
+      getScaleRatio: () => actions.getScaleRatio(page),
+      toToolParameters: vi.fn().mockReturnValue({
+        display_width_px: 1920,
+        display_height_px: 1080,
+      }),
+    } as unknown as BrowserTool;
+    replies.push(
+      '{"tool": "computer", "action": "left_click", "coordinate": [960, 540]}',
+      '{"status": "passed", "reason": "Clicked the button"}',
+    );
+
+    await generateText({
+      model: wrapLanguageModel({
+        model: createProvider({ provider: "ollama", baseURL, model: "llava" }),
+        middleware: textToolProtocolMiddleware,
+      }),
+      prompt: "Click the button in the middle of the page",
+      tools: { computer: createFunctionComputer(browserTool) },
+      maxSteps: 2,
+    });
+
+    expect(page.mouse.click).toHaveBeenCalledWith(960, 540, {
+      button: "left",
+      clickCount: 1,
+    });
+  });
+});
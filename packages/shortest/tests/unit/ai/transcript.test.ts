@@ -0,0 +1,162 @@
+import * as fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { generateText, tool, wrapLanguageModel } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  createMockModel,
+  createTranscriptRecorder,
+  getTranscriptPath,
+  Transcript,
+} from "@/ai/transcript";
+import { createTestCase } from "@/core/runner/test-case";
+
+describe("transcript", () => {
+  const testCase = createTestCase({
+    name: "Log in with email",
+    filePath: "app/login.test.ts",
+    describePath: ["Authentication"],
+  });
+  let tempDir: string;
+  let transcriptPath: string;
+
+  const createTools = () => ({
+    navigate: tool({
+      parameters: z.object({ action: z.literal("navigate"), url: z.string() }),
+      execute: vi.fn().mockResolvedValue({ output: "Navigated" }),
+    }),
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "shortest-transcript-"));
+    transcriptPath = path.join(tempDir, "transcript.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe("getTranscriptPath", () => {
+    it("names the transcript after the test file and title", () => {
+      expect(getTranscriptPath(testCase, "transcripts")).toBe(
+        path.join(
+          process.cwd(),
+          "transcripts",
+          "app/login.test.ts",
+          "authentication-log-in-with-email.json",
+        ),
+      );
+    });
+  });
+
+  describe("createMockModel", () => {
+    it("replays tool calls and the final verdict", async () => {
+      const transcript: Transcript = {
+        version: 1,
+        test: { name: "Authentication › Log in with email", filePath: "" },
+        responses: [
+          {
+            toolCalls: [
+              {
+                toolName: "navigate",
+                args: { action: "navigate", url: "http://localhost:3000" },
+              },
+            ],
+            usage: { promptTokens: 100, completionTokens: 10 },
+          },
+          {
+            text: '{"status": "passed", "reason": "Logged in"}',
+            toolCalls: [],
+            usage: { promptTokens: 200, completionTokens: 20 },
+          },
+        ],
+      };
+      await fs.writeFile(transcriptPath, JSON.stringify(transcript));
+      const model = createMockModel(transcriptPath);
+      const tools = createTools();
+
+      const first = await generateText({ model, prompt: "Log in", tools });
+      expect(first.finishReason).toBe("tool-calls");
+      expect(tools.navigate.execute).toHaveBeenCalledWith(
+        { action: "navigate", url: "http://localhost:3000" },
+        expect.anything(),
+      );
+      expect(first.usage.totalTokens).toBe(110);
+
+      const second = await generateText({ model, prompt: "Log in", tools });
+      expect(second.text).toBe('{"status": "passed", "reason": "Logged in"}');
+
+      await expect(
+        generateText({ model, prompt: "Log in", tools }),
+      ).rejects.toThrow("Transcript has no response left for request 3");
+    });
+
+    it("throws when the transcript is missing", async () => {
+      const model = createMockModel(transcriptPath);
+
+      await expect(generateText({ model, prompt: "Log in" })).rejects.toThrow(
+        `Transcript not found: ${transcriptPath}`,
+      );
+    });
+
+    it("throws when the transcript is invalid", async () => {
+      await fs.writeFile(transcriptPath, JSON.stringify({ version: 2 }));
+      const model = createMockModel(transcriptPath);
+
+      await expect(generateText({ model, prompt: "Log in" })).rejects.toThrow(
+        `Invalid transcript: ${transcriptPath}`,
+      );
+    });
+  });
+
+  describe("createTranscriptRecorder", () => {
+    it("records the responses of a model to replay them", async () => {
+      await fs.writeFile(
+        path.join(tempDir, "source.json"),
+        JSON.stringify({
+          version: 1,
+          test: { name: "source", filePath: "" },
+          responses: [
+            {
+              text: "Opening the app",
+              toolCalls: [
+                {
+                  toolName: "navigate",
+                  args: { action: "navigate", url: "http://localhost:3000" },
+                },
+              ],
+              usage: { promptTokens: 100, completionTokens: 10 },
+            },
+          ],
+        }),
+      );
+      const model = wrapLanguageModel({
+        model: createMockModel(path.join(tempDir, "source.json")),
+        middleware: createTranscriptRecorder(testCase, transcriptPath),
+      });
+
+      await generateText({ model, prompt: "Log in", tools: createTools() });
+
+      expect(JSON.parse(await fs.readFile(transcriptPath, "utf-8"))).toEqual({
+        version: 1,
+        test: {
+          name: "Authentication › Log in with email",
+          filePath: "app/login.test.ts",
+        },
+        responses: [
+          {
+            text: "Opening the app",
+            toolCalls: [
+              {
+                toolName: "navigate",
+                args: { action: "navigate", url: "http://localhost:3000" },
+              },
+            ],
+            usage: { promptTokens: 100, completionTokens: 10 },
+          },
+        ],
+      });
+    });
+  });
+});
@@ -1,9 +1,13 @@
 import { describe, expect, it } from "vitest";
 import { z } from "zod";
-import { extractJsonPayload } from "@/ai/utils/json";
+import {
+  createAIJSONResponseSchema,
+  extractJsonPayload,
+} from "@/ai/utils/json";
 
 describe("extractJsonPayload", () => {
-  const validResponse = '{"status": "passed", "reason": "test passed"}';
+  const validResponse =
+    '{"status": "passed", "reason": "test passed", "expectations": [{"index": 1, "status": "passed", "evidence": "Dashboard shown", "steps": [2]}]}';
   const customSchema = z.object({
     status: z.enum(["passed", "failed"]),
     reason: z.string(),
@@ -14,6 +18,9 @@ describe("extractJsonPayload", () => {
     expect(result).toEqual({
       status: "passed",
       reason: "test passed",
+      expectations: [
+        { index: 1, status: "passed", evidence: "Dashboard shown", steps: [2] },
+      ],
     });
   });
 
@@ -42,7 +49,8 @@ describe("extractJsonPayload", () => {
   });
 
   it("throws AIError on schema validation failure", () => {
-    const invalidStatus = '{"status": "invalid", "reason": "test"}';
+    const invalidStatus =
+      '{"status": "invalid", "reason": "test", "expectations": []}';
     expect(() => extractJsonPayload(invalidStatus)).toThrowError(
       expect.objectContaining({
         name: "AIError",
@@ -62,10 +70,96 @@ describe("extractJsonPayload", () => {
   it("handles JSON within other text", () => {
     const mixedContent =
       'Some text before {"status": "passed", "reason": "test"} and after';
-    const result = extractJsonPayload(mixedContent);
+    const result = extractJsonPayload(mixedContent, customSchema);
     expect(result).toEqual({
       status: "passed",
       reason: "test",
     });
   });
+
+  it("ignores braces in JSON strings", () => {
+    const result = extractJsonPayload(
+      'Result: {"status": "failed", "reason": "Page shows {error}"}',
+      customSchema,
+    );
+    expect(result).toEqual({ status: "failed", reason: "Page shows {error}" });
+  });
+
+  it("throws AIError when expectations are missing", () => {
+    expect(() =>
+      extractJsonPayload('{"status": "passed", "reason": "test"}'),
+    ).toThrowError(
+      expect.objectContaining({
+        name: "AIError",
+        type: "invalid-response",
+      }),
+    );
+  });
+});
+
+describe("createAIJSONResponseSchema", () => {
+  const expectation = (index: number, status: "passed" | "failed") => ({
+    index,
+    status,
+    evidence: `Expectation ${index} ${status}`,
+  });
+
+  it("accepts one result per expectation, defaulting steps", () => {
+    const result = createAIJSONResponseSchema(2).parse({
+      status: "failed",
+      reason: "Cart is empty",
+      expectations: [expectation(2, "failed"), expectation(1, "passed")],
+    });
+    expect(result.expectations).toEqual([
+      { ...expectation(2, "failed"), steps: [] },
+      { ...expectation(1, "passed"), steps: [] },
+    ]);
+  });
+
+  it.each([
+    { name: "missing", expectations: [expectation(1, "passed")] },
+    {
+      name: "duplicated",
+      expectations: [expectation(1, "passed"), expectation(1, "passed")],
+    },
+    {
+      name: "out of range",
+      expectations: [expectation(1, "passed"), expectation(3, "passed")],
+    },
+  ])("rejects $name expectation results", ({ expectations }) => {
+    const result = createAIJSONResponseSchema(2).safeParse({
+      status: "passed",
+      reason: "",
+      expectations,
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toMatch(
+      /^Expected exactly one result for each expectation from 1 to 2/,
+    );
+  });
+
+  it.each([
+    {
+      status: "passed" as const,
+      expectations: [expectation(1, "failed")],
+      message: 'Status must be "failed" when an expectation failed',
+    },
+    {
+      status: "failed" as const,
+      expectations: [expectation(1, "passed")],
+      message: 'Status must be "passed" when all expectations passed',
+    },
+  ])(
+    "rejects a $status status contradicting the expectations",
+    ({ status, expectations, message }) => {
+      const result = createAIJSONResponseSchema(1).safeParse({
+        status,
+        reason: "",
+        expectations,
+      });
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({ path: ["status"], message }),
+      ]);
+    },
+  );
 });
@@ -0,0 +1,78 @@
+import vm from "vm";
+import { Page } from "playwright";
+import { describe, expect, test } from "vitest";
+import { evaluateWithAccessibility } from "@/browser/actions/accessibility";
+
+describe("accessibility", () => {
+  const createElement = ({
+    tagName,
+    attributes = {},
+    ...properties
+  }: {
+    tagName: string;
+    attributes?: Record<string, string>;
+    [property: string]: unknown;
+  }) => ({
+    tagName,
+    getAttribute: (name: string) => attributes[name] ?? null,
+    hasAttribute: (name: string) => name in attributes,
+    ...properties,
+  });
+
+  const elements: Record<string, ReturnType<typeof createElement>> = {
+    submit: createElement({
+      tagName: "INPUT",
+      type: "submit",
+      value: "Sign in",
+    }),
+    email: createElement({
+      tagName: "INPUT",
+      type: "email",
+      labels: [{ textContent: " Email\n" }],
+      attributes: { placeholder: "you@example.com" },
+    }),
+    docs: createElement({
+      tagName: "A",
+      textContent: "Docs",
+      attributes: { href: "/docs" },
+    }),
+    anchor: createElement({ tagName: "A", textContent: "Read more" }),
+    nav: createElement({ tagName: "NAV", textContent: "Home Docs" }),
+    close: createElement({
+      tagName: "BUTTON",
+      textContent: "×",
+      attributes: { "aria-labelledby": "close-label" },
+    }),
+    "close-label": createElement({ tagName: "SPAN", textContent: "Close" }),
+  };
+
+  // Runs the expression sent to the browser against the fake elements
+  const page = {
+    evaluate: async (expression: string) =>
+      vm.runInNewContext(expression, {
+        document: { getElementById: (id: string) => elements[id] ?? null },
+      }),
+  } as unknown as Page;
+
+  const describeElement = (id: string) =>
+    evaluateWithAccessibility(
+      page,
+      ({ getRole, getName }, elementId) => {
+        const element = document.getElementById(elementId)!;
+        const role = getRole(element);
+        return { role, name: getName(element, role) };
+      },
+      id,
+    );
+
+  test.each([
+    ["submit", "button", "Sign in"],
+    ["email", "textbox", "Email"],
+    ["docs", "link", "Docs"],
+    ["anchor", null, "Read more"],
+    ["nav", "navigation", ""],
+    ["close", "button", "Close"],
+  ])("gets the role and name of %s in the browser", async (id, role, name) => {
+    expect(await describeElement(id)).toEqual({ role, name });
+  });
+});
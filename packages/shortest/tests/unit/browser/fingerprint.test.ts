@@ -0,0 +1,105 @@
+import { Page } from "playwright";
+import { describe, expect, test, vi } from "vitest";
+import {
+  describeFingerprint,
+  isSameElement,
+  locateElementByFingerprint,
+} from "@/browser/actions/fingerprint";
+import { ElementFingerprint } from "@/types/browser";
+
+describe("fingerprint", () => {
+  const fingerprint: ElementFingerprint = {
+    role: "button",
+    name: "Sign in",
+    testId: null,
+    text: "Sign in",
+    cssPath: "#login > button",
+    boundingBox: { x: 10, y: 20, width: 100, height: 40 },
+  };
+
+  describe("isSameElement", () => {
+    test("matches by role and accessible name", () => {
+      expect(
+        isSameElement(fingerprint, {
+          ...fingerprint,
+          cssPath: "main > form > button",
+          boundingBox: { x: 300, y: 400, width: 120, height: 40 },
+        }),
+      ).toBe(true);
+      expect(
+        isSameElement(fingerprint, { ...fingerprint, name: "Sign up" }),
+      ).toBe(false);
+      expect(isSameElement(fingerprint, null)).toBe(false);
+    });
+
+    test("matches by test id when recorded", () => {
+      const withTestId = { ...fingerprint, testId: "login-button" };
+      expect(
+        isSameElement(withTestId, {
+          ...withTestId,
+          name: "Log in",
+        }),
+      ).toBe(true);
+      expect(isSameElement(withTestId, fingerprint)).toBe(false);
+    });
+  });
+
+  describe("locateElementByFingerprint", () => {
+    // Only the CSS path of the fingerprint matches an element, now at another position
+    const createPage = (elementAtCssPath: ElementFingerprint) => {
+      const noMatch = { count: vi.fn().mockResolvedValue(0) };
+      return {
+        viewportSize: () => ({ width: 1000, height: 800 }),
+        getByTestId: () => noMatch,
+        getByRole: () => noMatch,
+        getByText: () => noMatch,
+        locator: () => ({
+          count: vi.fn().mockResolvedValue(1),
+          scrollIntoViewIfNeeded: vi.fn(),
+          boundingBox: vi
+            .fn()
+            .mockResolvedValue({ x: 210, y: 320, width: 100, height: 40 }),
+        }),
+        evaluate: vi.fn().mockResolvedValue(elementAtCssPath),
+      } as unknown as Page;
+    };
+
+    test("relocates the recorded element by its CSS path", async () => {
+      const page = createPage({
+        ...fingerprint,
+        boundingBox: { x: 210, y: 320, width: 100, height: 40 },
+      });
+
+      expect(
+        await locateElementByFingerprint(page, fingerprint, [60, 40]),
+      ).toEqual([260, 340]);
+    });
+
+    test("does not relocate to another element at the recorded CSS path", async () => {
+      const page = createPage({
+        ...fingerprint,
+        name: "Delete account",
+        text: "Delete account",
+      });
+
+      expect(
+        await locateElementByFingerprint(page, fingerprint, [60, 40]),
+      ).toBeNull();
+    });
+  });
+
+  describe("describeFingerprint", () => {
+    test("describes the element for error messages", () => {
+      expect(describeFingerprint(fingerprint)).toBe('button "Sign in"');
+      expect(
+        describeFingerprint({
+          ...fingerprint,
+          role: null,
+          name: null,
+          testId: "avatar",
+        }),
+      ).toBe('#login > button [data-testid="avatar"]');
+      expect(describeFingerprint(null)).toBe("no element");
+    });
+  });
+});
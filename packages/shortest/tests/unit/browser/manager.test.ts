@@ -0,0 +1,175 @@
+import path from "path";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { BrowserManager } from "@/browser/manager";
+import { ShortestConfig } from "@/types/config";
+import { ConfigError } from "@/utils/errors";
+
+const { browser, context, createBrowserType } = vi.hoisted(() => {
+  const page = {
+    goto: vi.fn(),
+    waitForLoadState: vi.fn(),
+    video: vi.fn().mockReturnValue({
+      path: vi.fn().mockResolvedValue("/runs/run-1/page.webm"),
+    }),
+  };
+  const context = {
+    newPage: vi.fn().mockResolvedValue(page),
+    pages: vi.fn().mockReturnValue([page]),
+    close: vi.fn(),
+    tracing: { start: vi.fn(), stop: vi.fn() },
+  };
+  const browser = {
+    newContext: vi.fn().mockResolvedValue(context),
+    close: vi.fn(),
+  };
+  const createBrowserType = () => ({
+    launch: vi.fn().mockResolvedValue(browser),
+    connect: vi.fn().mockResolvedValue(browser),
+    connectOverCDP: vi.fn().mockResolvedValue(browser),
+  });
+  return { browser, context, createBrowserType };
+});
+
+vi.mock("playwright", () => ({
+  chromium: createBrowserType(),
+  firefox: createBrowserType(),
+  webkit: createBrowserType(),
+  devices: {},
+}));
+
+const playwright = await import("playwright");
+
+describe("BrowserManager", () => {
+  const createConfig = (
+    browserConfig: ShortestConfig["browser"],
+    recording?: ShortestConfig["recording"],
+  ) =>
+    ({
+      baseUrl: "http://localhost:3000",
+      browser: browserConfig,
+      recording,
+    }) as ShortestConfig;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("launches a local browser", async () => {
+    const browserManager = new BrowserManager(createConfig({}));
+    await browserManager.launch();
+
+    expect(playwright.chromium.launch).toHaveBeenCalled();
+    expect(playwright.chromium.connect).not.toHaveBeenCalled();
+  });
+
+  test("connects to a browser server with the engine of browser.name", async () => {
+    const browserManager = new BrowserManager(
+      createConfig({
+        name: "firefox",
+        connect: { wsEndpoint: "ws://grid:3000/" },
+      }),
+    );
+    await browserManager.launch();
+
+    expect(playwright.firefox.connect).toHaveBeenCalledWith("ws://grid:3000/");
+    expect(playwright.firefox.launch).not.toHaveBeenCalled();
+    expect(browser.newContext).toHaveBeenCalledWith(
+      expect.objectContaining({ baseURL: "http://localhost:3000" }),
+    );
+
+    await browserManager.close();
+    expect(context.close).toHaveBeenCalled();
+    expect(browserManager.getBrowser()).toBeNull();
+  });
+
+  test("connects to a Chromium browser over CDP", async () => {
+    const browserManager = new BrowserManager(
+      createConfig({ connect: { cdpUrl: "http://localhost:9222" } }),
+    );
+    await browserManager.launch();
+
+    expect(playwright.chromium.connectOverCDP).toHaveBeenCalledWith(
+      "http://localhost:9222",
+    );
+    expect(playwright.chromium.launch).not.toHaveBeenCalled();
+  });
+
+  test("throws an error when connecting to another engine over CDP", async () => {
+    const browserManager = new BrowserManager(
+      createConfig({
+        name: "webkit",
+        connect: { cdpUrl: "http://localhost:9222" },
+      }),
+    );
+
+    await expect(browserManager.launch()).rejects.toThrow(ConfigError);
+    expect(playwright.webkit.connectOverCDP).not.toHaveBeenCalled();
+  });
+
+  test("recreates the context in a new context", async () => {
+    const browserManager = new BrowserManager(createConfig({}));
+    await browserManager.launch();
+    await browserManager.recreateContext();
+
+    expect(context.close).toHaveBeenCalledTimes(1);
+    expect(browser.newContext).toHaveBeenCalledTimes(2);
+  });
+
+  describe("recording", () => {
+    test("keeps traces of failed test runs in retain-on-failure mode", async () => {
+      const browserManager = new BrowserManager(
+        createConfig({}, { trace: "retain-on-failure" }),
+      );
+      await browserManager.launch();
+
+      await browserManager.startRecording("/runs/run-1");
+      expect(context.tracing.start).toHaveBeenCalled();
+      expect(await browserManager.stopRecording(false)).toEqual({});
+      expect(context.tracing.stop).toHaveBeenLastCalledWith(undefined);
+
+      await browserManager.startRecording("/runs/run-2");
+      expect(await browserManager.stopRecording(true)).toEqual({
+        trace: path.relative(process.cwd(), "/runs/run-2/trace.zip"),
+      });
+      expect(context.tracing.stop).toHaveBeenLastCalledWith({
+        path: "/runs/run-2/trace.zip",
+      });
+      // Traces are recorded in the context of the file
+      expect(browser.newContext).toHaveBeenCalledTimes(1);
+    });
+
+    test("records videos and HAR files in a new context", async () => {
+      const browserManager = new BrowserManager(
+        createConfig({}, { video: "on", har: "on" }),
+      );
+      await browserManager.launch();
+      await browserManager.startRecording("/runs/run-1");
+
+      expect(context.close).toHaveBeenCalledTimes(1);
+      expect(browser.newContext).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          recordVideo: {
+            dir: "/runs/run-1",
+            size: { width: 1920, height: 1080 },
+          },
+          recordHar: { path: "/runs/run-1/network.har" },
+        }),
+      );
+      expect(await browserManager.stopRecording(false)).toEqual({
+        video: path.relative(process.cwd(), "/runs/run-1/page.webm"),
+        har: path.relative(process.cwd(), "/runs/run-1/network.har"),
+      });
+      expect(context.tracing.start).not.toHaveBeenCalled();
+    });
+
+    test("records nothing by default", async () => {
+      const browserManager = new BrowserManager(createConfig({}));
+      await browserManager.launch();
+      await browserManager.startRecording("/runs/run-1");
+
+      expect(await browserManager.stopRecording(true)).toEqual({});
+      expect(browser.newContext).toHaveBeenCalledTimes(1);
+      expect(context.tracing.start).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "vitest";
+import { getStableSelector, SnapshotElement } from "@/browser/actions/snapshot";
+
+describe("snapshot", () => {
+  describe("getStableSelector", () => {
+    const elements: Record<string, SnapshotElement> = {
+      e1: { role: "textbox", name: "Email", testId: "email" },
+      e2: { role: "button", name: "Sign in", testId: null },
+      e3: { role: "link", name: "Docs", testId: "nav-link" },
+      e4: { role: "link", name: "Docs", testId: "nav-link" },
+      e5: { role: "textbox", name: "", testId: null },
+    };
+
+    test("prefers a unique test id", () => {
+      expect(getStableSelector("e1", elements)).toBe('[data-testid="email"]');
+    });
+
+    test("falls back to the role and exact accessible name", () => {
+      expect(getStableSelector("e2", elements)).toBe(
+        'role=button[name="Sign in"s]',
+      );
+    });
+
+    test("tells apart elements sharing a role and name by position", () => {
+      expect(getStableSelector("e3", elements)).toBe(
+        'role=link[name="Docs"s] >> nth=0',
+      );
+      expect(getStableSelector("e4", elements)).toBe(
+        'role=link[name="Docs"s] >> nth=1',
+      );
+    });
+
+    test("counts all elements of the role for an unnamed element", () => {
+      expect(getStableSelector("e5", elements)).toBe("role=textbox >> nth=1");
+    });
+  });
+});
@@ -2,12 +2,13 @@ import { existsSync } from "fs";
 import * as fs from "fs/promises";
 import path from "path";
 import { describe, expect, it, vi, beforeEach } from "vitest";
-import { cleanUpCache } from "@/cache";
+import { CACHE_MAX_AGE_MS, cleanUpCache } from "@/cache";
 import { TestRunRepository } from "@/core/runner/test-run-repository";
 import { CacheEntry } from "@/types/cache";
 
 vi.mock("fs", () => ({
   existsSync: vi.fn(),
+  constants: { F_OK: 0 },
   Dirent: class {
     name: string;
     constructor(name: string) {
@@ -27,6 +28,9 @@ vi.mock("fs/promises", () => ({
   readFile: vi.fn(),
   unlink: vi.fn(),
   rm: vi.fn(),
+  stat: vi.fn(),
+  // No recordings unless a test creates the runs directory
+  access: vi.fn().mockRejectedValue(new Error("ENOENT")),
 }));
 
 vi.mock("@/log", () => ({
@@ -41,6 +45,7 @@ vi.mock("@/log", () => ({
 
 describe("cleanUpCache", () => {
   const TEST_CACHE_DIR = "/test-cache-dir";
+  const TEST_RUNS_DIR = "/test-runs-dir";
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -59,15 +64,44 @@ describe("cleanUpCache", () => {
     vi.mocked(existsSync).mockReturnValue(true);
     vi.mocked(fs.rm).mockResolvedValue(undefined);
 
-    await cleanUpCache({ forcePurge: true, dirPath: TEST_CACHE_DIR });
+    await cleanUpCache({
+      forcePurge: true,
+      dirPath: TEST_CACHE_DIR,
+      runsDirPath: TEST_RUNS_DIR,
+    });
 
     expect(fs.rm).toHaveBeenCalledWith(TEST_CACHE_DIR, {
       recursive: true,
       force: true,
     });
+    expect(fs.rm).toHaveBeenCalledWith(TEST_RUNS_DIR, {
+      recursive: true,
+      force: true,
+    });
     expect(fs.readdir).not.toHaveBeenCalled();
   });
 
+  it("should remove recordings older than the cache max age", async () => {
+    vi.mocked(existsSync).mockReturnValue(true);
+    vi.mocked(fs.access).mockResolvedValueOnce(undefined);
+    vi.mocked(fs.readdir)
+      .mockResolvedValueOnce(["expired-run", "recent-run"] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(fs.stat)
+      .mockResolvedValueOnce({
+        mtimeMs: Date.now() - CACHE_MAX_AGE_MS - 1000,
+      } as any)
+      .mockResolvedValueOnce({ mtimeMs: Date.now() } as any);
+
+    await cleanUpCache({ dirPath: TEST_CACHE_DIR, runsDirPath: TEST_RUNS_DIR });
+
+    expect(fs.rm).toHaveBeenCalledTimes(1);
+    expect(fs.rm).toHaveBeenCalledWith(
+      path.join(TEST_RUNS_DIR, "expired-run"),
+      { recursive: true, force: true },
+    );
+  });
+
   it("should process cache files and remove outdated ones", async () => {
     vi.mocked(existsSync).mockReturnValue(true);
     vi.mocked(fs.readdir).mockResolvedValue([
@@ -119,7 +153,7 @@ describe("cleanUpCache", () => {
       .mockResolvedValueOnce(JSON.stringify(outdatedEntry))
       .mockResolvedValueOnce(JSON.stringify(validEntry));
 
-    await cleanUpCache({ dirPath: TEST_CACHE_DIR });
+    await cleanUpCache({ dirPath: TEST_CACHE_DIR, runsDirPath: TEST_RUNS_DIR });
 
     expect(fs.readdir).toHaveBeenCalledWith(TEST_CACHE_DIR);
     expect(fs.readFile).toHaveBeenCalledTimes(2);
@@ -1,7 +1,7 @@
-import { describe, test, expect, beforeEach } from "vitest";
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
 import { vi } from "vitest";
 import { getLogger } from "@/log/index";
-import { ShortestConfig } from "@/types";
+import { CLIOptions, ShortestConfig } from "@/types";
 import { parseConfig } from "@/utils/config";
 
 describe("Config parsing", () => {
@@ -23,13 +23,24 @@ describe("Config parsing", () => {
         "baseUrl",
         "browser",
         "testPattern",
+        "workers",
+        "retries",
+        "reporters",
+        "forbidOnly",
         "ai",
         "caching",
+        "transcripts",
+        "budget",
+        "recording",
       ]);
       expect(config.headless).toBe(true);
       expect(config.baseUrl).toBe("https://example.com");
       expect(config.browser).toEqual({});
       expect(config.testPattern).toBe("**/*.test.ts");
+      expect(config.workers).toBe(1);
+      expect(config.retries).toBe(0);
+      expect(config.reporters).toEqual([]);
+      expect(config.forbidOnly).toBe(false);
       expect(config.ai).toEqual({
         apiKey: "foo",
         model: "claude-3-5-sonnet-20241022",
@@ -37,6 +48,17 @@ describe("Config parsing", () => {
       });
       expect(config.caching).toEqual({
         enabled: true,
+        replayOnly: false,
+      });
+      expect(config.transcripts).toEqual({
+        dir: "shortest-transcripts",
+        record: false,
+      });
+      expect(config.budget).toEqual({});
+      expect(config.recording).toEqual({
+        trace: "off",
+        video: "off",
+        har: "off",
       });
     });
   });
@@ -82,6 +104,307 @@ describe("Config parsing", () => {
     });
   });
 
+  describe("with config.browser.name option", () => {
+    test("it accepts a Playwright browser engine", () => {
+      const config = parseConfig({
+        ...baseConfig,
+        browser: { name: "webkit" },
+      });
+      expect(config.browser.name).toBe("webkit");
+    });
+
+    test("it throws an error on an unknown browser", () => {
+      expect(() =>
+        parseConfig({ ...baseConfig, browser: { name: "safari" } } as any),
+      ).toThrowError(/browser\.name/);
+    });
+  });
+
+  describe("with config.browser.device option", () => {
+    test("it accepts a Playwright device name", () => {
+      const config = parseConfig({
+        ...baseConfig,
+        browser: { device: "iPhone 13" },
+      });
+      expect(config.browser.device).toBe("iPhone 13");
+    });
+
+    test("it throws an error on an unknown device", () => {
+      expect(() =>
+        parseConfig({ ...baseConfig, browser: { device: "Nokia 3310" } }),
+      ).toThrowError(/browser\.device/);
+    });
+  });
+
+  describe("with config.browser.connect option", () => {
+    test("it accepts a browser server or CDP endpoint", () => {
+      expect(
+        parseConfig({
+          ...baseConfig,
+          browser: { connect: { wsEndpoint: "ws://grid:3000/" } },
+        }).browser.connect,
+      ).toEqual({ wsEndpoint: "ws://grid:3000/" });
+      expect(
+        parseConfig({
+          ...baseConfig,
+          browser: { connect: { cdpUrl: "http://localhost:9222" } },
+        }).browser.connect,
+      ).toEqual({ cdpUrl: "http://localhost:9222" });
+    });
+
+    test("it throws an error with both endpoints", () => {
+      expect(() =>
+        parseConfig({
+          ...baseConfig,
+          browser: {
+            connect: {
+              wsEndpoint: "ws://grid:3000/",
+              cdpUrl: "http://localhost:9222",
+            },
+          },
+        } as any),
+      ).toThrowError(/browser\.connect/);
+    });
+  });
+
+  describe("with config.projects option", () => {
+    test("it accepts projects with browser options", () => {
+      const config = parseConfig({
+        ...baseConfig,
+        projects: [
+          { name: "desktop" },
+          { name: "mobile", browser: { device: "iPhone 13" } },
+        ],
+      });
+      expect(config.projects).toEqual([
+        { name: "desktop" },
+        { name: "mobile", browser: { device: "iPhone 13" } },
+      ]);
+    });
+
+    test("it throws an error on duplicate project names", () => {
+      expect(() =>
+        parseConfig({
+          ...baseConfig,
+          projects: [{ name: "mobile" }, { name: "mobile" }],
+        }),
+      ).toThrowError(/projects/);
+    });
+
+    test("it throws an error on unknown project options", () => {
+      expect(() =>
+        parseConfig({
+          ...baseConfig,
+          projects: [{ name: "mobile", workers: 2 }],
+        } as any),
+      ).toThrowError("Unrecognized key(s) in object: 'workers'");
+    });
+  });
+
+  describe("with config.setup option", () => {
+    test("it accepts setups with a test file or a function", () => {
+      const fn = async () => {};
+      const config = parseConfig({
+        ...baseConfig,
+        setup: [
+          { name: "admin", file: "app/admin.setup.ts", maxAge: 3_600_000 },
+          { name: "guest", fn },
+        ],
+      });
+      expect(config.setup).toEqual([
+        { name: "admin", file: "app/admin.setup.ts", maxAge: 3_600_000 },
+        { name: "guest", fn },
+      ]);
+    });
+
+    test("it throws an error without a file or a function", () => {
+      expect(() =>
+        parseConfig({ ...baseConfig, setup: [{ name: "admin" }] }),
+      ).toThrowError(/must have either a file or a fn/);
+    });
+
+    test("it throws an error on names unsafe for file names", () => {
+      expect(() =>
+        parseConfig({
+          ...baseConfig,
+          setup: [{ name: "../admin", file: "app/admin.setup.ts" }],
+        }),
+      ).toThrowError(/setup\.0\.name/);
+    });
+
+    test("it throws an error on duplicate setup names", () => {
+      expect(() =>
+        parseConfig({
+          ...baseConfig,
+          setup: [
+            { name: "admin", file: "app/admin.setup.ts" },
+            { name: "admin", file: "app/other.setup.ts" },
+          ],
+        }),
+      ).toThrowError(/must have unique names/);
+    });
+  });
+
+  describe("with config.recording option", () => {
+    test("it defaults the modes that are not set", () => {
+      const config = parseConfig({
+        ...baseConfig,
+        recording: { trace: "retain-on-failure" },
+      });
+      expect(config.recording).toEqual({
+        trace: "retain-on-failure",
+        video: "off",
+        har: "off",
+      });
+    });
+
+    test("it throws an error on an unknown mode", () => {
+      expect(() =>
+        parseConfig({ ...baseConfig, recording: { video: "always" } } as any),
+      ).toThrowError(/recording\.video/);
+    });
+  });
+
+  describe("with config.workers option", () => {
+    test("it accepts a positive integer", () => {
+      const config = parseConfig({ ...baseConfig, workers: 4 });
+      expect(config.workers).toBe(4);
+    });
+
+    test("it throws an error when not a positive integer", () => {
+      expect(() => parseConfig({ ...baseConfig, workers: 0 })).toThrowError(
+        /workers/,
+      );
+    });
+
+    test("it is overridden by the workers CLI option", () => {
+      const config = parseConfig(
+        { ...baseConfig, workers: 2 },
+        {
+          baseUrl: "http://localhost:3000",
+          testPattern: "**/*.test.ts",
+          workers: 8,
+        },
+      );
+      expect(config.workers).toBe(8);
+    });
+  });
+
+  describe("with config.retries option", () => {
+    test("it accepts a non-negative integer", () => {
+      const config = parseConfig({ ...baseConfig, retries: 2 });
+      expect(config.retries).toBe(2);
+    });
+
+    test("it throws an error when negative", () => {
+      expect(() => parseConfig({ ...baseConfig, retries: -1 })).toThrowError(
+        /retries/,
+      );
+    });
+
+    test("it is overridden by the retries CLI option", () => {
+      const config = parseConfig(
+        { ...baseConfig, retries: 2 },
+        {
+          baseUrl: "http://localhost:3000",
+          testPattern: "**/*.test.ts",
+          retries: 0,
+        },
+      );
+      expect(config.retries).toBe(0);
+    });
+  });
+
+  describe("with config.forbidOnly option", () => {
+    test("it is enabled by the forbid-only CLI option", () => {
+      const config = parseConfig(baseConfig, {
+        baseUrl: "http://localhost:3000",
+        testPattern: "**/*.test.ts",
+        forbidOnly: true,
+      });
+      expect(config.forbidOnly).toBe(true);
+    });
+  });
+
+  describe("with config.caching.replayOnly option", () => {
+    test("it is enabled by the replay-only CLI option", () => {
+      const config = parseConfig(baseConfig, {
+        baseUrl: "http://localhost:3000",
+        testPattern: "**/*.test.ts",
+        replayOnly: true,
+      });
+      expect(config.caching).toEqual({ enabled: true, replayOnly: true });
+    });
+
+    test("it throws an error when caching is disabled", () => {
+      expect(() =>
+        parseConfig(baseConfig, {
+          baseUrl: "http://localhost:3000",
+          testPattern: "**/*.test.ts",
+          noCache: true,
+          replayOnly: true,
+        }),
+      ).toThrowError("'config.caching.replayOnly' requires caching");
+    });
+  });
+
+  describe("with config.reporters option", () => {
+    test("it accepts known reporters", () => {
+      const config = parseConfig({
+        ...baseConfig,
+        reporters: ["junit", "html"],
+      });
+      expect(config.reporters).toEqual(["junit", "html"]);
+    });
+
+    test("it accepts module paths and inline reporters", () => {
+      const reporter = { onTestEnd: () => {} };
+      const config = parseConfig({
+        ...baseConfig,
+        reporters: ["./reporters/dashboard.ts", reporter],
+      });
+      expect(config.reporters).toEqual(["./reporters/dashboard.ts", reporter]);
+    });
+
+    test("it replaces report files with the reporter CLI option, keeping custom reporters", () => {
+      const reporter = { onTestEnd: () => {} };
+      const config = parseConfig(
+        {
+          ...baseConfig,
+          reporters: ["html", "./reporters/dashboard.ts", reporter],
+        },
+        {
+          baseUrl: "http://localhost:3000",
+          testPattern: "**/*.test.ts",
+          reporters: ["junit"],
+        },
+      );
+      expect(config.reporters).toEqual([
+        "junit",
+        "./reporters/dashboard.ts",
+        reporter,
+      ]);
+    });
+
+    test("it throws an error for an invalid reporter", () => {
+      expect(() =>
+        parseConfig({ ...baseConfig, reporters: [42] } as any),
+      ).toThrowError(/reporters/);
+    });
+
+    test("it is overridden by the reporter CLI option", () => {
+      const config = parseConfig(
+        { ...baseConfig, reporters: ["junit"] },
+        {
+          baseUrl: "http://localhost:3000",
+          testPattern: "**/*.test.ts",
+          reporters: ["json"],
+        },
+      );
+      expect(config.reporters).toEqual(["json"]);
+    });
+  });
+
   describe("with invalid config option", () => {
     test("it throws an error", () => {
       const userConfig = {
@@ -101,7 +424,7 @@ describe("Config parsing", () => {
         ai: {
           ...baseConfig.ai,
           invalidAIOption: "value",
-        },
+        } as any,
       };
       expect(() => parseConfig(userConfig)).toThrowError(
         "Unrecognized key(s) in object: 'invalidAIOption'",
@@ -205,11 +528,229 @@ describe("Config parsing", () => {
           },
         };
         expect(() => parseConfig(userConfig)).toThrowError(
-          /Invalid shortest\.config\n(?:\u001b\[\d+m)?ai\.provider(?:\u001b\[\d+m)?: Invalid literal value, expected "anthropic" \(received: "unknown"\)/,
+          /Invalid shortest\.config\n(?:\u001b\[\d+m)?ai\.provider(?:\u001b\[\d+m)?: Invalid discriminator value\. Expected 'anthropic' \| 'openai' \| 'openai-compatible' \| 'ollama' \| 'mock'/,
+        );
+      });
+    });
+
+    describe("with ai.provider openai", () => {
+      beforeEach(() => {
+        process.env.OPENAI_API_KEY = "openai-env-key";
+      });
+
+      afterEach(() => {
+        delete process.env.OPENAI_API_KEY;
+      });
+
+      test("defaults the model and reads the API key from the environment", () => {
+        const config = parseConfig({
+          ...baseConfig,
+          ai: { provider: "openai" },
+        });
+        expect(config.ai).toEqual({
+          provider: "openai",
+          apiKey: "openai-env-key",
+          model: "gpt-4o",
+        });
+      });
+    });
+
+    describe("with ai.provider openai-compatible", () => {
+      test("accepts a base URL without API key", () => {
+        const config = parseConfig({
+          ...baseConfig,
+          ai: {
+            provider: "openai-compatible",
+            baseURL: "http://localhost:1234/v1",
+            model: "qwen2.5-vl-7b-instruct",
+          },
+        });
+        expect(config.ai).toEqual({
+          provider: "openai-compatible",
+          baseURL: "http://localhost:1234/v1",
+          model: "qwen2.5-vl-7b-instruct",
+        });
+      });
+
+      test("throws an error without base URL", () => {
+        expect(() =>
+          parseConfig({
+            ...baseConfig,
+            ai: { provider: "openai-compatible", model: "local-model" },
+          }),
+        ).toThrowError(
+          /Invalid shortest\.config\n(?:\u001b\[\d+m)?ai\.baseURL(?:\u001b\[\d+m)?: Required/,
+        );
+      });
+    });
+
+    describe("with a model without a price", () => {
+      const ai = {
+        provider: "openai-compatible",
+        baseURL: "http://localhost:1234/v1",
+        model: "qwen2.5-vl-7b-instruct",
+      } as const;
+
+      test("logs a warning", () => {
+        const mockWarn = vi.fn();
+        vi.spyOn(getLogger(), "warn").mockImplementation(mockWarn);
+
+        parseConfig({ ...baseConfig, ai });
+
+        expect(mockWarn).toHaveBeenCalledWith(
+          "No price known for qwen2.5-vl-7b-instruct, its usage is counted as free. Set it in 'config.ai.pricing'.",
+        );
+      });
+
+      test("throws an error with config.budget.maxCostPerRun", () => {
+        expect(() =>
+          parseConfig({ ...baseConfig, ai, budget: { maxCostPerRun: 5 } }),
+        ).toThrowError(
+          "'config.budget.maxCostPerRun' requires the price of qwen2.5-vl-7b-instruct. Set it in 'config.ai.pricing'.",
+        );
+      });
+
+      test("accepts config.budget.maxCostPerRun with ai.pricing", () => {
+        const pricing = { qwen: { prompt: 0.0001, completion: 0.0002 } };
+        const config = parseConfig({
+          ...baseConfig,
+          ai: { ...ai, pricing },
+          budget: { maxCostPerRun: 5 },
+        });
+        expect(config.ai.pricing).toEqual(pricing);
+      });
+    });
+
+    describe("with ai.provider ollama", () => {
+      test("defaults to the local Ollama server", () => {
+        const config = parseConfig({
+          ...baseConfig,
+          ai: { provider: "ollama", model: "llava" },
+        });
+        expect(config.ai).toEqual({
+          provider: "ollama",
+          baseURL: "http://localhost:11434",
+          model: "llava",
+        });
+      });
+    });
+
+    describe("with ai.provider mock", () => {
+      test("defaults to the tools of the default Anthropic model", () => {
+        const config = parseConfig({ ...baseConfig, ai: { provider: "mock" } });
+        expect(config.ai).toEqual({
+          provider: "mock",
+          model: "claude-3-5-sonnet-20241022",
+        });
+      });
+
+      test("throws an error when recording transcripts", () => {
+        expect(() =>
+          parseConfig({ ...baseConfig, ai: { provider: "mock" } }, {
+            recordTranscripts: true,
+          } as CLIOptions),
+        ).toThrowError(
+          "'config.transcripts.record' can't be used with the 'mock' provider.",
         );
       });
     });
 
+    describe("with ai.history", () => {
+      test("defaults the history limits left unset", () => {
+        const config = parseConfig({
+          ...baseConfig,
+          ai: { ...baseConfig.ai, history: { maxScreenshots: 1 } as any },
+        });
+        expect(config.ai.history).toEqual({
+          maxScreenshots: 1,
+          compactionThreshold: 100_000,
+        });
+      });
+    });
+
+    describe("with ai.instructions", () => {
+      test("keeps the system prompt additions", () => {
+        const config = parseConfig({
+          ...baseConfig,
+          ai: {
+            ...baseConfig.ai,
+            systemPromptAppend: "The app is a banking dashboard.",
+            instructions: ["Dismiss the cookie banner first"],
+          } as any,
+        });
+        expect(config.ai).toMatchObject({
+          systemPromptAppend: "The app is a banking dashboard.",
+          instructions: ["Dismiss the cookie banner first"],
+        });
+      });
+
+      test("throws an error on empty instructions", () => {
+        expect(() =>
+          parseConfig({
+            ...baseConfig,
+            ai: { ...baseConfig.ai, instructions: [""] } as any,
+          }),
+        ).toThrowError(/ai\.instructions\.0/);
+      });
+    });
+
+    describe("with ai.fallbackModels and ai.rateLimit", () => {
+      test("keeps the fallback models and rate limits", () => {
+        const config = parseConfig({
+          ...baseConfig,
+          ai: {
+            ...baseConfig.ai,
+            fallbackModels: ["claude-3-5-sonnet-latest"],
+            rateLimit: { maxConcurrentRequests: 2, requestsPerMinute: 50 },
+          } as any,
+        });
+        expect(config.ai).toMatchObject({
+          fallbackModels: ["claude-3-5-sonnet-latest"],
+          rateLimit: { maxConcurrentRequests: 2, requestsPerMinute: 50 },
+        });
+      });
+
+      test("throws an error on an unsupported fallback model", () => {
+        expect(() =>
+          parseConfig({
+            ...baseConfig,
+            ai: { ...baseConfig.ai, fallbackModels: ["gpt-4o"] } as any,
+          }),
+        ).toThrowError(/ai\.fallbackModels\.0/);
+      });
+
+      test("throws an error on a non-positive rate limit", () => {
+        expect(() =>
+          parseConfig({
+            ...baseConfig,
+            ai: {
+              ...baseConfig.ai,
+              rateLimit: { requestsPerMinute: 0 },
+            } as any,
+          }),
+        ).toThrowError(/ai\.rateLimit\.requestsPerMinute/);
+      });
+    });
+
+    describe("with ai.agentMode", () => {
+      test("keeps the agent mode", () => {
+        const config = parseConfig({
+          ...baseConfig,
+          ai: { ...baseConfig.ai, agentMode: "hybrid" },
+        });
+        expect(config.ai.agentMode).toBe("hybrid");
+      });
+
+      test("throws an error on an unknown agent mode", () => {
+        expect(() =>
+          parseConfig({
+            ...baseConfig,
+            ai: { ...baseConfig.ai, agentMode: "vision" } as any,
+          }),
+        ).toThrowError(/ai\.agentMode/);
+      });
+    });
+
     describe("with invalid ai.model", () => {
       test("throws an error", () => {
         const userConfig = {
@@ -0,0 +1,468 @@
+import { glob } from "glob";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { AIClient } from "@/ai/client";
+import { BrowserTool } from "@/browser/core/browser-tool";
+import { TestRunner } from "@/core/runner";
+import { TestReport } from "@/core/runner/reports";
+import { RunReporter } from "@/core/runner/run-reporter";
+import { createTestCase, TestCase } from "@/core/runner/test-case";
+import { TestRun } from "@/core/runner/test-run";
+import { TestRunRepository } from "@/core/runner/test-run-repository";
+import { CacheStep } from "@/types/cache";
+import { ShortestStrictConfig } from "@/types/config";
+
+vi.mock("glob", () => ({ glob: vi.fn() }));
+vi.mock("fs/promises", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("fs/promises")>()),
+  mkdir: vi.fn(),
+}));
+vi.mock("@/ai/client", () => ({ AIClient: vi.fn() }));
+vi.mock("@/browser/core/browser-tool", () => ({ BrowserTool: vi.fn() }));
+vi.mock("@/browser/manager", () => ({
+  BrowserManager: vi.fn(() => {
+    const page = { viewportSize: () => ({ width: 1920, height: 1080 }) };
+    const context = { pages: () => [page] };
+    return {
+      browserName: "chromium",
+      launch: vi.fn().mockResolvedValue(context),
+      getContext: () => context,
+      getBrowser: () => ({}),
+      startRecording: vi.fn(),
+      stopRecording: vi.fn().mockResolvedValue({}),
+      useStorageState: vi.fn(),
+      recreateContext: vi.fn(),
+      close: vi.fn(),
+    };
+  }),
+}));
+
+describe("TestRunner", () => {
+  const aiConfig = {
+    provider: "anthropic",
+    model: "claude-3-5-sonnet-20241022",
+  } as const;
+  const clickStep: CacheStep = {
+    reasoning: "Clicking the login button",
+    action: {
+      type: "tool_use",
+      name: "left_click",
+      input: { action: "left_click", coordinate: [100, 200] },
+    },
+    result: "Clicked",
+    timestamp: 1,
+    extras: {
+      fingerprint: {
+        role: "button",
+        name: "Log in",
+        testId: null,
+        text: "Log in",
+        cssPath: "form > button",
+        boundingBox: { x: 90, y: 190, width: 20, height: 20 },
+      },
+    },
+  };
+  const keyStep: CacheStep = {
+    reasoning: "Focusing the email field",
+    action: {
+      type: "tool_use",
+      name: "key",
+      input: { action: "key", text: "Tab" },
+    },
+    result: "Pressed Tab",
+    timestamp: 2,
+  };
+  const aiStep: CacheStep = {
+    reasoning: "Clicking the moved login button",
+    action: {
+      type: "tool_use",
+      name: "left_click",
+      input: { action: "left_click", coordinate: [300, 400] },
+    },
+    result: "Clicked",
+    timestamp: 3,
+  };
+
+  let browserTool: Record<string, ReturnType<typeof vi.fn>>;
+  let repository: Record<string, ReturnType<typeof vi.fn>>;
+  let testReports: TestReport[];
+  let prompts: string[];
+  let runEnded: boolean;
+
+  const createConfig = (
+    overrides: Partial<ShortestStrictConfig> = {},
+  ): ShortestStrictConfig =>
+    ({
+      headless: true,
+      baseUrl: "http://localhost:3000",
+      testPattern: "**/*.test.ts",
+      ai: aiConfig,
+      caching: { enabled: true, replayOnly: false },
+      workers: 1,
+      retries: 0,
+      reporters: [],
+      forbidOnly: false,
+      ...overrides,
+    }) as ShortestStrictConfig;
+
+  const createCachedRun = (testCase: TestCase, steps: CacheStep[]) => {
+    const testRun = TestRun.create(testCase);
+    testRun.markRunning();
+    steps.forEach((step) => testRun.addStep(step));
+    testRun.markPassed({ reason: "All steps completed" });
+    return testRun;
+  };
+
+  /**
+   * Runs the tests of the given files, each file path mapping to its tests or
+   * to the error thrown when importing it. Setup files are only imported by
+   * the setups of the config.
+   */
+  const runTests = async (
+    config: ShortestStrictConfig,
+    testFiles: Record<string, TestCase[] | Error>,
+    setupFiles: Record<string, TestCase[] | Error> = {},
+  ) => {
+    vi.mocked(glob).mockResolvedValue(Object.keys(testFiles) as any);
+    vi.spyOn(TestRunner.prototype as any, "importTestFile").mockImplementation(
+      async (filePath) => {
+        const tests = { ...testFiles, ...setupFiles }[filePath as string];
+        if (tests instanceof Error) throw tests;
+        return {
+          tests,
+          beforeAllFns: [],
+          afterAllFns: [],
+          beforeEachFns: [],
+          afterEachFns: [],
+          instructions: [],
+          testGroups: new Map(),
+        };
+      },
+    );
+
+    const runner = new TestRunner("/project", config);
+    runner["reporter"] = new RunReporter(
+      [
+        {
+          onTestEnd: (test) => void testReports.push(test),
+          onRunEnd: () => void (runEnded = true),
+        },
+      ],
+      aiConfig,
+    );
+    const execution = runner.execute("**/*.test.ts");
+
+    // Cached steps are replayed one second apart
+    let settled = false;
+    execution.then(
+      () => (settled = true),
+      () => (settled = true),
+    );
+    while (!settled) await vi.advanceTimersByTimeAsync(1000);
+    return execution;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    testReports = [];
+    prompts = [];
+    runEnded = false;
+
+    browserTool = {
+      execute: vi.fn().mockResolvedValue({
+        output: "Done",
+        metadata: { window_info: { url: "http://localhost:3000/", title: "" } },
+      }),
+      getPage: vi.fn(),
+      locateElementByFingerprint: vi.fn().mockResolvedValue([100, 200]),
+      getNormalizedComponentStringByCoords: vi.fn(),
+      getFocusedElementFingerprint: vi.fn(),
+    };
+    vi.mocked(BrowserTool).mockImplementation(() => browserTool as any);
+    vi.mocked(AIClient).mockImplementation(
+      ({ testRun }: { testRun: TestRun }) =>
+        ({
+          runAction: vi.fn(async (prompt: string) => {
+            prompts.push(prompt);
+            testRun.addStep(aiStep);
+            return {
+              response: {
+                status: "passed",
+                reason: "Logged in",
+                expectations: [],
+              },
+              metadata: {
+                usage: {
+                  promptTokens: 10,
+                  completionTokens: 5,
+                  totalTokens: 15,
+                },
+              },
+            };
+          }),
+        }) as any,
+    );
+
+    repository = {
+      getLatestPassedRun: vi.fn().mockResolvedValue(null),
+      saveRun: vi.fn(),
+      applyRetentionPolicy: vi.fn(),
+      getRecordingDirPath: vi.fn().mockReturnValue("/project/.shortest/runs"),
+      getTestRunDirPath: vi.fn().mockReturnValue("/project/.shortest/none"),
+    };
+    vi.spyOn(TestRunRepository, "getRepositoryForTestCase").mockReturnValue(
+      repository as any,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("in replay-only mode", () => {
+    const config = createConfig({
+      caching: { enabled: true, replayOnly: true },
+    });
+    const testCase = createTestCase({
+      name: "Log in",
+      filePath: "login.test.ts",
+    });
+
+    test("fails without calling the AI when no cached run exists", async () => {
+      const passed = await runTests(config, { "login.test.ts": [testCase] });
+
+      expect(passed).toBe(false);
+      expect(AIClient).not.toHaveBeenCalled();
+      expect(testReports[0]).toMatchObject({
+        status: "failed",
+        reason: "Replay failed: No successful cached test run found",
+      });
+    });
+
+    test("fails with the expected and actual element of a diverged step", async () => {
+      repository.getLatestPassedRun.mockResolvedValue(
+        createCachedRun(testCase, [keyStep, clickStep]),
+      );
+      browserTool.locateElementByFingerprint.mockResolvedValue(null);
+
+      const passed = await runTests(config, { "login.test.ts": [testCase] });
+
+      expect(passed).toBe(false);
+      expect(AIClient).not.toHaveBeenCalled();
+      expect(testReports[0].status).toBe("failed");
+      expect(testReports[0].reason).toBe(
+        [
+          "Replay failed: UI element not found at step 2/2 (left_click)",
+          '  Expected: button "Log in"',
+          "  Actual:   no matching element",
+        ].join("\n"),
+      );
+    });
+
+    test("fails with the expected and actual selector of a moved mouse", async () => {
+      const mouseMoveStep: CacheStep = {
+        ...keyStep,
+        action: {
+          type: "tool_use",
+          name: "mouse_move",
+          input: { action: "mouse_move", coordinate: [100, 200] },
+        },
+        extras: { componentStr: '<button id="login">' },
+      };
+      repository.getLatestPassedRun.mockResolvedValue(
+        createCachedRun(testCase, [mouseMoveStep]),
+      );
+      browserTool.getNormalizedComponentStringByCoords.mockResolvedValue(
+        '<button id="signup">',
+      );
+
+      await runTests(config, { "login.test.ts": [testCase] });
+
+      expect(AIClient).not.toHaveBeenCalled();
+      expect(testReports[0].reason).toBe(
+        [
+          "Replay failed: UI element mismatch at step 1/1 (mouse_move)",
+          '  Expected: <button id="login">',
+          '  Actual:   <button id="signup">',
+        ].join("\n"),
+      );
+    });
+  });
+
+  describe("with a cached run", () => {
+    const config = createConfig();
+    const beforeFn = vi.fn(async () => {});
+    const testCase = createTestCase({
+      name: "Log in",
+      filePath: "login.test.ts",
+      beforeFn,
+    });
+
+    test("replays all steps without calling the AI", async () => {
+      repository.getLatestPassedRun.mockResolvedValue(
+        createCachedRun(testCase, [keyStep, clickStep]),
+      );
+
+      const passed = await runTests(config, { "login.test.ts": [testCase] });
+
+      expect(passed).toBe(true);
+      expect(AIClient).not.toHaveBeenCalled();
+      expect(browserTool.execute).toHaveBeenCalledWith(keyStep.action!.input);
+      expect(browserTool.execute).toHaveBeenCalledWith(clickStep.action!.input);
+      const [savedRun] = repository.saveRun.mock.calls[0] as [TestRun];
+      expect(savedRun.status).toBe("passed");
+      expect(savedRun.executedFromCache).toBe(true);
+    });
+
+    test("resumes with the AI from the step where the replay diverged", async () => {
+      repository.getLatestPassedRun.mockResolvedValue(
+        createCachedRun(testCase, [keyStep, clickStep]),
+      );
+      browserTool.locateElementByFingerprint.mockResolvedValue(null);
+
+      const passed = await runTests(config, { "login.test.ts": [testCase] });
+
+      expect(passed).toBe(true);
+      expect(AIClient).toHaveBeenCalledTimes(1);
+      expect(prompts[0]).toContain(
+        `Completed steps (replayed from a previous run, do not repeat them):\n1. ${JSON.stringify(keyStep.action!.input)}`,
+      );
+      expect(prompts[0]).toContain(
+        "The previous run could not be replayed further: UI element not found at step 2/2 (left_click)",
+      );
+      // The page is already past the setup of the test
+      expect(beforeFn).not.toHaveBeenCalled();
+      expect(browserTool.execute).not.toHaveBeenCalledWith(
+        clickStep.action!.input,
+      );
+    });
+
+    test("saves the replayed steps and the steps of the AI as one run", async () => {
+      repository.getLatestPassedRun.mockResolvedValue(
+        createCachedRun(testCase, [keyStep, clickStep]),
+      );
+      browserTool.locateElementByFingerprint.mockResolvedValue(null);
+
+      await runTests(config, { "login.test.ts": [testCase] });
+
+      expect(repository.saveRun).toHaveBeenCalledTimes(1);
+      const [savedRun] = repository.saveRun.mock.calls[0] as [TestRun];
+      expect(savedRun.status).toBe("passed");
+      expect(savedRun.executedFromCache).toBe(false);
+      expect(savedRun.getSteps()).toEqual([keyStep, aiStep]);
+    });
+  });
+
+  describe("with focused tests", () => {
+    const config = createConfig({
+      caching: { enabled: false, replayOnly: false },
+    });
+    const testFiles = {
+      "login.test.ts": [
+        createTestCase({
+          name: "Log in",
+          filePath: "login.test.ts",
+          only: true,
+        }),
+        createTestCase({ name: "Log out", filePath: "login.test.ts" }),
+      ],
+      "checkout.test.ts": [
+        createTestCase({
+          name: "Pay with a card",
+          filePath: "checkout.test.ts",
+        }),
+      ],
+    };
+
+    test("runs only the focused tests of all files", async () => {
+      const passed = await runTests(config, testFiles);
+
+      expect(passed).toBe(true);
+      expect(testReports.map((test) => test.name)).toEqual(["Log in"]);
+    });
+
+    test("fails the run without running tests with forbidOnly", async () => {
+      const passed = await runTests({ ...config, forbidOnly: true }, testFiles);
+
+      expect(passed).toBe(false);
+      expect(testReports).toEqual([]);
+      expect(AIClient).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("with a failing setup", () => {
+    const testCase = createTestCase({
+      name: "View orders",
+      filePath: "orders.test.ts",
+      storageState: "login",
+    });
+
+    test("fails the run when the setup function throws", async () => {
+      const config = createConfig({
+        caching: { enabled: false, replayOnly: false },
+        setup: [
+          {
+            name: "login",
+            fn: async () => {
+              throw new Error("Wrong password");
+            },
+          },
+        ],
+      });
+
+      const passed = await runTests(config, { "orders.test.ts": [testCase] });
+
+      expect(passed).toBe(false);
+      expect(runEnded).toBe(true);
+      expect(testReports).toEqual([]);
+    });
+
+    test("fails the run when the setup file fails", async () => {
+      const config = createConfig({
+        caching: { enabled: false, replayOnly: false },
+        forbidOnly: true,
+        setup: [{ name: "login", file: "login.setup.ts" }],
+      });
+
+      const passed = await runTests(
+        config,
+        { "orders.test.ts": [testCase] },
+        {
+          "/project/login.setup.ts": [
+            createTestCase({
+              name: "Log in",
+              filePath: "login.setup.ts",
+              only: true,
+            }),
+          ],
+        },
+      );
+
+      expect(passed).toBe(false);
+      expect(runEnded).toBe(true);
+      expect(testReports).toEqual([]);
+    });
+  });
+
+  describe("with a worker throwing an error", () => {
+    test("summarizes the run before throwing the error", async () => {
+      const config = createConfig({
+        caching: { enabled: false, replayOnly: false },
+        workers: 2,
+      });
+      const error = new Error("Out of memory");
+
+      await expect(
+        runTests(config, {
+          "login.test.ts": [
+            createTestCase({ name: "Log in", filePath: "login.test.ts" }),
+          ],
+          "checkout.test.ts": error,
+        }),
+      ).rejects.toBe(error);
+      expect(runEnded).toBe(true);
+      expect(testReports.map((test) => test.name)).toEqual(["Log in"]);
+    });
+  });
+});
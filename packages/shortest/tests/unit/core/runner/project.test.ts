@@ -0,0 +1,49 @@
+import { describe, expect, test } from "vitest";
+import { getProjects } from "@/core/runner/project";
+import { ShortestStrictConfig } from "@/types/config";
+
+describe("getProjects", () => {
+  const config = {
+    baseUrl: "http://localhost:3000",
+    browser: {
+      name: "chromium",
+      contextOptions: { locale: "en-US", ignoreHTTPSErrors: true },
+    },
+  } as ShortestStrictConfig;
+
+  test("returns a single unnamed project without projects", () => {
+    expect(getProjects(config)).toEqual([{ config }]);
+    expect(getProjects({ ...config, projects: [] })).toEqual([
+      { config: { ...config, projects: [] } },
+    ]);
+  });
+
+  test("merges the browser options of each project", () => {
+    const projects = getProjects({
+      ...config,
+      projects: [
+        { name: "desktop" },
+        {
+          name: "mobile",
+          browser: {
+            name: "webkit",
+            device: "iPhone 13",
+            contextOptions: { locale: "fr-FR" },
+          },
+        },
+      ],
+    });
+
+    expect(projects.map((project) => project.name)).toEqual([
+      "desktop",
+      "mobile",
+    ]);
+    expect(projects[0].config.browser).toEqual(config.browser);
+    expect(projects[1].config.browser).toEqual({
+      name: "webkit",
+      device: "iPhone 13",
+      contextOptions: { locale: "fr-FR", ignoreHTTPSErrors: true },
+    });
+    expect(projects[1].config.baseUrl).toBe(config.baseUrl);
+  });
+});
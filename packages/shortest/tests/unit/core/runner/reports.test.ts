@@ -0,0 +1,288 @@
+import * as fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+  ReportFileReporter,
+  RunReport,
+  summarizeRunReport,
+  TestReport,
+  writeReports,
+} from "@/core/runner/reports";
+import { renderHtmlReport } from "@/core/runner/reports/html";
+import { renderJsonReport } from "@/core/runner/reports/json";
+import { renderJUnitReport } from "@/core/runner/reports/junit";
+import { getLogger } from "@/log";
+
+describe("reports", () => {
+  let tempDir: string;
+  let report: RunReport;
+
+  const createTestReport = (overrides: Partial<TestReport>): TestReport => ({
+    name: "test case",
+    describePath: [],
+    filePath: "login.test.ts",
+    browser: "chromium",
+    status: "passed",
+    reason: "All steps completed",
+    attempt: 1,
+    flaky: false,
+    duration: 1500,
+    tokenUsage: {
+      promptTokens: 1000,
+      completionTokens: 100,
+      totalTokens: 1100,
+    },
+    cost: 0.0045,
+    steps: [
+      {
+        reasoning: "Clicking the <login> button",
+        action: {
+          type: "tool_use",
+          name: "left_click",
+          input: { action: "left_click", coordinate: [10, 20] },
+        },
+        result: "Clicked",
+        timestamp: 1,
+      },
+    ],
+    expectations: [],
+    screenshots: [],
+    artifacts: {},
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "shortest-reports-"));
+    report = {
+      startedAt: Date.UTC(2025, 0, 1),
+      duration: 4000,
+      files: [
+        {
+          filePath: "login.test.ts",
+          status: "passed",
+          tests: [
+            createTestReport({ name: "logs in" }),
+            createTestReport({
+              name: "logs out & back in",
+              attempt: 2,
+              flaky: true,
+            }),
+            createTestReport({
+              name: "shows an error",
+              status: "failed",
+              reason: 'Expected "Invalid password" to be shown',
+            }),
+          ],
+        },
+        {
+          filePath: "broken.test.ts",
+          status: "failed",
+          reason: "Failed to compile",
+          tests: [],
+        },
+      ],
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("summarizes the run", () => {
+    const summary = summarizeRunReport(report);
+    expect(summary).toMatchObject({
+      files: 2,
+      tests: 3,
+      passed: 1,
+      failed: 1,
+      flaky: 1,
+      skipped: 0,
+      totalTokens: 3300,
+    });
+    expect(summary.cost).toBeCloseTo(0.0135);
+  });
+
+  describe("junit", () => {
+    test("renders a test suite per file", () => {
+      const xml = renderJUnitReport(report);
+
+      expect(xml).toContain(
+        '<testsuites name="shortest" tests="4" failures="1" errors="1" skipped="0" time="4.000"',
+      );
+      expect(xml).toContain(
+        '<testsuite name="login.test.ts" tests="3" failures="1" errors="0" skipped="0" time="4.500">',
+      );
+      expect(xml).toContain(
+        '<testsuite name="broken.test.ts" tests="1" failures="0" errors="1"',
+      );
+      expect(xml).toContain('<error message="Failed to compile"/>');
+    });
+
+    test("renders failures, properties and steps with escaping", () => {
+      const xml = renderJUnitReport(report);
+
+      expect(xml).toContain(
+        '<testcase name="logs out &amp; back in" classname="login.test.ts" time="1.500">',
+      );
+      expect(xml).toContain('<property name="browser" value="chromium"/>');
+      expect(xml).toContain('<property name="flaky" value="true"/>');
+      expect(xml).toContain('<property name="totalTokens" value="1100"/>');
+      expect(xml).toContain(
+        '<failure message="Expected &quot;Invalid password&quot; to be shown" type="AssertionError">',
+      );
+      expect(xml).toContain(
+        "1. left_click {&quot;action&quot;:&quot;left_click&quot;,&quot;coordinate&quot;:[10,20]} =&gt; Clicked",
+      );
+    });
+
+    test("renders skipped tests", () => {
+      report.files[0].tests[0] = {
+        ...report.files[0].tests[0],
+        status: "skipped",
+        reason: "fixme: flaky on Safari",
+      };
+      const xml = renderJUnitReport(report);
+
+      expect(xml).toContain(
+        '<testsuite name="login.test.ts" tests="3" failures="1" errors="0" skipped="1"',
+      );
+      expect(xml).toContain('<skipped message="fixme: flaky on Safari"/>');
+    });
+
+    test("references screenshots as attachments", () => {
+      report.files[0].tests[0].screenshots = [".shortest/screenshot-1.png"];
+      expect(renderJUnitReport(report)).toContain(
+        "[[ATTACHMENT|.shortest/screenshot-1.png]]",
+      );
+    });
+
+    test("references recorded artifacts as attachments", () => {
+      report.files[0].tests[2].artifacts = {
+        trace: ".shortest/runs/run-1/trace.zip",
+      };
+      expect(renderJUnitReport(report)).toContain(
+        "[[ATTACHMENT|.shortest/runs/run-1/trace.zip]]",
+      );
+    });
+  });
+
+  describe("json", () => {
+    test("renders the summary and file reports", () => {
+      const json = JSON.parse(renderJsonReport(report));
+
+      expect(json.startedAt).toBe("2025-01-01T00:00:00.000Z");
+      expect(json.summary).toMatchObject({ tests: 3, failed: 1, flaky: 1 });
+      expect(json.files[0].tests[2]).toMatchObject({
+        name: "shows an error",
+        status: "failed",
+        reason: 'Expected "Invalid password" to be shown',
+        duration: 1500,
+        cost: 0.0045,
+        steps: report.files[0].tests[2].steps,
+      });
+    });
+  });
+
+  describe("html", () => {
+    test("renders an escaped, self-contained page", async () => {
+      const html = await renderHtmlReport(report);
+
+      expect(html).toContain("<!DOCTYPE html>");
+      expect(html).toContain("logs out &amp; back in");
+      expect(html).toContain("Clicking the &lt;login&gt; button");
+      expect(html).toContain('<span class="flaky">flaky</span>');
+      expect(html).toContain("Error processing file: Failed to compile");
+    });
+
+    test("embeds screenshots as data URIs", async () => {
+      const screenshotPath = path.join(tempDir, "screenshot-1.png");
+      await fs.writeFile(screenshotPath, "image-data");
+      report.files[0].tests[0].screenshots = [screenshotPath];
+
+      const html = await renderHtmlReport(report);
+
+      expect(html).toContain(
+        `src="data:image/jpeg;base64,${Buffer.from("image-data").toString("base64")}"`,
+      );
+    });
+
+    test("logs screenshots that cannot be read", async () => {
+      const errorSpy = vi
+        .spyOn(getLogger(), "error")
+        .mockImplementation(() => {});
+      const screenshotPath = path.join(tempDir, "missing.png");
+      report.files[0].tests[0].screenshots = [screenshotPath];
+
+      const html = await renderHtmlReport(report);
+
+      expect(html).not.toContain("<img");
+      expect(errorSpy).toHaveBeenCalledWith(
+        "Failed to read screenshot",
+        expect.objectContaining({ screenshotPath }),
+      );
+      errorSpy.mockRestore();
+    });
+
+    test("embeds screenshots read when the test ended", async () => {
+      const screenshotPath = path.join(tempDir, "screenshot-1.png");
+      await fs.writeFile(screenshotPath, "image-data");
+      const failedTest = report.files[0].tests[2];
+      failedTest.screenshots = [screenshotPath];
+
+      const reporter = new ReportFileReporter("html", tempDir);
+      await reporter.onTestEnd(failedTest);
+      // Deleted by the retention policy before the run ends
+      await fs.rm(screenshotPath);
+      await reporter.onRunEnd(report);
+
+      const html = await fs.readFile(
+        path.join(tempDir, "report.html"),
+        "utf-8",
+      );
+      expect(html).toContain(
+        `src="data:image/jpeg;base64,${Buffer.from("image-data").toString("base64")}"`,
+      );
+    });
+
+    test("links recorded artifacts", async () => {
+      report.files[0].tests[2].artifacts = {
+        trace: ".shortest/runs/run-1/trace.zip",
+        video: ".shortest/runs/run-1/page.webm",
+      };
+
+      const html = await renderHtmlReport(report);
+
+      expect(html).toContain(
+        `<a href="${pathToFileURL(path.resolve(".shortest/runs/run-1/trace.zip")).href}">trace</a>`,
+      );
+      expect(html).toContain(">video</a>");
+    });
+  });
+
+  describe("writeReports", () => {
+    test("writes a file per reporter", async () => {
+      const reportPaths = await writeReports(
+        report,
+        ["junit", "json", "html"],
+        tempDir,
+      );
+
+      expect(reportPaths).toEqual([
+        path.join(tempDir, "junit.xml"),
+        path.join(tempDir, "report.json"),
+        path.join(tempDir, "report.html"),
+      ]);
+      for (const reportPath of reportPaths) {
+        await expect(fs.stat(reportPath)).resolves.toBeDefined();
+      }
+    });
+
+    test("writes nothing without reporters", async () => {
+      const reportsDir = path.join(tempDir, "reports");
+      expect(await writeReports(report, [], reportsDir)).toEqual([]);
+      await expect(fs.stat(reportsDir)).rejects.toThrow();
+    });
+  });
+});
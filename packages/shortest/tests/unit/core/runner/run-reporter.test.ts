@@ -0,0 +1,263 @@
+import * as fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { ReportFileReporter, summarizeRunReport } from "@/core/runner/reports";
+import { loadReporters, RunReporter } from "@/core/runner/run-reporter";
+import { createTestCase } from "@/core/runner/test-case";
+import { TestReporter } from "@/core/runner/test-reporter";
+import { TestRun } from "@/core/runner/test-run";
+import { ShortestStrictConfig } from "@/types/config";
+import { Reporter } from "@/types/reporter";
+import { ConfigError } from "@/utils/errors";
+
+describe("RunReporter", () => {
+  const aiConfig = {
+    provider: "anthropic",
+    model: "claude-3-5-sonnet-20241022",
+  } as const;
+  const testCase = createTestCase({
+    name: "test case",
+    filePath: "login.test.ts",
+  });
+
+  const createFinishedTestRun = (status: "passed" | "failed", attempt = 1) => {
+    const testRun = TestRun.create(testCase, { attempt });
+    testRun.markRunning();
+    testRun.addStep({
+      reasoning: "Clicking the login button",
+      action: null,
+      result: "Clicked",
+      timestamp: 1,
+    });
+    const tokenUsage = {
+      promptTokens: 1000,
+      completionTokens: 1000,
+      totalTokens: 2000,
+    };
+    if (status === "passed") {
+      testRun.markPassed({ reason: "test passed", tokenUsage });
+    } else {
+      testRun.markFailed({ reason: "test failed", tokenUsage });
+    }
+    return testRun;
+  };
+
+  test("dispatches events to each reporter in order", async () => {
+    const calls: string[] = [];
+    const createReporter = (name: string): Reporter => ({
+      onRunStart: () => {
+        calls.push(`${name}:onRunStart`);
+      },
+      onTestEnd: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        calls.push(`${name}:onTestEnd`);
+      },
+    });
+    const runReporter = new RunReporter(
+      [createReporter("first"), createReporter("second")],
+      aiConfig,
+    );
+
+    await runReporter.onRunStart(1);
+    await runReporter.onFileStart("login.test.ts", 1);
+    await runReporter.onTestEnd(createFinishedTestRun("passed"));
+
+    expect(calls).toEqual([
+      "first:onRunStart",
+      "second:onRunStart",
+      "first:onTestEnd",
+      "second:onTestEnd",
+    ]);
+  });
+
+  test("exposes test and run reports", async () => {
+    const reporter = {
+      onTestEnd: vi.fn(),
+      onFileEnd: vi.fn(),
+      onRunEnd: vi.fn(),
+    };
+    const runReporter = new RunReporter([reporter], aiConfig);
+
+    await runReporter.onFileStart("login.test.ts", 1);
+    await runReporter.onTestEnd(createFinishedTestRun("failed"));
+    await runReporter.onFileEnd({
+      filePath: "login.test.ts",
+      status: "passed",
+      reason: "",
+    });
+    await runReporter.onRunEnd();
+
+    const testReport = reporter.onTestEnd.mock.calls[0][0];
+    expect(testReport).toMatchObject({
+      name: "test case",
+      filePath: "login.test.ts",
+      browser: "chromium",
+      status: "failed",
+      reason: "test failed",
+      tokenUsage: { totalTokens: 2000 },
+      cost: 0.018,
+      steps: [expect.objectContaining({ result: "Clicked" })],
+      expectations: [],
+      screenshots: [],
+    });
+    expect(reporter.onFileEnd).toHaveBeenCalledWith({
+      filePath: "login.test.ts",
+      status: "passed",
+      reason: undefined,
+      tests: [testReport],
+    });
+    expect(reporter.onRunEnd.mock.calls[0][0].files).toEqual([
+      expect.objectContaining({ filePath: "login.test.ts" }),
+    ]);
+  });
+
+  test("reports each file once per project", async () => {
+    const reporter = { onFileStart: vi.fn(), onRunEnd: vi.fn() };
+    const runReporter = new RunReporter([reporter], aiConfig);
+
+    for (const project of ["desktop", "mobile"]) {
+      await runReporter.onFileStart("login.test.ts", 1, project);
+      const testRun = TestRun.create(testCase, { project });
+      testRun.markRunning();
+      testRun.markPassed({ reason: "test passed" });
+      await runReporter.onTestEnd(testRun);
+      await runReporter.onFileEnd({
+        filePath: "login.test.ts",
+        project,
+        status: "passed",
+        reason: "",
+      });
+    }
+    await runReporter.onRunEnd();
+
+    expect(reporter.onFileStart).toHaveBeenCalledWith(
+      "login.test.ts",
+      1,
+      "mobile",
+    );
+    const files = reporter.onRunEnd.mock.calls[0][0].files;
+    expect(files).toHaveLength(2);
+    expect(files[1]).toMatchObject({
+      filePath: "login.test.ts",
+      project: "mobile",
+      tests: [expect.objectContaining({ project: "mobile" })],
+    });
+  });
+
+  test("continues when a reporter throws", async () => {
+    const reporter = { onTestStart: vi.fn() };
+    const runReporter = new RunReporter(
+      [
+        {
+          onTestStart: () => {
+            throw new Error("dashboard is down");
+          },
+        },
+        reporter,
+      ],
+      aiConfig,
+    );
+
+    await runReporter.onTestStart(testCase);
+
+    expect(reporter.onTestStart).toHaveBeenCalledWith(testCase);
+  });
+
+  test("reports the tokens and cost of all attempts of a flaky test", async () => {
+    const reporter = { onTestRetry: vi.fn(), onRunEnd: vi.fn() };
+    const runReporter = new RunReporter([reporter], aiConfig);
+
+    await runReporter.onFileStart("login.test.ts", 1);
+    await runReporter.onTestRetry(createFinishedTestRun("failed"));
+    await runReporter.onTestEnd(createFinishedTestRun("passed", 2));
+    await runReporter.onFileEnd({
+      filePath: "login.test.ts",
+      status: "passed",
+      reason: "",
+    });
+    await runReporter.onRunEnd();
+
+    expect(reporter.onTestRetry.mock.calls[0][0]).toMatchObject({
+      tokenUsage: { totalTokens: 2000 },
+      cost: 0.018,
+    });
+    const report = reporter.onRunEnd.mock.calls[0][0];
+    expect(report.files[0].tests[0]).toMatchObject({
+      flaky: true,
+      tokenUsage: {
+        promptTokens: 2000,
+        completionTokens: 2000,
+        totalTokens: 4000,
+      },
+      cost: 0.036,
+    });
+    expect(summarizeRunReport(report)).toMatchObject({
+      flaky: 1,
+      totalTokens: 4000,
+      cost: 0.036,
+    });
+  });
+
+  test("tells whether all tests passed", async () => {
+    const runReporter = new RunReporter([], aiConfig);
+    await runReporter.onFileStart("login.test.ts", 2);
+    await runReporter.onTestRetry(createFinishedTestRun("failed"));
+    await runReporter.onTestEnd(createFinishedTestRun("passed", 2));
+    expect(runReporter.allTestsPassed()).toBe(false);
+
+    await runReporter.onTestEnd(createFinishedTestRun("passed"));
+    expect(runReporter.allTestsPassed()).toBe(true);
+  });
+});
+
+describe("loadReporters", () => {
+  let tempDir: string;
+  const config = {
+    workers: 1,
+    reporters: [],
+  } as unknown as ShortestStrictConfig;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "shortest-reporters-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("starts with the terminal reporter", async () => {
+    const reporters = await loadReporters(config, tempDir);
+    expect(reporters).toHaveLength(1);
+    expect(reporters[0]).toBeInstanceOf(TestReporter);
+  });
+
+  test("loads built-in, inline and module reporters", async () => {
+    await fs.writeFile(
+      path.join(tempDir, "custom-reporter.ts"),
+      `export default class CustomReporter {
+        onRunEnd(): void {}
+      }`,
+    );
+    const inlineReporter = { onTestEnd: () => {} };
+
+    const reporters = await loadReporters(
+      {
+        ...config,
+        reporters: ["junit", inlineReporter, "./custom-reporter.ts"],
+      },
+      tempDir,
+    );
+
+    expect(reporters).toHaveLength(4);
+    expect(reporters[1]).toBeInstanceOf(ReportFileReporter);
+    expect(reporters[2]).toBe(inlineReporter);
+    expect(reporters[3].constructor.name).toBe("CustomReporter");
+  });
+
+  test("throws for an unknown reporter", async () => {
+    await expect(
+      loadReporters({ ...config, reporters: ["xml"] }, tempDir),
+    ).rejects.toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+  getStorageStatePath,
+  isStorageStateExpired,
+} from "@/core/runner/storage-state";
+
+describe("storage-state", () => {
+  let dirPath: string;
+  const now = Date.now();
+
+  const writeStorageState = async (expires: number[]) => {
+    const filePath = getStorageStatePath("admin", dirPath);
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        cookies: expires.map((cookieExpires, index) => ({
+          name: `cookie-${index}`,
+          value: "value",
+          domain: "localhost",
+          path: "/",
+          expires: cookieExpires,
+          httpOnly: true,
+          secure: false,
+          sameSite: "Lax",
+        })),
+        origins: [],
+      }),
+    );
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    dirPath = await fs.mkdtemp(path.join(os.tmpdir(), "shortest-auth-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dirPath, { recursive: true, force: true });
+  });
+
+  test("saves storage states by setup name", () => {
+    expect(getStorageStatePath("admin", dirPath)).toBe(
+      path.join(dirPath, "admin.json"),
+    );
+  });
+
+  test("expires missing and invalid storage states", async () => {
+    const filePath = getStorageStatePath("admin", dirPath);
+    expect(await isStorageStateExpired(filePath)).toBe(true);
+
+    await fs.writeFile(filePath, "{");
+    expect(await isStorageStateExpired(filePath)).toBe(true);
+  });
+
+  test("expires storage states with expired cookies", async () => {
+    const inOneHour = now / 1000 + 60 * 60;
+    expect(
+      await isStorageStateExpired(await writeStorageState([-1, inOneHour]), {
+        now,
+      }),
+    ).toBe(false);
+    expect(
+      await isStorageStateExpired(
+        await writeStorageState([inOneHour, now / 1000 - 1]),
+        { now },
+      ),
+    ).toBe(true);
+  });
+
+  test("expires storage states older than maxAge", async () => {
+    const filePath = await writeStorageState([-1]);
+    expect(await isStorageStateExpired(filePath, { maxAge: 60_000 })).toBe(
+      false,
+    );
+    expect(
+      await isStorageStateExpired(filePath, {
+        maxAge: 60_000,
+        now: Date.now() + 120_000,
+      }),
+    ).toBe(true);
+  });
+});
@@ -2,6 +2,7 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { describe, test, expect } from "vitest";
 import {
+  parseShortestDescribeBlocks,
   parseShortestTestFile,
   EXPRESSION_PLACEHOLDER,
 } from "@/core/runner/test-file-parser";
@@ -20,24 +21,28 @@ describe("test-file-parser", () => {
       expect(testLocations[0]).toEqual({
         testName:
           "Visit github.com and verify the global navigation header layout. Check GitHub logo, search bar, navigation items (Pull requests, Issues, Marketplace, Explore), and profile dropdown maintain correct spacing and alignment",
+        describePath: [],
         startLine: 3,
         endLine: 14,
       });
 
       expect(testLocations[1]).toEqual({
         testName: `Test Google's advanced search features`,
+        describePath: [],
         startLine: 16,
         endLine: 37,
       });
 
       expect(testLocations[2]).toEqual({
         testName: `Test the API POST endpoint ${EXPRESSION_PLACEHOLDER}/assert-bearer with body { "flagged": "false" } without providing a bearer token.`,
+        describePath: [],
         startLine: 42,
         endLine: 44,
       });
 
       expect(testLocations[3]).toEqual({
         testName: `Test the API POST endpoint ${EXPRESSION_PLACEHOLDER}/assert-bearer with body { "flagged": "true" } and the bearer token ${EXPRESSION_PLACEHOLDER}. Expect the response to show "flagged": true`,
+        describePath: [],
         startLine: 46,
         endLine: 49,
       });
@@ -50,5 +55,57 @@ describe("test-file-parser", () => {
 
       expect(testLocations).toEqual([]);
     });
+
+    test("includes the enclosing describe blocks and modified tests", () => {
+      const testLocations = parseShortestTestFile(
+        path.join(fixturesPath, "describe-test.ts"),
+      );
+
+      expect(testLocations).toEqual([
+        {
+          testName: "Open the home page",
+          describePath: [],
+          startLine: 3,
+          endLine: 3,
+        },
+        {
+          testName: "Add a product to the cart",
+          describePath: ["Checkout"],
+          startLine: 8,
+          endLine: 8,
+        },
+        {
+          testName: "Pay with a card",
+          describePath: ["Checkout", "Guest"],
+          startLine: 11,
+          endLine: 11,
+        },
+        {
+          testName: "Apply a discount code",
+          describePath: ["Checkout"],
+          startLine: 14,
+          endLine: 14,
+        },
+        {
+          testName: "Pay with a voucher",
+          describePath: [],
+          startLine: 18,
+          endLine: 18,
+        },
+      ]);
+    });
+  });
+
+  describe("parseShortestDescribeBlocks", () => {
+    test("parses nested describe blocks", () => {
+      const describeLocations = parseShortestDescribeBlocks(
+        path.join(fixturesPath, "describe-test.ts"),
+      );
+
+      expect(describeLocations).toEqual([
+        { describePath: ["Checkout"], startLine: 5, endLine: 15 },
+        { describePath: ["Checkout", "Guest"], startLine: 10, endLine: 12 },
+      ]);
+    });
   });
 });
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "vitest";
+import { createTestCase } from "@/core/runner/test-case";
+import { filterTests, hasTestFilter } from "@/core/runner/test-filter";
+
+describe("test-filter", () => {
+  const tests = [
+    createTestCase({
+      name: "Log in with a password",
+      filePath: "auth.test.ts",
+      tags: ["smoke", "auth"],
+    }),
+    createTestCase({
+      name: "Log out",
+      filePath: "auth.test.ts",
+      tags: ["auth"],
+    }),
+    createTestCase({
+      name: "Export the yearly report",
+      filePath: "auth.test.ts",
+      tags: ["slow"],
+    }),
+    createTestCase({ name: "Log in with GitHub", filePath: "auth.test.ts" }),
+  ];
+  const names = (filteredTests: typeof tests) =>
+    filteredTests.map((test) => test.name);
+
+  test("filters by name", () => {
+    expect(names(filterTests(tests, { grep: /^log in/i }))).toEqual([
+      "Log in with a password",
+      "Log in with GitHub",
+    ]);
+    expect(names(filterTests(tests, { grepInvert: /log/i }))).toEqual([
+      "Export the yearly report",
+    ]);
+  });
+
+  test("matches tags prefixed with @ in regular expressions", () => {
+    expect(names(filterTests(tests, { grep: /@smoke/ }))).toEqual([
+      "Log in with a password",
+    ]);
+  });
+
+  test("filters by included and excluded tags", () => {
+    expect(names(filterTests(tests, { tags: ["@auth", "slow"] }))).toEqual([
+      "Log in with a password",
+      "Log out",
+      "Export the yearly report",
+    ]);
+    expect(
+      names(filterTests(tests, { tags: ["auth"], excludeTags: ["smoke"] })),
+    ).toEqual(["Log out"]);
+    expect(names(filterTests(tests, { excludeTags: ["slow"] }))).toEqual([
+      "Log in with a password",
+      "Log out",
+      "Log in with GitHub",
+    ]);
+  });
+
+  test("tells whether a filter is set", () => {
+    expect(hasTestFilter({})).toBe(false);
+    expect(hasTestFilter({ tags: [] })).toBe(false);
+    expect(hasTestFilter({ excludeTags: ["slow"] })).toBe(true);
+  });
+});
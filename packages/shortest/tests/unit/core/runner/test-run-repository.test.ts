@@ -27,6 +27,7 @@ vi.mock("@/log", () => ({
 
 describe("TestRunRepository", () => {
   const TEST_CACHE_DIR = "/test-cache-dir";
+  const TEST_RUNS_DIR = "/test-runs-dir";
   const TEST_IDENTIFIER = "test-identifier";
 
   let mockTestCase: ReturnType<typeof createTestCase>;
@@ -45,7 +46,11 @@ describe("TestRunRepository", () => {
       get: () => TEST_IDENTIFIER,
     });
 
-    repository = new TestRunRepository(mockTestCase, TEST_CACHE_DIR);
+    repository = new TestRunRepository(
+      mockTestCase,
+      TEST_CACHE_DIR,
+      TEST_RUNS_DIR,
+    );
     vi.spyOn(fs, "mkdir").mockResolvedValue(undefined);
 
     sampleCacheEntry = {
@@ -278,6 +283,92 @@ describe("TestRunRepository", () => {
       expect(latestRun).toBeNull();
     });
 
+    test("getLatestPassedRun ignores runs with another system prompt", async () => {
+      const runs = ["aaaa1111", "bbbb2222", undefined].map((promptHash) => {
+        const testRun = TestRun.create(mockTestCase, { promptHash });
+        testRun.markRunning();
+        testRun.markPassed({ reason: "Passed" });
+        return testRun;
+      });
+      vi.spyOn(repository, "getRuns").mockResolvedValue(runs);
+
+      expect(
+        await repository.getLatestPassedRun({ promptHash: "aaaa1111" }),
+      ).toBe(runs[0]);
+      expect(
+        await repository.getLatestPassedRun({ promptHash: "cccc3333" }),
+      ).toBeNull();
+      expect(await repository.getLatestPassedRun()).toBe(runs[2]);
+    });
+
+    test("getLatestPassedRun ignores runs on another browser engine", async () => {
+      const runs = (["webkit", "chromium"] as const).map((browserName) => {
+        const testRun = TestRun.create(mockTestCase, { browserName });
+        testRun.markRunning();
+        testRun.markPassed({ reason: "Passed" });
+        return testRun;
+      });
+      vi.spyOn(repository, "getRuns").mockResolvedValue(runs);
+
+      expect(
+        await repository.getLatestPassedRun({ browserName: "webkit" }),
+      ).toBe(runs[0]);
+      expect(
+        await repository.getLatestPassedRun({ browserName: "firefox" }),
+      ).toBe(null);
+      expect(await repository.getLatestPassedRun()).toBe(runs[1]);
+    });
+
+    test("getLatestPassedRun ignores runs with another viewport", async () => {
+      const runs = [
+        { width: 390, height: 844 },
+        { width: 1920, height: 1080 },
+      ].map((viewport) => {
+        const testRun = TestRun.create(mockTestCase, { viewport });
+        testRun.markRunning();
+        testRun.markPassed({ reason: "Passed" });
+        return testRun;
+      });
+      vi.spyOn(repository, "getRuns").mockResolvedValue(runs);
+
+      expect(
+        await repository.getLatestPassedRun({
+          viewport: { width: 390, height: 844 },
+        }),
+      ).toBe(runs[0]);
+      expect(
+        await repository.getLatestPassedRun({
+          viewport: { width: 1280, height: 720 },
+        }),
+      ).toBeNull();
+      expect(await repository.getLatestPassedRun()).toBe(runs[1]);
+    });
+
+    test("getLatestPassedRun ignores runs of another project", async () => {
+      // Devices sharing a viewport, with another layout on mobile
+      const runs = [undefined, "Mobile", "Tablet"].map((project) => {
+        const testRun = TestRun.create(mockTestCase, {
+          viewport: { width: 820, height: 1180 },
+          project,
+        });
+        testRun.markRunning();
+        testRun.markPassed({ reason: "Passed" });
+        return testRun;
+      });
+      vi.spyOn(repository, "getRuns").mockResolvedValue(runs);
+
+      expect(await repository.getLatestPassedRun({ project: "Mobile" })).toBe(
+        runs[1],
+      );
+      expect(await repository.getLatestPassedRun({ project: null })).toBe(
+        runs[0],
+      );
+      expect(
+        await repository.getLatestPassedRun({ project: "Desktop" }),
+      ).toBeNull();
+      expect(await repository.getLatestPassedRun()).toBe(runs[2]);
+    });
+
     test("saveRun writes a test run to the cache file", async () => {
       vi.spyOn(repository as any, "acquireLock").mockResolvedValue(true);
       vi.spyOn(repository, "releaseLock").mockResolvedValue();
@@ -289,7 +380,14 @@ describe("TestRunRepository", () => {
 
       const testRun = TestRun.create(mockTestCase);
       testRun.markRunning();
-      testRun.markPassed({ reason: "Test passed" });
+      testRun.markPassed({
+        reason: "Test passed",
+        expectations: [
+          { index: 1, status: "passed", evidence: "Logged in", steps: [2] },
+        ],
+      });
+
+      testRun.artifacts = { trace: ".shortest/runs/test-run-id/trace.zip" };
 
       await repository.saveRun(testRun);
 
@@ -308,6 +406,12 @@ describe("TestRunRepository", () => {
           version: TestRunRepository.VERSION,
           status: "passed",
           reason: "Test passed",
+          browser: "chromium",
+          viewport: { width: 1920, height: 1080 },
+          artifacts: { trace: ".shortest/runs/test-run-id/trace.zip" },
+          expectations: [
+            { index: 1, status: "passed", evidence: "Logged in", steps: [2] },
+          ],
         },
         test: {
           name: mockTestCase.name,
@@ -316,6 +420,40 @@ describe("TestRunRepository", () => {
       });
     });
 
+    test("saveRun serializes concurrent saves to the same repository", async () => {
+      const events: string[] = [];
+      vi.mocked(fs.writeFile).mockImplementation(
+        async (_filePath, _data, options) => {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          events.push((options as any)?.flag === "wx" ? "lock" : "write");
+        },
+      );
+      vi.mocked(fs.unlink).mockImplementation(async () => {
+        events.push("unlock");
+      });
+
+      const testRuns = [
+        TestRun.create(mockTestCase),
+        TestRun.create(mockTestCase),
+      ];
+      testRuns.forEach((testRun) => {
+        testRun.markRunning();
+        testRun.markPassed({ reason: "Test passed" });
+      });
+
+      await Promise.all(testRuns.map((testRun) => repository.saveRun(testRun)));
+
+      expect(events).toEqual([
+        "lock",
+        "write",
+        "unlock",
+        "lock",
+        "write",
+        "unlock",
+      ]);
+      expect(repository["lockAcquired"]).toBe(false);
+    });
+
     test("saveRun does nothing if lock acquisition fails", async () => {
       vi.spyOn(repository as any, "acquireLock").mockResolvedValue(false);
 
@@ -350,6 +488,11 @@ describe("TestRunRepository", () => {
         recursive: true,
         force: true,
       });
+      // Recordings are removed by the cache clean-up once they expire
+      expect(fs.rm).not.toHaveBeenCalledWith(
+        path.join(TEST_RUNS_DIR, testRun.runId),
+        expect.anything(),
+      );
     });
 
     test("handles errors when deleting non-existent files", async () => {
@@ -414,6 +557,57 @@ describe("TestRunRepository", () => {
       expect(deleteRunMock).not.toHaveBeenCalledWith(passedRun);
     });
 
+    test("keeps the latest passed run of each project", async () => {
+      const deleteRunMock = vi.fn().mockResolvedValue(undefined);
+      repository.deleteRun = deleteRunMock;
+
+      const runs = ["Mobile", "Tablet"].map((project) => {
+        const testRun = TestRun.create(mockTestCase, {
+          viewport: { width: 820, height: 1180 },
+          project,
+        });
+        testRun.markRunning();
+        testRun.markPassed({ reason: "Passed" });
+        return testRun;
+      });
+      vi.spyOn(repository, "getRuns").mockResolvedValue(runs);
+
+      await repository.applyRetentionPolicy();
+
+      expect(deleteRunMock).not.toHaveBeenCalled();
+    });
+
+    test("keeps the recorded artifacts of a failed run following a passed run", async () => {
+      const passedRun = {
+        version: TestRunRepository.VERSION,
+        status: "passed",
+        runId: "passed-run",
+        timestamp: 1000,
+        executedFromCache: false,
+      } as TestRun;
+      const failedRun = {
+        version: TestRunRepository.VERSION,
+        status: "failed",
+        runId: "failed-run",
+        timestamp: 2000,
+        executedFromCache: false,
+        artifacts: { trace: ".shortest/runs/failed-run/trace.zip" },
+      } as TestRun;
+
+      vi.spyOn(repository, "getRuns").mockResolvedValue([passedRun, failedRun]);
+      vi.spyOn(repository, "getLatestPassedRun").mockResolvedValue(passedRun);
+
+      await repository.applyRetentionPolicy();
+
+      expect(fs.unlink).toHaveBeenCalledWith(
+        path.join(TEST_CACHE_DIR, "failed-run.json"),
+      );
+      expect(fs.rm).not.toHaveBeenCalledWith(
+        repository.getRecordingDirPath(failedRun),
+        expect.anything(),
+      );
+    });
+
     test("keeps most recent run when no passed runs exist", async () => {
       const deleteRunMock = vi.fn().mockResolvedValue(undefined);
       repository.deleteRun = deleteRunMock;
@@ -442,6 +636,40 @@ describe("TestRunRepository", () => {
       expect(deleteRunMock).not.toHaveBeenCalledWith(newerRun);
     });
 
+    test("keeps the runs passed as kept runs", async () => {
+      const deleteRunMock = vi.fn().mockResolvedValue(undefined);
+      repository.deleteRun = deleteRunMock;
+
+      const [olderRun, failedAttempt, passedAttempt] = (
+        ["passed", "failed", "passed"] as const
+      ).map(
+        (status, index) =>
+          ({
+            version: TestRunRepository.VERSION,
+            status,
+            runId: `run-${index}`,
+            timestamp: index,
+            executedFromCache: false,
+          }) as TestRun,
+      );
+
+      vi.spyOn(repository, "getRuns").mockResolvedValue([
+        olderRun,
+        failedAttempt,
+        passedAttempt,
+      ]);
+      vi.spyOn(repository, "getLatestPassedRun").mockResolvedValue(
+        passedAttempt,
+      );
+
+      await repository.applyRetentionPolicy({
+        keptRunIds: [failedAttempt.runId, passedAttempt.runId],
+      });
+
+      expect(deleteRunMock).toHaveBeenCalledTimes(1);
+      expect(deleteRunMock).toHaveBeenCalledWith(olderRun);
+    });
+
     test("excludes runs with executedFromCache=true from retention policy", async () => {
       const deleteRunMock = vi.fn().mockResolvedValue(undefined);
       repository.deleteRun = deleteRunMock;
@@ -484,6 +712,32 @@ describe("TestRunRepository", () => {
       expect(deleteRunMock).not.toHaveBeenCalledWith(regularRun);
       expect(deleteRunMock).not.toHaveBeenCalledWith(fromCacheRun);
     });
+
+    test("keeps the latest passed run of each browser engine", async () => {
+      const deleteRunMock = vi.fn().mockResolvedValue(undefined);
+      repository.deleteRun = deleteRunMock;
+
+      const [chromiumRun, webkitRun, olderWebkitRun] = (
+        ["chromium", "webkit", "webkit"] as const
+      ).map((browserName, index) => {
+        const testRun = TestRun.create(mockTestCase, { browserName });
+        testRun.markRunning();
+        testRun.markPassed({ reason: "Passed" });
+        Object.defineProperty(testRun, "runId", { value: `run-${index}` });
+        return testRun;
+      });
+
+      vi.spyOn(repository, "getRuns").mockResolvedValue([
+        chromiumRun,
+        olderWebkitRun,
+        webkitRun,
+      ]);
+
+      await repository.applyRetentionPolicy();
+
+      expect(deleteRunMock).toHaveBeenCalledTimes(1);
+      expect(deleteRunMock).toHaveBeenCalledWith(olderWebkitRun);
+    });
   });
 
   describe("Directory management", () => {
@@ -39,6 +39,13 @@ describe("test-run", () => {
     expect(testRun.reason).toBe("test failed");
   });
 
+  test("transitions from pending to skipped", () => {
+    const testRun = TestRun.create(mockTestCase);
+    testRun.markSkipped({ reason: "fixme" });
+    expect(testRun.status).toBe("skipped");
+    expect(testRun.reason).toBe("fixme");
+  });
+
   test("tracks token usage", () => {
     const testRun = TestRun.create(mockTestCase);
     const usage = {
@@ -78,6 +85,14 @@ describe("test-run", () => {
     );
   });
 
+  test("throws when skipping from non-pending state", () => {
+    const testRun = TestRun.create(mockTestCase);
+    testRun.markRunning();
+    expect(() => testRun.markSkipped()).toThrow(
+      "Can only skip from pending state",
+    );
+  });
+
   test("adds and retrieves steps", () => {
     const testRun = TestRun.create(mockTestCase);
 
@@ -174,6 +189,65 @@ describe("test-run", () => {
     expect(testRun.version).toBe(TestRunRepository.VERSION);
     expect(testRun.executedFromCache).toBe(false);
     expect(testRun.getSteps()).toEqual(mockCacheEntry.data.steps);
+    expect(testRun.attempt).toBe(1);
+    expect(testRun.expectationResults).toEqual([]);
+  });
+
+  test("keeps the expectation results of the AI verdict", () => {
+    const expectations = [
+      {
+        index: 1,
+        status: "passed" as const,
+        evidence: "Form shown",
+        steps: [1],
+      },
+      {
+        index: 2,
+        status: "failed" as const,
+        evidence: "No confirmation",
+        steps: [3, 4],
+      },
+    ];
+    const testRun = TestRun.create(mockTestCase);
+    testRun.markRunning();
+    testRun.markFailed({ reason: "Not submitted", expectations });
+
+    expect(testRun.expectationResults).toEqual(expectations);
+    expect(testRun.failedExpectations).toEqual([expectations[1]]);
+  });
+
+  test("measures duration once finished", () => {
+    const testRun = TestRun.create(mockTestCase);
+    testRun.markRunning();
+    expect(testRun.duration).toBe(0);
+    testRun.markPassed({ reason: "test passed" });
+    expect(testRun.duration).toBeGreaterThanOrEqual(0);
+    expect(testRun.duration).toBeLessThan(1000);
+  });
+
+  test("defaults to the first attempt", () => {
+    const testRun = TestRun.create(mockTestCase);
+    expect(testRun.attempt).toBe(1);
+  });
+
+  test("is flaky when passed on a retry attempt", () => {
+    const firstAttempt = TestRun.create(mockTestCase);
+    firstAttempt.markRunning();
+    firstAttempt.markPassed({ reason: "test passed" });
+    expect(firstAttempt.flaky).toBe(false);
+
+    const retryAttempt = TestRun.create(mockTestCase, { attempt: 2 });
+    retryAttempt.markRunning();
+    retryAttempt.markPassed({ reason: "test passed" });
+    expect(retryAttempt.attempt).toBe(2);
+    expect(retryAttempt.flaky).toBe(true);
+  });
+
+  test("is not flaky when failed on a retry attempt", () => {
+    const testRun = TestRun.create(mockTestCase, { attempt: 3 });
+    testRun.markRunning();
+    testRun.markFailed({ reason: "test failed" });
+    expect(testRun.flaky).toBe(false);
   });
 
   test("handles version conversion in fromCache", () => {
@@ -38,6 +38,10 @@ describe("initializeConfig", () => {
       baseUrl: "https://example.com",
       browser: {},
       testPattern: ".*",
+      workers: 1,
+      retries: 0,
+      reporters: [],
+      forbidOnly: false,
       ai: {
         provider: "anthropic",
         apiKey: "test-key",
@@ -45,7 +49,14 @@ describe("initializeConfig", () => {
       },
       caching: {
         enabled: true,
+        replayOnly: false,
       },
+      transcripts: {
+        dir: "shortest-transcripts",
+        record: false,
+      },
+      budget: {},
+      recording: { trace: "off", video: "off", har: "off" },
     });
   });
 
@@ -73,6 +84,10 @@ describe("initializeConfig", () => {
       baseUrl: "https://example.com",
       browser: {},
       testPattern: ".*",
+      workers: 1,
+      retries: 0,
+      reporters: [],
+      forbidOnly: false,
       ai: {
         provider: "anthropic",
         apiKey: "test-key",
@@ -80,7 +95,14 @@ describe("initializeConfig", () => {
       },
       caching: {
         enabled: true,
+        replayOnly: false,
+      },
+      transcripts: {
+        dir: "shortest-transcripts",
+        record: false,
       },
+      budget: {},
+      recording: { trace: "off", video: "off", har: "off" },
     });
   });
 
@@ -150,6 +172,8 @@ describe("initializeConfig", () => {
         baseUrl: "https://other.example.com",
         testPattern: "custom-pattern/**/*.test.ts",
         noCache: true,
+        workers: 4,
+        retries: 2,
       };
       const { initializeConfig } = await import("@/index");
       const config = await initializeConfig({ cliOptions, configDir: tempDir });
@@ -158,6 +182,10 @@ describe("initializeConfig", () => {
         baseUrl: "https://other.example.com",
         browser: {},
         testPattern: "custom-pattern/**/*.test.ts",
+        workers: 4,
+        retries: 2,
+        reporters: [],
+        forbidOnly: false,
         ai: {
           provider: "anthropic",
           apiKey: "test-key",
@@ -165,7 +193,14 @@ describe("initializeConfig", () => {
         },
         caching: {
           enabled: false,
+          replayOnly: false,
+        },
+        transcripts: {
+          dir: "shortest-transcripts",
+          record: false,
         },
+        budget: {},
+        recording: { trace: "off", video: "off", har: "off" },
       });
     });
   });
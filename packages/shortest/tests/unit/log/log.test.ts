@@ -217,5 +217,37 @@ describe("Log", () => {
         undefined,
       );
     });
+
+    it("isolates groups within a group scope", async () => {
+      log.setGroup("Run");
+
+      const runWorker = (name: string) =>
+        Log.runInGroupScope(async () => {
+          log.setGroup(name);
+          await new Promise((resolve) => setTimeout(resolve, 0));
+          log.info(`${name} message`);
+          log.resetGroup();
+        });
+      await Promise.all([runWorker("Worker 1"), runWorker("Worker 2")]);
+      log.info("after workers");
+
+      const groupFor = (message: string) =>
+        vi
+          .mocked(LogOutput.render)
+          .mock.calls.find(([event]) => event.message === message)?.[2];
+
+      expect(groupFor("Worker 1 message")).toMatchObject({
+        name: "Worker 1",
+        parent: { name: "Run" },
+      });
+      expect(groupFor("Worker 2 message")).toMatchObject({
+        name: "Worker 2",
+        parent: { name: "Run" },
+      });
+      expect(groupFor("after workers")).toMatchObject({
+        name: "Run",
+        parent: undefined,
+      });
+    });
   });
 });
@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { shortest } from "@/index";
+
+describe("test API", () => {
+  const registry = (global as any).__shortest__.registry;
+
+  beforeEach(() => {
+    registry.currentFileTests = [];
+    registry.currentFilePath = "checkout.test.ts";
+    registry.beforeEachFns = [];
+    registry.instructions = [];
+    registry.testGroups = new Map();
+    registry.skip = undefined;
+  });
+
+  describe("describe", () => {
+    test("registers tests with the names of their describe blocks", () => {
+      shortest("Open the home page");
+      shortest.describe("Checkout", () => {
+        shortest.describe("Guest", () => {
+          shortest("Pay with a card");
+        });
+        shortest("Apply a discount code");
+      });
+
+      expect(
+        registry.currentFileTests.map((test: any) => test.describePath),
+      ).toEqual([undefined, ["Checkout", "Guest"], ["Checkout"]]);
+      expect(registry.currentGroup).toBeUndefined();
+    });
+
+    test("scopes hooks to their describe block", () => {
+      const fileHook = async () => {};
+      const groupHook = async () => {};
+      shortest.beforeEach(fileHook);
+      shortest.describe("Checkout", () => {
+        shortest.beforeEach(groupHook);
+        shortest.describe("Guest", () => {
+          shortest("Pay with a card");
+        });
+      });
+
+      const [testCase] = registry.currentFileTests;
+      const group = registry.testGroups.get(testCase);
+      expect(registry.beforeEachFns).toEqual([fileHook]);
+      expect(group.name).toBe("Guest");
+      expect(group.beforeEachFns).toEqual([]);
+      expect(group.parent.beforeEachFns).toEqual([groupHook]);
+    });
+
+    test("rejects asynchronous describe blocks", () => {
+      expect(() =>
+        shortest.describe("Checkout", (async () => {}) as any),
+      ).toThrow("describe() expects a synchronous function");
+      expect(registry.currentGroup).toBeUndefined();
+    });
+
+    test("rejects failing asynchronous describe blocks", async () => {
+      const unhandledRejection = vi.fn();
+      process.on("unhandledRejection", unhandledRejection);
+      try {
+        expect(() =>
+          shortest.describe("Checkout", (async () => {
+            throw new Error("Cart is empty");
+          }) as any),
+        ).toThrow("describe() expects a synchronous function");
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(unhandledRejection).not.toHaveBeenCalled();
+      } finally {
+        process.off("unhandledRejection", unhandledRejection);
+      }
+    });
+  });
+
+  describe("only, skip and fixme", () => {
+    test("registers focused and skipped tests", () => {
+      shortest.only("Pay with a card");
+      shortest.skip("Pay with a voucher");
+      shortest.fixme("Pay with a bank transfer");
+
+      expect(
+        registry.currentFileTests.map((test: any) => [
+          test.name,
+          test.only,
+          test.skip,
+        ]),
+      ).toEqual([
+        ["Pay with a card", true, undefined],
+        ["Pay with a voucher", undefined, { type: "skip" }],
+        ["Pay with a bank transfer", undefined, { type: "fixme" }],
+      ]);
+    });
+
+    test("skips the current file or describe block on a condition", () => {
+      shortest.skip(false, "Never skipped");
+      expect(registry.skip).toBeUndefined();
+
+      shortest.describe("Checkout", () => {
+        shortest.fixme(true, "Payment provider is down");
+        shortest("Pay with a card");
+      });
+      expect(registry.skip).toBeUndefined();
+      const [testCase] = registry.currentFileTests;
+      expect(registry.testGroups.get(testCase).skip).toEqual({
+        type: "fixme",
+        reason: "Payment provider is down",
+      });
+
+      shortest.skip(true, "Only on Chromium");
+      expect(registry.skip).toEqual({
+        type: "skip",
+        reason: "Only on Chromium",
+      });
+    });
+  });
+
+  describe("instructions", () => {
+    test("registers instructions of the file, describe blocks and tests", () => {
+      shortest.instructions("Dismiss the cookie banner first");
+      shortest.describe("Account", () => {
+        shortest.instructions("Never click 'Delete account'");
+        shortest("Update the profile")
+          .instructions(" Use the staging profile ")
+          .instructions("Keep the email unchanged");
+      });
+
+      const [testCase] = registry.currentFileTests;
+      expect(registry.instructions).toEqual([
+        "Dismiss the cookie banner first",
+      ]);
+      expect(registry.testGroups.get(testCase).instructions).toEqual([
+        "Never click 'Delete account'",
+      ]);
+      expect(testCase.instructions).toEqual([
+        "Use the staging profile",
+        "Keep the email unchanged",
+      ]);
+    });
+
+    test("rejects empty instructions", () => {
+      expect(() => shortest("Update the profile").instructions(" ")).toThrow(
+        'Instructions must be non-empty strings, received: " "',
+      );
+    });
+  });
+
+  describe("use", () => {
+    test("registers the storage state of a test", () => {
+      shortest(
+        "Export the yearly report",
+        shortest.options({
+          tags: ["admin"],
+          use: { storageState: "admin" },
+        }),
+      );
+
+      const [testCase] = registry.currentFileTests;
+      expect(testCase.storageState).toBe("admin");
+      expect(testCase.tags).toEqual(["admin"]);
+      expect(testCase.payload).toBeUndefined();
+    });
+
+    test("passes plain objects with option keys as the payload", () => {
+      shortest("Filter by tags", { tags: ["invoices"] });
+
+      const [testCase] = registry.currentFileTests;
+      expect(testCase.payload).toEqual({ tags: ["invoices"] });
+      expect(testCase.tags).toBeUndefined();
+    });
+
+    test("rejects an invalid storage state", () => {
+      expect(() =>
+        shortest(
+          "Export the yearly report",
+          shortest.options({ use: { storageState: "" } }),
+        ),
+      ).toThrow('use.storageState must be the name of a setup, received: ""');
+    });
+  });
+});
@@ -17,6 +17,10 @@ describe("tools/index", () => {
       const mockBrowserTool = {
         execute: vi.fn().mockResolvedValue({}),
         resultToToolResultContent: vi.fn(),
+        toToolParameters: vi.fn().mockReturnValue({
+          display_width_px: 1920,
+          display_height_px: 1080,
+        }),
       } as unknown as BrowserTool;
 
       const tools = registry.getTools(
@@ -94,6 +98,10 @@ describe("tools/index", () => {
       const mockBrowserTool = {
         execute: vi.fn().mockResolvedValue({}),
         resultToToolResultContent: vi.fn(),
+        toToolParameters: vi.fn().mockReturnValue({
+          display_width_px: 1920,
+          display_height_px: 1080,
+        }),
       } as unknown as BrowserTool;
 
       const tools = registry.getTools(
@@ -118,13 +126,72 @@ describe("tools/index", () => {
       expect(toolsMap.has("anthropic_computer_20250124")).toBe(true);
       expect(toolsMap.has("anthropic_bash_20241022")).toBe(true);
       expect(toolsMap.has("anthropic_bash_20250124")).toBe(true);
+      expect(toolsMap.has("function_computer")).toBe(true);
       expect(toolsMap.has("check_email")).toBe(true);
       expect(toolsMap.has("github_login")).toBe(true);
       expect(toolsMap.has("navigate")).toBe(true);
       expect(toolsMap.has("run_callback")).toBe(true);
       expect(toolsMap.has("sleep")).toBe(true);
+      expect(toolsMap.has("snapshot")).toBe(true);
+      expect(toolsMap.has("click_element")).toBe(true);
+      expect(toolsMap.has("fill")).toBe(true);
 
-      expect(toolsMap.size).toBe(9);
+      expect(toolsMap.size).toBe(13);
     });
+
+    it.each([
+      {
+        agentMode: "dom" as const,
+        expectedTools: [
+          "bash",
+          "check_email",
+          "github_login",
+          "navigate",
+          "run_callback",
+          "sleep",
+          "snapshot",
+          "click_element",
+          "fill",
+        ],
+      },
+      {
+        agentMode: "hybrid" as const,
+        expectedTools: [
+          "computer",
+          "bash",
+          "check_email",
+          "github_login",
+          "navigate",
+          "run_callback",
+          "sleep",
+          "snapshot",
+          "click_element",
+          "fill",
+        ],
+      },
+    ])(
+      "selects the page snapshot tools in $agentMode agent mode",
+      ({ agentMode, expectedTools }) => {
+        const registry = createToolRegistry();
+
+        const mockBrowserTool = {
+          execute: vi.fn().mockResolvedValue({}),
+          resultToToolResultContent: vi.fn(),
+          toToolParameters: vi.fn().mockReturnValue({
+            display_width_px: 1920,
+            display_height_px: 1080,
+          }),
+        } as unknown as BrowserTool;
+
+        const tools = registry.getTools(
+          "anthropic",
+          "claude-3-5-sonnet-latest",
+          mockBrowserTool,
+          agentMode,
+        );
+
+        expect(Object.keys(tools)).toEqual(expectedTools);
+      },
+    );
   });
 });
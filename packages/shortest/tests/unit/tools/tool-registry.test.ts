@@ -199,6 +199,53 @@ describe("ToolRegistry", () => {
       expect(tools37Latest).toHaveProperty("computer");
       expect(tools37Fixed).toHaveProperty("computer");
     });
+
+    it("falls back to the function computer tool for models without native computer use", () => {
+      registry.registerTool("anthropic_computer_20241022", {
+        name: "computer",
+        category: "provider" as const,
+        factory: (_browserTool: BrowserTool) => createMockTool("native"),
+      });
+      registry.registerTool("function_computer", {
+        name: "computer",
+        category: "provider" as const,
+        factory: (_browserTool: BrowserTool) => createMockTool("function"),
+      });
+
+      const anthropicTools = registry.getTools(
+        "anthropic",
+        "claude-3-5-sonnet-latest",
+        mockBrowserTool,
+      );
+      const openaiTools = registry.getTools(
+        "openai",
+        "gpt-4o",
+        mockBrowserTool,
+      );
+
+      expect((anthropicTools.computer as any).__meta.name).toBe("native");
+      expect((openaiTools.computer as any).__meta.name).toBe("function");
+      expect(Object.keys(openaiTools)).toEqual(["computer"]);
+    });
+  });
+
+  describe("getToolProtocol", () => {
+    it("uses native tools only for models with a provider computer tool", () => {
+      registry.registerTool("anthropic_computer_20241022", {
+        name: "computer",
+        category: "provider" as const,
+        factory: (_browserTool: BrowserTool) => createMockTool("computer"),
+      });
+
+      expect(
+        registry.getToolProtocol("anthropic", "claude-3-5-sonnet-latest"),
+      ).toBe("native");
+      expect(
+        registry.getToolProtocol("anthropic", "claude-3-7-sonnet-latest"),
+      ).toBe("function");
+      expect(registry.getToolProtocol("openai", "gpt-4o")).toBe("function");
+      expect(registry.getToolProtocol("ollama", "llava")).toBe("text");
+    });
   });
 
   describe("getProviderToolEntry", () => {